@@ -1,35 +1,98 @@
 import log from 'loglevel';
 
+import { createClient } from '../client/createClient';
 import { getConfig } from '../config/config';
+import { assertValidConfig } from '../config/validator';
 import { createContexts } from '../context/create';
+import { capToConfirmedBlock, updateChainHead } from '../context/indexingStatus';
+import { syncContractEntities } from '../handlers/contractReader';
+import { indexEventEntities } from '../handlers/eventIndexer';
 import { createDb } from '../handlers/dbCreator';
 import { syncEntities } from '../handlers/subgraphSyncer';
+import { getIncompleteSyncs } from '../handlers/syncState';
+import { summarizeMetrics } from '../metrics/metrics';
+import { markReady } from '../server/health';
+import { stopHttpServer } from '../server/httpServer';
+import { startOperationalServer } from '../server/operationalServer';
 import { watchBlocks } from '../watchers/blockWatcher';
+import { createShutdown, EXIT_CODES, exitOnSignals, Shutdown } from './shutdown';
 
 const main = async () => {
+  let shutdown: Shutdown | undefined;
   try {
     const config = getConfig();
 
-    const { logLevel, productionMode, initializeDb } = config.app;
+    const { logLevel, productionMode, initializeDb, shutdownTimeout } = config.app;
 
     log.setLevel(logLevel);
 
+    // Fail fast with every configuration problem before touching the database
+    assertValidConfig(config);
+
+    shutdown = createShutdown(shutdownTimeout);
+    exitOnSignals(shutdown);
+
     const context = createContexts(config);
+    shutdown.onRelease(() => context.dbContext.db.destroy());
+    shutdown.onRelease(async () => log.info(`[main] Final metrics: ${await summarizeMetrics()}`));
+
+    const server = await startOperationalServer(context);
+    if (server) {
+      // Closed last, so metrics can be scraped while in-flight work drains
+      shutdown.onRelease(() => stopHttpServer(server));
+    }
 
     // Create database schema
-    const entities = await createDb(context, productionMode, initializeDb);
+    const entities = await shutdown.track(createDb(context, productionMode, initializeDb));
+    if (shutdown.requested) {
+      return;
+    }
+
+    // Resume syncs interrupted by a previous run
+    const interrupted = await getIncompleteSyncs(context.dbContext.db);
+    const entitiesToSync = Array.from(context.schema.entities.keys())
+      .filter(entity => entities.includes(entity) || interrupted.includes(entity));
+
+    // Lets the initial sync refuse data from subgraphs lagging behind the chain
+    const client = createClient(config);
+    const head = await client.getBlockNumber();
+    updateChainHead(context.chainHead, head, config.blockchain.confirmations);
 
     // Initial sync of entities
-    await syncEntities(context, entities.filter(entity => entity !== 'LastProcessedBlock')); // TODO: We should change this a little bit, so that we don't have to filter out LastProcessedBlock here in this hardcoded way
+    await shutdown.track(syncEntities(context, entitiesToSync.filter(entity => entity !== 'LastProcessedBlock'))); // TODO: We should change this a little bit, so that we don't have to filter out LastProcessedBlock here in this hardcoded way
+    if (shutdown.requested) {
+      return;
+    }
+
+    // Entities read from contracts and event logs, after the subgraph entities they read for.
+    // Event logs are indexed from their cursors, so every events entity catches up.
+    const confirmedHead = capToConfirmedBlock(context.chainHead, head);
+    await shutdown.track(syncContractEntities(context, client, entitiesToSync, confirmedHead));
+    await shutdown.track(indexEventEntities(context, client, Array.from(context.schema.entities.keys()), confirmedHead));
+    if (shutdown.requested) {
+      return;
+    }
 
     if (!productionMode) {
-      process.exit(0);
+      process.exit(await shutdown.run('initial sync complete'));
     }
 
-    watchBlocks(context);
+    markReady(context.health);
+    const watcher = await shutdown.track(watchBlocks(context));
+    if (shutdown.requested) {
+      void watcher.stop();
+      return;
+    }
+    shutdown.onStop(() => {
+      void shutdown?.track(watcher.stop());
+    });
   } catch (error) {
+    // Work cut short by a timed out shutdown fails; the shutdown sets the exit code
+    if (shutdown?.requested) {
+      return;
+    }
     log.error('Error in main process:', error);
-    process.exit(1);
+    process.exit(EXIT_CODES.failed);
   }
 };
 
@@ -0,0 +1,39 @@
+import log from 'loglevel';
+
+import { createClient } from '../client/createClient';
+import { getConfig } from '../config/config';
+import { assertValidConfig } from '../config/validator';
+import { createContexts } from '../context/create';
+import { ensureInternalTables } from '../handlers/internalTables';
+import { reconcile } from '../handlers/reconciliation';
+import { EXIT_CODES } from './shutdown';
+
+/**
+ * One-off run of the reconciliation job against the configured database,
+ * subgraphs and RPC. Exits with `failed` when a discrepancy was found.
+ */
+const main = async () => {
+  const config = getConfig();
+  log.setLevel(config.app.logLevel);
+  assertValidConfig(config);
+
+  const context = createContexts(config);
+  try {
+    await context.dbContext.db.transaction(trx => ensureInternalTables(trx));
+    const { checked, discrepancies } = await reconcile(context, createClient(config));
+
+    for (const { entityName, entityId, column, subgraphValue, onchainValue } of discrepancies) {
+      log.warn(`[reconcile] ${entityName} ${entityId}.${column}: subgraph ${subgraphValue}, on-chain ${onchainValue}`);
+    }
+    const rows = Object.entries(checked).map(([entity, count]) => `${count} ${entity}`).join(', ');
+    log.info(`[reconcile] Checked ${rows || 'no rows'}: ${discrepancies.length} discrepancies`);
+    process.exitCode = discrepancies.length > 0 ? EXIT_CODES.failed : EXIT_CODES.clean;
+  } catch (error) {
+    log.error('[reconcile] Reconciliation failed:', error);
+    process.exitCode = EXIT_CODES.failed;
+  } finally {
+    await context.dbContext.db.destroy();
+  }
+};
+
+main();
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import log from 'loglevel';
+import { createShutdown, EXIT_CODES } from './shutdown';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('shutdown', () => {
+  before(() => {
+    log.setLevel('silent');
+  });
+
+  it('should stop new work, wait for tracked work, then release resources', async () => {
+    const shutdown = createShutdown(1000);
+    const events: string[] = [];
+    shutdown.onRelease(() => {
+      events.push('release db');
+    });
+    shutdown.onStop(() => {
+      events.push('stop watcher');
+    });
+    void shutdown.track(delay(20).then(() => events.push('block handled')));
+
+    const code = await shutdown.run('SIGTERM');
+
+    assert.equal(code, EXIT_CODES.clean);
+    assert.deepEqual(events, ['stop watcher', 'block handled', 'release db']);
+  });
+
+  it('should wait for work tracked by a stop step', async () => {
+    const shutdown = createShutdown(1000);
+    let drained = false;
+    shutdown.onStop(() => {
+      void shutdown.track(delay(20).then(() => {
+        drained = true;
+      }));
+    });
+
+    await shutdown.run('SIGTERM');
+
+    assert.equal(drained, true);
+  });
+
+  it('should release resources and report a timeout when work does not finish', async () => {
+    const shutdown = createShutdown(10);
+    let released = false;
+    shutdown.onRelease(() => {
+      released = true;
+    });
+    void shutdown.track(delay(500));
+
+    assert.equal(await shutdown.run('SIGTERM'), EXIT_CODES.timedOut);
+    assert.equal(released, true);
+  });
+
+  it('should report failed steps and still run the others', async () => {
+    const shutdown = createShutdown(1000);
+    let released = false;
+    shutdown.onRelease(() => {
+      throw new Error('pool already destroyed');
+    });
+    shutdown.onRelease(() => {
+      released = true;
+    });
+
+    assert.equal(await shutdown.run('SIGINT'), EXIT_CODES.failed);
+    assert.equal(released, true);
+  });
+
+  it('should not wait for failed work', async () => {
+    const shutdown = createShutdown(1000);
+    void shutdown.track(Promise.reject(new Error('sync failed'))).catch(error => error);
+
+    assert.equal(await shutdown.run('SIGTERM'), EXIT_CODES.clean);
+  });
+
+  it('should only shut down once', async () => {
+    const shutdown = createShutdown(1000);
+    let stops = 0;
+    shutdown.onStop(() => {
+      stops++;
+    });
+
+    assert.equal(shutdown.requested, false);
+    const first = shutdown.run('SIGTERM');
+    assert.equal(shutdown.requested, true);
+    await Promise.all([first, shutdown.run('SIGINT')]);
+
+    assert.equal(stops, 1);
+  });
+});
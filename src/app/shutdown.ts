@@ -0,0 +1,134 @@
+import log from 'loglevel';
+
+const DEFAULT_SHUTDOWN_TIMEOUT = 30000;
+
+/**
+ * Process exit codes of an orderly shutdown
+ */
+const EXIT_CODES = {
+  /** All in-flight work finished and every resource was released */
+  clean: 0,
+  /** A step of the shutdown failed */
+  failed: 1,
+  /** In-flight work was still running when the timeout expired */
+  timedOut: 2
+} as const;
+
+type ExitCode = typeof EXIT_CODES[keyof typeof EXIT_CODES];
+
+type ShutdownStep = () => Promise<void> | void;
+
+interface Shutdown {
+  /** Whether shutdown has begun; long-running phases check it before starting more work */
+  readonly requested: boolean;
+  /** Registers work that shutdown waits for, e.g. a migration or a block being handled */
+  track: <T>(work: Promise<T>) => Promise<T>;
+  /** Registers a step that stops new work from starting, run before waiting for tracked work */
+  onStop: (step: ShutdownStep) => void;
+  /** Registers a step that releases a resource, run once tracked work is done or timed out */
+  onRelease: (step: ShutdownStep) => void;
+  /** Shuts down once, resolving with the exit code; later calls return the same result */
+  run: (reason: string) => Promise<ExitCode>;
+}
+
+const runSteps = async (steps: ShutdownStep[], stage: string): Promise<boolean> => {
+  let ok = true;
+  for (const step of steps) {
+    try {
+      await step();
+    } catch (error) {
+      log.error(`[shutdown:runSteps] ${stage} step failed:`, error);
+      ok = false;
+    }
+  }
+  return ok;
+};
+
+/**
+ * Resolves true once all work settled, or false when the timeout expires first
+ */
+const waitFor = async (work: Set<Promise<unknown>>, timeoutMs: number): Promise<boolean> => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<false>(resolve => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  try {
+    return await Promise.race([Promise.allSettled([...work]).then(() => true), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Creates the shutdown sequence of the service: stop steps, then waiting up to
+ * `timeoutMs` for tracked work, then release steps (each in registration order)
+ */
+const createShutdown = (timeoutMs = DEFAULT_SHUTDOWN_TIMEOUT): Shutdown => {
+  const work = new Set<Promise<unknown>>();
+  const stopSteps: ShutdownStep[] = [];
+  const releaseSteps: ShutdownStep[] = [];
+  let result: Promise<ExitCode> | undefined;
+
+  const shutdown = async (reason: string): Promise<ExitCode> => {
+    log.info(`[shutdown:run] Shutting down (${reason}), waiting up to ${timeoutMs}ms for in-flight work`);
+    const stopped = await runSteps(stopSteps, 'stop');
+
+    const drained = await waitFor(work, timeoutMs);
+    if (!drained) {
+      log.error(`[shutdown:run] ${work.size} in-flight task(s) still running after ${timeoutMs}ms, releasing resources anyway`);
+    }
+
+    const released = await runSteps(releaseSteps, 'release');
+
+    if (!drained) {
+      return EXIT_CODES.timedOut;
+    }
+    const code = stopped && released ? EXIT_CODES.clean : EXIT_CODES.failed;
+    log.info(`[shutdown:run] Shutdown complete with exit code ${code}`);
+    return code;
+  };
+
+  return {
+    get requested() {
+      return result !== undefined;
+    },
+    track: <T>(promise: Promise<T>): Promise<T> => {
+      work.add(promise);
+      const forget = () => {
+        work.delete(promise);
+      };
+      promise.then(forget, forget);
+      return promise;
+    },
+    onStop: step => {
+      stopSteps.push(step);
+    },
+    onRelease: step => {
+      releaseSteps.push(step);
+    },
+    run: reason => {
+      result ??= shutdown(reason);
+      return result;
+    }
+  };
+};
+
+/**
+ * Shuts down on SIGTERM or SIGINT and exits with the resulting code. A second
+ * signal is not handled, so it terminates the process immediately.
+ */
+const exitOnSignals = (shutdown: Shutdown, exit: (code: number) => void = process.exit): void => {
+  const signals = ['SIGTERM', 'SIGINT'] as const;
+  const onSignal = (signal: NodeJS.Signals) => {
+    for (const other of signals) {
+      process.off(other, onSignal);
+    }
+    void shutdown.run(signal).then(exit);
+  };
+  for (const signal of signals) {
+    process.on(signal, onSignal);
+  }
+};
+
+export { createShutdown, EXIT_CODES, exitOnSignals };
+export type { ExitCode, Shutdown, ShutdownStep };
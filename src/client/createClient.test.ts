@@ -3,7 +3,7 @@ import { describe, it, beforeEach } from 'node:test';
 import { createClient } from './createClient';
 import { Config } from '../config/types';
 import { createMockConfig } from '../test-helpers/mockConfig';
-import { CHAINS } from '../config/chain';
+import { CHAINS, resolveChain } from '../config/chain';
 
 describe('Create Client', () => {
   let mockConfig: Config;
@@ -60,6 +60,41 @@ describe('Create Client', () => {
         assert.equal(client.transport.type, 'http');
       });
 
+      it('should use a single configured endpoint directly', () => {
+        mockConfig.blockchain.rpcUrls = { http: ['https://rpc.example'] };
+
+        const client = createClient(mockConfig);
+
+        assert.equal(client.transport.type, 'http');
+        assert.equal(client.transport.url, 'https://rpc.example');
+      });
+
+      it('should wrap several endpoints in a fallback transport, HTTP first when polling', () => {
+        mockConfig.blockchain.rpcUrls = { http: ['https://rpc.example'], ws: ['wss://rpc.example/ws'] };
+        mockConfig.blockchain.rpc = { retryCount: 2 };
+
+        const client = createClient(mockConfig);
+
+        assert.equal(client.transport.type, 'fallback');
+        assert.equal(client.transport.retryCount, 2);
+        assert.deepEqual(
+          (client.transport.transports as { config: { type: string } }[]).map(({ config }) => config.type),
+          ['http', 'webSocket']
+        );
+      });
+
+      it('should put WebSocket endpoints first when subscribing', () => {
+        mockConfig.blockchain.rpcUrls = { http: ['https://rpc.example'], ws: ['wss://rpc.example/ws'] };
+        mockConfig.blockchain.watchMode = 'subscribe';
+
+        const client = createClient(mockConfig);
+
+        assert.deepEqual(
+          (client.transport.transports as { config: { type: string } }[]).map(({ config }) => config.type),
+          ['webSocket', 'http']
+        );
+      });
+
       it('should create independent clients for multiple calls', () => {
         const client1 = createClient(mockConfig);
         const client2 = createClient(mockConfig);
@@ -260,6 +295,14 @@ describe('Create Client', () => {
         }
       });
 
+      it('should have a multicall3 contract on every chain', () => {
+        const networks = Object.keys(CHAINS) as (keyof typeof CHAINS)[];
+
+        for (const network of networks) {
+          assert.ok(CHAINS[network].contracts?.multicall3?.address, `Multicall3 missing for ${network}`);
+        }
+      });
+
       it('should have unique chain IDs', () => {
         const networks = Object.keys(CHAINS) as (keyof typeof CHAINS)[];
         const chainIds = new Set<number>();
@@ -285,4 +328,40 @@ describe('Create Client', () => {
       });
     });
   });
+
+  describe('resolveChain', () => {
+    it('should return the network\'s chain without overrides', () => {
+      assert.equal(resolveChain({ network: 'testnet' }), CHAINS.testnet);
+    });
+
+    it('should override the configured fields only', () => {
+      const chain = resolveChain({
+        network: 'regtest',
+        chain: {
+          id: 31337,
+          rpcUrls: ['http://anvil:8545'],
+          multicall3Address: '0x0000000000000000000000000000000000000042',
+          multicall3BlockCreated: 5,
+          blockTime: 1000
+        }
+      });
+
+      assert.equal(chain.id, 31337);
+      assert.equal(chain.name, CHAINS.regtest.name);
+      assert.deepEqual(chain.nativeCurrency, CHAINS.regtest.nativeCurrency);
+      assert.deepEqual(chain.rpcUrls.default.http, ['http://anvil:8545']);
+      assert.deepEqual(chain.contracts?.multicall3, { address: '0x0000000000000000000000000000000000000042', blockCreated: 5 });
+      assert.equal(chain.blockTime, 1000);
+    });
+
+    it('should configure the client from the chain definition', () => {
+      mockConfig.blockchain = { network: 'regtest', blockIntervalThreshold: 1, chain: { id: 31337, blockTime: 2000 } };
+
+      const client = createClient(mockConfig);
+
+      assert.equal(client.chain?.id, 31337);
+      assert.equal(client.pollingInterval, 1000);
+      assert.equal(client.transport.url, 'http://localhost:4444');
+    });
+  });
 });
@@ -1,6 +1,29 @@
-import { createPublicClient, http, PublicClient } from 'viem';
-import { CHAINS } from '../config/chain';
-import { Config } from '../config/types';
+import { createPublicClient, fallback, http, PublicClient, Transport, webSocket } from 'viem';
+import { CHAINS, resolveChain } from '../config/chain';
+import { Blockchain, Config } from '../config/types';
+
+/**
+ * Builds the RPC transport from `blockchain.rpcUrls`. WebSocket endpoints come
+ * first when subscribing to blocks, HTTP ones otherwise. Several endpoints are
+ * wrapped in a `fallback` transport, which retries across them (and ranks
+ * them when `rpc.rank` is set); without any, the chain's default RPC is used.
+ */
+const createTransport = ({ rpcUrls, rpc = {}, watchMode }: Blockchain): Transport => {
+  const { timeout, retryCount, retryDelay, rank = false } = rpc;
+  const httpTransports = (rpcUrls?.http ?? []).map(url => http(url, { timeout, retryCount, retryDelay }));
+  const wsTransports = (rpcUrls?.ws ?? []).map(url => webSocket(url, { timeout, retryCount, retryDelay }));
+  const transports = watchMode === 'subscribe'
+    ? [...wsTransports, ...httpTransports]
+    : [...httpTransports, ...wsTransports];
+
+  if (transports.length === 0) {
+    return http(undefined, { timeout, retryCount, retryDelay });
+  }
+  if (transports.length === 1) {
+    return transports[0];
+  }
+  return fallback(transports, { rank, retryCount, retryDelay });
+};
 
 const createClient = (config: Config): PublicClient => {
   if (!config?.blockchain?.network) {
@@ -11,14 +34,15 @@ const createClient = (config: Config): PublicClient => {
     throw new TypeError('Only single network is supported');
   }
 
-  const chain = CHAINS[config.blockchain.network];
-  if (!chain) {
+  if (!CHAINS[config.blockchain.network]) {
     throw new Error(`Unsupported network: ${config.blockchain.network}`);
   }
 
   return createPublicClient({
-    chain,
-    transport: http(), // Optionally customize transport per env
+    chain: resolveChain(config.blockchain),
+    transport: createTransport(config.blockchain),
+    // Defaults to half the chain's block time, between 500 ms and 4 s
+    pollingInterval: config.blockchain.pollingInterval,
   });
 };
 
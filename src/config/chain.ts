@@ -1,6 +1,15 @@
-import { defineChain } from 'viem';
+import { Address, Chain, defineChain } from 'viem';
 import { rootstock, rootstockTestnet } from 'viem/chains';
+import { Blockchain } from './types';
 
+/** Address Multicall3 gets when deployed with its pre-signed transaction, as on most chains */
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/**
+ * Local node (RSKj `--regtest` or an anvil-style stand-in on chain id 33).
+ * Multicall3 has to be deployed to it at the usual address, or its address
+ * set in `blockchain.chain.multicall3Address`.
+ */
 const rskRegtest = defineChain({
   id: 33,
   name: 'RSK Regtest',
@@ -10,6 +19,10 @@ const rskRegtest = defineChain({
       http: ['http://localhost:4444'],
     },
   },
+  contracts: {
+    multicall3: { address: MULTICALL3_ADDRESS },
+  },
+  testnet: true,
 });
 
 const CHAINS = {
@@ -20,5 +33,28 @@ const CHAINS = {
 
 type SupportedChain = keyof typeof CHAINS;
 
-export { CHAINS };
+/**
+ * Returns the chain of `blockchain.network` with the fields set in
+ * `blockchain.chain` overridden.
+ */
+const resolveChain = ({ network, chain: overrides }: Pick<Blockchain, 'network' | 'chain'>): Chain => {
+  const chain: Chain = CHAINS[network];
+  if (!overrides) {
+    return chain;
+  }
+
+  const { id, name, rpcUrls, multicall3Address, multicall3BlockCreated, blockTime } = overrides;
+  return defineChain({
+    ...chain,
+    id: id ?? chain.id,
+    name: name ?? chain.name,
+    rpcUrls: rpcUrls ? { default: { http: rpcUrls } } : chain.rpcUrls,
+    contracts: multicall3Address
+      ? { ...chain.contracts, multicall3: { address: multicall3Address as Address, blockCreated: multicall3BlockCreated } }
+      : chain.contracts,
+    blockTime: blockTime ?? chain.blockTime,
+  });
+};
+
+export { CHAINS, resolveChain };
 export type { SupportedChain };
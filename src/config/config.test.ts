@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AppContext } from '../context/types';
+import { resolveStrategies } from '../watchers/strategies/registry';
+import { getConfiguredRegistrations } from '../watchers/strategies/subgraphSyncStrategy';
+import { getConfig } from './config';
+
+// Loaded from config/default.yml and config/test.yml, as NODE_ENV=test
+describe('getConfig', () => {
+  it('should load the required sections', () => {
+    const config = getConfig();
+
+    assert.equal(config.app.initializeDb, false);
+    assert.equal(config.database.batchSize, 100);
+    assert.equal(config.blockchain.network, 'testnet');
+    assert.deepEqual(Object.keys(config.subgraphProviders), ['collective-rewards', 'governance', 'usd-vault']);
+    assert.ok(config.entities.length > 0);
+  });
+
+  it('should load the server section, on the port the compose healthcheck probes', () => {
+    assert.deepEqual(getConfig().server, {
+      port: 9464,
+      health: { maxBlockAge: 300, maxBlockLag: 100, maxFailedBlocks: 10 }
+    });
+  });
+
+  it('should load the configured strategies, so the block watcher registers them', () => {
+    const { strategies } = getConfig();
+
+    assert.deepEqual(Object.keys(strategies ?? {}), ['NewProposal', 'StakingHistory', 'VaultHistory']);
+    assert.deepEqual(getConfiguredRegistrations(strategies).map(({ name }) => name), ['NewProposal', 'StakingHistory', 'VaultHistory']);
+  });
+
+  it('should load the strategy toggles, so disabled strategies are skipped', () => {
+    const config = getConfig();
+    const context = { config, schema: { entities: new Map() }, graphqlContexts: {} } as unknown as AppContext;
+
+    assert.deepEqual(config.enabledStrategies, { VaultHistory: false });
+    const { skipped } = resolveStrategies(getConfiguredRegistrations(config.strategies), context);
+    assert.deepEqual(skipped.find(({ name }) => name === 'VaultHistory'), { name: 'VaultHistory', reason: 'disabled in enabledStrategies' });
+  });
+
+  it('should load the reconciliation section, sampling as configured', () => {
+    assert.deepEqual(getConfig().reconciliation, { sampleSize: 20, interval: 1000 });
+  });
+
+  it('should load the backerRewards section, reading in configured chunks', () => {
+    assert.deepEqual(getConfig().backerRewards, { chunkSize: 100 });
+  });
+});
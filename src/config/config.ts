@@ -1,5 +1,10 @@
 import config from 'config';
-import { App, Blockchain, Config, Contract, Database, Entity, SubgraphProvider } from './types';
+import { App, BackerRewards, Blockchain, Config, Contract, Database, Entity, Reconciliation, Server, SubgraphProvider, SubgraphStrategy } from './types';
+
+/**
+ * Reads an optional section, undefined when no config file sets it
+ */
+const getOptional = <T>(key: string): T | undefined => (config.has(key) ? config.get<T>(key) : undefined);
 
 const getConfig = (): Config => {
   const app = config.get<App>('app');
@@ -8,7 +13,24 @@ const getConfig = (): Config => {
   const subgraphProviders = config.get<Record<string, SubgraphProvider>>('subgraphProviders');
   const contracts = config.get<Contract[]>('contracts');
   const entities = config.get<Entity[]>('entities');
-  return { app, database, blockchain, subgraphProviders, contracts, entities };
+  const server = getOptional<Server>('server');
+  const strategies = getOptional<Record<string, SubgraphStrategy>>('strategies');
+  const enabledStrategies = getOptional<Record<string, boolean>>('enabledStrategies');
+  const reconciliation = getOptional<Reconciliation>('reconciliation');
+  const backerRewards = getOptional<BackerRewards>('backerRewards');
+  return {
+    app,
+    server,
+    database,
+    blockchain,
+    subgraphProviders,
+    contracts,
+    entities,
+    strategies,
+    enabledStrategies,
+    reconciliation,
+    backerRewards
+  };
 };
 
 export { getConfig };
@@ -4,20 +4,71 @@ import log from 'loglevel';
 
 interface Config {
     app: App;
+    server?: Server;
     database: Database;
     blockchain: Blockchain;
     subgraphProviders: Record<string, SubgraphProvider>;
     contracts: Contract[];
     entities: Entity[];
+    strategies?: Record<string, SubgraphStrategy>;
+    /** Block watcher strategies, code or configured, switched on or off by name; all are on by default */
+    enabledStrategies?: Record<string, boolean>;
+    reconciliation?: Reconciliation;
+    backerRewards?: BackerRewards;
 }
 
 interface App {
     initializeDb: boolean;
     logLevel: log.LogLevelDesc;
     productionMode: boolean;
+    allowDestructiveMigrations?: boolean;
+    /** Milliseconds to wait for in-flight work on SIGTERM/SIGINT before exiting anyway */
+    shutdownTimeout?: number;
 }
 
 
+/**
+ * HTTP server for operational endpoints such as `/metrics`; not started when omitted
+ */
+interface Server {
+    port: number;
+    health?: Partial<HealthThresholds>;
+}
+
+/**
+ * When `/healthz` starts failing once the block watcher is running
+ */
+interface HealthThresholds {
+    /** Seconds without a processed block */
+    maxBlockAge: number;
+    /** Blocks `LastProcessedBlock` may trail the chain head by */
+    maxBlockLag: number;
+    /** Consecutive blocks on which every strategy failed */
+    maxFailedBlocks: number;
+}
+
+/**
+ * Comparison of sampled subgraph rows to the contracts, see reconciliation.ts
+ */
+interface Reconciliation {
+    /** Rows sampled per entity */
+    sampleSize: number;
+    /** Blocks between runs of the Reconciliation strategy; `blockIntervalThreshold` when omitted */
+    interval?: number;
+}
+
+/**
+ * Estimated and earned rewards per backer, see backerRewards.ts
+ */
+interface BackerRewards {
+    /** Blocks between refreshes; once per cycle when omitted */
+    interval?: number;
+    /** (backer, gauge) pairs per multicall */
+    chunkSize?: number;
+    /** Reward token addresses; the BackersManager's reward token and RBTC when omitted */
+    tokens?: string[];
+}
+
 interface Database {
     batchSize: number;
     maxRetries: number;
@@ -28,13 +79,80 @@ interface Database {
 
 interface Blockchain {
     network: SupportedChain;
+    /** Overrides of the network's chain definition, e.g. for a local regtest node */
+    chain?: ChainDefinition;
     blockIntervalThreshold: number;
+    /** Blocks on top of a block before it is processed; strategies run against `head - confirmations` */
+    confirmations?: number;
+    /** Processed blocks kept in BlockHistory to find a reorg's common ancestor; deeper reorgs rebuild the whole schema */
+    maxReorgDepth?: number;
+    /** RPC endpoints; the chain's default public RPC when omitted */
+    rpcUrls?: RpcUrls;
+    rpc?: RpcSettings;
+    /** `poll` asks for new blocks every `pollingInterval` ms; `subscribe` needs a WebSocket URL. Defaults to `poll` */
+    watchMode?: 'poll' | 'subscribe';
+    pollingInterval?: number;
+}
+
+/**
+ * Chain definition fields; unset ones come from the `network`'s definition
+ */
+interface ChainDefinition {
+    id?: number;
+    name?: string;
+    /** The chain's default HTTP RPC, used when `blockchain.rpcUrls` is not set */
+    rpcUrls?: string[];
+    /** Multicall3 contract batching reads such as proposal states */
+    multicall3Address?: string;
+    multicall3BlockCreated?: number;
+    /** Average milliseconds between blocks; viem polls every half block time unless `pollingInterval` is set */
+    blockTime?: number;
+}
+
+/**
+ * RPC endpoints, tried in order (WebSocket first when subscribing)
+ */
+interface RpcUrls {
+    http?: string[];
+    ws?: string[];
+}
+
+interface RpcSettings {
+    /** Milliseconds before a request to an endpoint times out */
+    timeout?: number;
+    /** Retries of a failed request, across endpoints when there are several */
+    retryCount?: number;
+    /** Base milliseconds between retries, backing off exponentially */
+    retryDelay?: number;
+    /** Whether to order endpoints by measured latency and stability instead of the configured order */
+    rank?: boolean;
+}
+
+interface RetryPolicy {
+    maxRetries: number;
+    initialDelay: number;
+    maxDelay: number;
+}
+
+/**
+ * Additional endpoint serving the same subgraph. `id` and `apiKey` are
+ * combined with `url` like the provider's own; without an `id` the `url`
+ * is taken to be the complete endpoint (e.g. a Subgraph Studio query URL).
+ */
+interface SubgraphEndpoint {
+    url: string;
+    id?: string;
+    apiKey?: string;
 }
 
 interface SubgraphProvider {
     url: string;
     id: string;
     maxRowsPerRequest: number;
+    prefetchPages?: number;
+    retry?: Partial<RetryPolicy>;
+    fallbacks?: SubgraphEndpoint[];
+    maxBlockLag?: number;
     apiKey: string;
 }
 
@@ -53,7 +171,106 @@ interface Entity {
     name: string;
     columns: Column[];
     primaryKey: string[];
-    subgraphProvider: string;
+    /** Subgraph the entity is synced from; required when `source` is `subgraph` */
+    subgraphProvider?: string;
+    /** BigInt or Integer column holding the block a row was created or last updated at; lets reorg rollbacks delete rows of the orphaned fork */
+    blockColumn?: string;
+    /** Where rows come from; defaults to `subgraph` */
+    source?: 'subgraph' | 'contract' | 'events';
+    /** Contract call producing the rows of a `contract` entity */
+    contractRead?: ContractRead;
+    /** Contract event producing the rows of an `events` entity */
+    eventIndex?: EventIndex;
+}
+
+/**
+ * View function read for a `contract` entity, once or once per row of
+ * `forEach`. The string "{column}" in `address` or `args` stands for that
+ * column of the row. Results are stored with the entity's `blockColumn` set
+ * to the block they were read at.
+ */
+interface ContractRead {
+    /** Contract in `contracts` to call, unless `address` is set */
+    contract?: string;
+    address?: string;
+    /** Bundled ABI, e.g. `Gauge`; defaults to `contract` */
+    abi?: string;
+    function: string;
+    args?: (string | number | boolean)[];
+    /** Entity whose stored rows each produce one call, e.g. every Builder */
+    forEach?: string;
+    /** Columns copied from the `forEach` row, keyed by column of this entity */
+    fromRow?: Record<string, string>;
+    /** Column receiving each output of the function, keyed by output name or position */
+    outputs: Record<string, string>;
+    /** Blocks between reads; defaults to `blockchain.blockIntervalThreshold` */
+    interval?: number;
+}
+
+/**
+ * Contract event indexed from RPC logs for an `events` entity, one row per
+ * log. Each emitter has its own cursor, so emitters found later (e.g. new
+ * gauges) are indexed from `startBlock` while the others carry on.
+ */
+interface EventIndex {
+    /** Contract in `contracts` emitting the event, unless `addressesFrom` is set */
+    contract?: string;
+    /** Emitters taken from the stored rows of another entity, e.g. every Builder's gauge */
+    addressesFrom?: EventAddressSource;
+    /** Bundled ABI declaring the event, e.g. `Gauge`; defaults to `contract` */
+    abi?: string;
+    event: string;
+    /** Value of each column: an event argument, or "{blockNumber}", "{blockHash}", "{transactionHash}", "{logIndex}" or "{address}" */
+    fields: Record<string, string>;
+    /** First block to index; defaults to 0 */
+    startBlock?: number;
+    /** Blocks per `eth_getLogs` request; defaults to 1000 */
+    blockRange?: number;
+}
+
+interface EventAddressSource {
+    entity: string;
+    column: string;
+}
+
+/**
+ * Where a declarative strategy resumes from: one past the highest stored value
+ * of `column` in `entity` (the strategy's first entity by default), or
+ * `lookback` blocks before the current block
+ */
+interface StrategyCursor {
+    entity?: string;
+    column?: string;
+    lookback?: number;
+}
+
+/**
+ * `where` argument of a strategy's queries. The strings "{fromBlock}" and
+ * "{blockNumber}" are replaced by the cursor's block and the current block.
+ */
+interface FilterTemplate {
+    [key: string]: string | number | FilterTemplate;
+}
+
+/**
+ * Strategy syncing `entities`, all from the same subgraph, on new blocks.
+ * Entities are written in the listed order, so referenced ones go first.
+ */
+interface SubgraphStrategy {
+    entities: string[];
+    cursor: StrategyCursor;
+    /** Defaults to entities changed since the cursor's block */
+    filter?: FilterTemplate;
+    /** Filters of single entities, in place of `filter`; `{}` reads an entity unfiltered */
+    entityFilters?: Record<string, FilterTemplate>;
+    /** Blocks between successful runs; defaults to `blockchain.blockIntervalThreshold` */
+    interval?: number;
+    /** Whether its queries may share requests with other strategies; defaults to true */
+    batchable?: boolean;
+    /** Strategies that must run before this one; it is skipped when any of them is not running */
+    dependsOn?: string[];
+    /** Order among strategies without dependencies between them, lowest first; defaults to 100 */
+    priority?: number;
 }
 
-export type { Config, App, Database, Blockchain, SubgraphProvider, Contract, Column, Entity };
+export type { Config, App, Server, HealthThresholds, Reconciliation, BackerRewards, Database, Blockchain, ChainDefinition, RpcUrls, RpcSettings, RetryPolicy, SubgraphEndpoint, SubgraphProvider, Contract, Column, Entity, ContractRead, EventIndex, EventAddressSource, StrategyCursor, FilterTemplate, SubgraphStrategy };
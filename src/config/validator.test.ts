@@ -0,0 +1,514 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createMockConfig } from '../test-helpers/mockConfig';
+import { getConfig } from './config';
+import { Entity, EventIndex } from './types';
+import { assertValidConfig, ConfigValidationError, validateConfig } from './validator';
+
+const backer: Entity = {
+  name: 'Backer',
+  columns: [
+    { name: 'id', type: 'Bytes' },
+    { name: 'totalAllocation', type: 'BigInt' }
+  ],
+  primaryKey: ['id'],
+  subgraphProvider: 'collective-rewards'
+};
+
+const backerToBuilder: Entity = {
+  name: 'BackerToBuilder',
+  columns: [
+    { name: 'id', type: 'Bytes' },
+    { name: 'backer', type: 'Backer' },
+    { name: 'builders', type: ['Bytes'] }
+  ],
+  primaryKey: ['id'],
+  subgraphProvider: 'collective-rewards'
+};
+
+const withEntities = (...entities: Entity[]) => createMockConfig({ entities });
+
+const paths = (config: ReturnType<typeof createMockConfig>) => validateConfig(config).map(issue => issue.path);
+
+describe('Config Validator', () => {
+  it('should accept a valid configuration', () => {
+    assert.deepEqual(validateConfig(withEntities(backer, backerToBuilder)), []);
+  });
+
+  it('should accept the configuration shipped for the test environment', () => {
+    assert.deepEqual(validateConfig(getConfig()), []);
+  });
+
+  describe('entities', () => {
+    it('should report unknown column types with their YAML path', () => {
+      const issues = validateConfig(withEntities({
+        ...backer,
+        columns: [{ name: 'id', type: 'Bytes' }, { name: 'amount', type: 'Bigint' as any }]
+      }));
+
+      assert.equal(issues.length, 1);
+      assert.equal(issues[0].path, 'entities[0].columns[1].type');
+      assert.match(issues[0].message, /unknown type 'Bigint'/);
+    });
+
+    it('should report references to entities declared later', () => {
+      const issues = validateConfig(withEntities(backerToBuilder, backer));
+
+      assert.equal(issues.length, 1);
+      assert.equal(issues[0].path, 'entities[0].columns[1].type');
+      assert.match(issues[0].message, /declared later/);
+    });
+
+    it('should report arrays of entity references', () => {
+      const issues = validateConfig(withEntities(backer, {
+        ...backerToBuilder,
+        columns: [{ name: 'id', type: 'Bytes' }, { name: 'backers', type: ['Backer'] as any }]
+      }));
+
+      assert.deepEqual(issues.map(issue => issue.path), ['entities[1].columns[1].type']);
+      assert.match(issues[0].message, /arrays of entity references/);
+    });
+
+    it('should report primary keys naming missing, nullable or array columns', () => {
+      const issues = validateConfig(withEntities({
+        ...backer,
+        columns: [
+          { name: 'id', type: 'Bytes', nullable: true },
+          { name: 'tags', type: ['String'] }
+        ],
+        primaryKey: ['id', 'tags', 'missing']
+      }));
+
+      assert.deepEqual(issues.map(issue => issue.path), [
+        'entities[0].primaryKey[0]',
+        'entities[0].primaryKey[1]',
+        'entities[0].primaryKey[2]'
+      ]);
+    });
+
+    it('should report references to entities whose primary key is not scalar', () => {
+      const tagged: Entity = {
+        ...backer,
+        name: 'Tagged',
+        columns: [{ name: 'id', type: ['Bytes'] }],
+      };
+      const issues = validateConfig(withEntities(tagged, {
+        ...backerToBuilder,
+        columns: [{ name: 'id', type: 'Bytes' }, { name: 'tagged', type: 'Tagged' as any }]
+      }));
+
+      assert.ok(issues.some(issue =>
+        issue.path === 'entities[1].columns[1].type' && /only scalar types can be referenced/.test(issue.message)
+      ));
+    });
+
+    it('should report duplicate entities and columns', () => {
+      assert.deepEqual(paths(withEntities(backer, {
+        ...backer,
+        columns: [{ name: 'id', type: 'Bytes' }, { name: 'id', type: 'Bytes' }]
+      })), ['entities[1].name']);
+
+      assert.deepEqual(paths(withEntities({
+        ...backer,
+        columns: [{ name: 'id', type: 'Bytes' }, { name: 'id', type: 'String' }]
+      })), ['entities[0].columns[1].name']);
+    });
+
+    it('should report entities named like internal tables', () => {
+      assert.deepEqual(paths(withEntities({ ...backer, name: 'SchemaMigration' })), ['entities[0].name']);
+    });
+
+    it('should report unknown subgraph providers', () => {
+      const issues = validateConfig(withEntities({ ...backer, subgraphProvider: 'usd-vault' }));
+
+      assert.equal(issues.length, 1);
+      assert.equal(issues[0].path, 'entities[0].subgraphProvider');
+    });
+
+    it('should report block columns that are missing or not numeric', () => {
+      assert.deepEqual(paths(withEntities(
+        { ...backer, blockColumn: 'totalAllocation' },
+        { ...backerToBuilder, blockColumn: 'blockNumber' }
+      )), ['entities[1].blockColumn']);
+      assert.deepEqual(paths(withEntities({ ...backer, blockColumn: 'id' })), ['entities[0].blockColumn']);
+    });
+
+    describe('contract entities', () => {
+      const gaugeAllocation: Entity = {
+        name: 'GaugeAllocation',
+        columns: [
+          { name: 'backer', type: 'Backer' },
+          { name: 'totalAllocation', type: 'BigInt' }
+        ],
+        primaryKey: ['backer'],
+        source: 'contract',
+        contractRead: {
+          abi: 'Gauge',
+          address: '{id}',
+          function: 'totalAllocation',
+          forEach: 'Backer',
+          fromRow: { backer: 'id' },
+          outputs: { 0: 'totalAllocation' }
+        }
+      };
+
+      it('should accept contract reads matching the bundled ABI', () => {
+        assert.deepEqual(paths(withEntities(backer, gaugeAllocation)), []);
+      });
+
+      it('should report calls that do not match the ABI or the columns', () => {
+        const config = withEntities(backer, {
+          ...gaugeAllocation,
+          contractRead: {
+            abi: 'Gauge',
+            address: '{gauge}',
+            function: 'totalAllocation',
+            args: ['{id}'],
+            forEach: 'Backer',
+            fromRow: { builder: 'id' },
+            outputs: { 0: 'allocation' }
+          }
+        });
+
+        assert.deepEqual(paths(config), [
+          'entities[1].contractRead.address',
+          'entities[1].contractRead.function',
+          'entities[1].contractRead.outputs.0',
+          'entities[1].contractRead.fromRow.builder'
+        ]);
+      });
+
+      it('should require a known contract or an address', () => {
+        const config = withEntities(backer, {
+          ...gaugeAllocation,
+          contractRead: { contract: 'Governor', function: 'state', args: [1], outputs: { 0: 'totalAllocation' } }
+        });
+        config.contracts = [];
+
+        assert.deepEqual(paths(config), ['entities[1].contractRead.contract', 'entities[1].contractRead.abi']);
+      });
+
+      it('should not sync contract entities from subgraph strategies', () => {
+        const config = withEntities(backer, gaugeAllocation);
+        config.strategies = { Allocations: { entities: ['GaugeAllocation'], cursor: { lookback: 10 } } };
+
+        assert.deepEqual(paths(config), ['strategies.Allocations.entities[0]']);
+      });
+    });
+
+    describe('events entities', () => {
+      const newAllocation: EventIndex = {
+        contract: 'BackersManager',
+        event: 'NewAllocation',
+        fields: {
+          transactionHash: '{transactionHash}',
+          logIndex: '{logIndex}',
+          backer: 'backer_',
+          allocation: 'allocation_',
+          blockNumber: '{blockNumber}'
+        }
+      };
+      const allocationEvent: Entity = {
+        name: 'AllocationEvent',
+        columns: [
+          { name: 'transactionHash', type: 'Bytes' },
+          { name: 'logIndex', type: 'Integer' },
+          { name: 'backer', type: 'Backer' },
+          { name: 'allocation', type: 'BigInt' },
+          { name: 'blockNumber', type: 'BigInt' }
+        ],
+        primaryKey: ['transactionHash', 'logIndex'],
+        blockColumn: 'blockNumber',
+        source: 'events',
+        eventIndex: newAllocation
+      };
+      const withBackersManager = (...entities: Entity[]) => {
+        const config = withEntities(...entities);
+        config.contracts = [{ name: 'BackersManager', address: '0x0000000000000000000000000000000000000005' }];
+        return config;
+      };
+
+      it('should accept events declared in the bundled ABI', () => {
+        assert.deepEqual(paths(withBackersManager(backer, allocationEvent)), []);
+      });
+
+      it('should report unknown arguments and log fields, and unmapped keys', () => {
+        const config = withBackersManager(backer, {
+          ...allocationEvent,
+          blockColumn: undefined,
+          eventIndex: {
+            ...newAllocation,
+            fields: { transactionHash: '{txHash}', backer: 'backer', allocation: 'allocation_' }
+          }
+        });
+
+        assert.deepEqual(paths(config), [
+          'entities[1].blockColumn',
+          'entities[1].eventIndex.fields.transactionHash',
+          'entities[1].eventIndex.fields.backer',
+          'entities[1].eventIndex.fields'
+        ]);
+      });
+
+      it('should report unknown events and emitter columns', () => {
+        const config = withBackersManager(backer, {
+          ...allocationEvent,
+          eventIndex: { ...newAllocation, contract: undefined, abi: 'Gauge', event: 'KYCApproved', addressesFrom: { entity: 'Backer', column: 'gauge' } }
+        });
+
+        assert.deepEqual(paths(config), ['entities[1].eventIndex.addressesFrom.column', 'entities[1].eventIndex.event']);
+      });
+    });
+
+    it('should report circular references', () => {
+      const selfReferencing: Entity = {
+        ...backer,
+        columns: [...backer.columns, { name: 'referrer', type: 'Backer' as any }]
+      };
+      const issues = validateConfig(withEntities(selfReferencing));
+
+      assert.ok(issues.some(issue => /circular entity references: Backer -> Backer/.test(issue.message)));
+    });
+  });
+
+  describe('providers and contracts', () => {
+    it('should report providers without url or with invalid pagination', () => {
+      const config = withEntities(backer);
+      config.subgraphProviders['collective-rewards'] = { url: '', id: 'x', apiKey: '', maxRowsPerRequest: 0, prefetchPages: -1 };
+
+      assert.deepEqual(paths(config), [
+        'subgraphProviders.collective-rewards.url',
+        'subgraphProviders.collective-rewards.maxRowsPerRequest',
+        'subgraphProviders.collective-rewards.prefetchPages'
+      ]);
+    });
+
+    it('should report invalid retry settings', () => {
+      const config = withEntities(backer);
+      config.subgraphProviders['collective-rewards'] = {
+        url: 'http://localhost', id: 'x', apiKey: '', maxRowsPerRequest: 10,
+        retry: { maxRetries: -1, initialDelay: 2000, maxDelay: 1000 }
+      };
+
+      assert.deepEqual(paths(config), [
+        'subgraphProviders.collective-rewards.retry.maxRetries',
+        'subgraphProviders.collective-rewards.retry.maxDelay'
+      ]);
+    });
+
+    it('should report fallback endpoints without url', () => {
+      const config = withEntities(backer);
+      config.subgraphProviders['collective-rewards'] = {
+        url: 'http://localhost', id: 'x', apiKey: '', maxRowsPerRequest: 10,
+        fallbacks: [{ url: 'http://graph-node:8000', id: 'x' }, { url: '' }]
+      };
+
+      assert.deepEqual(paths(config), ['subgraphProviders.collective-rewards.fallbacks[1].url']);
+    });
+
+    it('should report invalid server ports', () => {
+      const config = withEntities(backer);
+      config.server = { port: 70000 };
+
+      assert.deepEqual(paths(config), ['server.port']);
+    });
+
+    it('should report an invalid shutdown timeout', () => {
+      const config = withEntities(backer);
+      config.app.shutdownTimeout = -1;
+
+      assert.deepEqual(paths(config), ['app.shutdownTimeout']);
+    });
+
+    it('should report an invalid maximum reorg depth', () => {
+      const config = withEntities(backer);
+      config.blockchain.maxReorgDepth = 0;
+
+      assert.deepEqual(paths(config), ['blockchain.maxReorgDepth']);
+    });
+
+    it('should report invalid confirmations', () => {
+      const config = withEntities(backer);
+      config.blockchain.confirmations = 1.5;
+
+      assert.deepEqual(paths(config), ['blockchain.confirmations']);
+      config.blockchain.confirmations = 0;
+      assert.deepEqual(paths(config), []);
+    });
+
+    it('should report invalid RPC settings', () => {
+      const config = withEntities(backer);
+      config.blockchain.rpcUrls = { http: ['https://rpc.example', 'wss://rpc.example'], ws: ['not a url'] };
+      config.blockchain.rpc = { timeout: 0, retryCount: -1, retryDelay: 100 };
+      config.blockchain.pollingInterval = 0;
+
+      assert.deepEqual(paths(config), [
+        'blockchain.rpcUrls.http[1]',
+        'blockchain.rpcUrls.ws[0]',
+        'blockchain.rpc.timeout',
+        'blockchain.rpc.retryCount',
+        'blockchain.pollingInterval'
+      ]);
+    });
+
+    it('should require a WebSocket URL to subscribe to blocks', () => {
+      const config = withEntities(backer);
+      config.blockchain.watchMode = 'subscribe';
+
+      assert.deepEqual(paths(config), ['blockchain.watchMode']);
+      config.blockchain.rpcUrls = { ws: ['wss://rpc.example'] };
+      assert.deepEqual(paths(config), []);
+    });
+
+    it('should report unknown networks and invalid chain definitions', () => {
+      const config = withEntities(backer);
+      config.blockchain.network = 'devnet' as never;
+      config.blockchain.chain = { id: 0, rpcUrls: ['localhost:4444'], multicall3Address: '0x123', blockTime: 1000 };
+
+      assert.deepEqual(paths(config), [
+        'blockchain.network',
+        'blockchain.chain.id',
+        'blockchain.chain.rpcUrls[0]',
+        'blockchain.chain.multicall3Address'
+      ]);
+    });
+
+    it('should report invalid health thresholds', () => {
+      const config = withEntities(backer);
+      config.server = { port: 9464, health: { maxBlockAge: 0, maxFailedBlocks: 10 } };
+
+      assert.deepEqual(paths(config), ['server.health.maxBlockAge']);
+    });
+
+    it('should report invalid and duplicate contracts', () => {
+      const config = createMockConfig({
+        entities: [backer],
+        contracts: [
+          { name: 'Governor', address: '0x123' },
+          { name: 'Governor', address: '0x0000000000000000000000000000000000000004' }
+        ]
+      });
+
+      assert.deepEqual(paths(config), ['contracts[0].address', 'contracts[1].name']);
+    });
+  });
+
+  describe('strategies', () => {
+    const governanceAccount: Entity = {
+      name: 'Account',
+      columns: [{ name: 'id', type: 'Bytes' }],
+      primaryKey: ['id'],
+      subgraphProvider: 'governance'
+    };
+
+    it('should accept cursor columns and lookbacks', () => {
+      const config = withEntities(backer, backerToBuilder);
+      config.strategies = {
+        Backers: { entities: ['Backer', 'BackerToBuilder'], cursor: { column: 'totalAllocation' }, interval: 5 },
+        RecentBuilders: { entities: ['BackerToBuilder'], cursor: { lookback: 100 }, batchable: false }
+      };
+
+      assert.deepEqual(paths(config), []);
+    });
+
+    it('should report unknown entities and cursor columns', () => {
+      const config = withEntities(backer);
+      config.strategies = {
+        Backers: { entities: ['Backer', 'Builder'], cursor: { column: 'blockNumber' } },
+        Other: { entities: ['Backer'], cursor: { entity: 'Builder', column: 'id' } }
+      };
+
+      assert.deepEqual(paths(config), [
+        'strategies.Backers.entities[1]',
+        'strategies.Backers.cursor.column',
+        'strategies.Other.cursor.entity'
+      ]);
+    });
+
+    it('should report strategies spanning subgraph providers', () => {
+      const config = withEntities(backer, governanceAccount);
+      config.strategies = { Mixed: { entities: ['Backer', 'Account'], cursor: { lookback: 10 } } };
+
+      assert.deepEqual(paths(config), ['strategies.Mixed.entities']);
+    });
+
+    it('should require exactly one of cursor column and lookback', () => {
+      const config = withEntities(backer);
+      config.strategies = {
+        Both: { entities: ['Backer'], cursor: { column: 'id', lookback: 10 } },
+        Neither: { entities: ['Backer'], cursor: {} }
+      };
+
+      assert.deepEqual(paths(config), ['strategies.Both.cursor', 'strategies.Neither.cursor']);
+    });
+
+    it('should report invalid intervals and batchability', () => {
+      const config = withEntities(backer);
+      config.strategies = {
+        Backers: { entities: ['Backer'], cursor: { lookback: 10 }, interval: 0, batchable: 'yes' as unknown as boolean }
+      };
+
+      assert.deepEqual(paths(config), ['strategies.Backers.interval', 'strategies.Backers.batchable']);
+    });
+
+    it('should report invalid dependencies and priorities', () => {
+      const config = withEntities(backer);
+      config.strategies = {
+        Backers: { entities: ['Backer'], cursor: { lookback: 10 }, dependsOn: ['Backers'], priority: -1 },
+        Others: { entities: ['Backer'], cursor: { lookback: 10 }, dependsOn: 'Backers' as unknown as string[] }
+      };
+
+      assert.deepEqual(paths(config), [
+        'strategies.Backers.dependsOn',
+        'strategies.Backers.priority',
+        'strategies.Others.dependsOn'
+      ]);
+    });
+
+    it('should report entity filters of entities the strategy does not sync', () => {
+      const config = withEntities(backer, backerToBuilder);
+      config.strategies = {
+        Backers: {
+          entities: ['Backer'],
+          cursor: { lookback: 10 },
+          entityFilters: { Backer: {}, BackerToBuilder: {} }
+        },
+        Others: {
+          entities: ['Backer'],
+          cursor: { lookback: 10 },
+          entityFilters: { Backer: 'all' as unknown as Record<string, string> }
+        }
+      };
+
+      assert.deepEqual(paths(config), [
+        'strategies.Backers.entityFilters.BackerToBuilder',
+        'strategies.Others.entityFilters.Backer'
+      ]);
+    });
+
+    it('should only accept booleans in enabledStrategies', () => {
+      const config = withEntities(backer);
+      config.enabledStrategies = { ProposalState: false, VaultHistory: 'no' as unknown as boolean };
+
+      assert.deepEqual(paths(config), ['enabledStrategies.VaultHistory']);
+    });
+  });
+
+  describe('assertValidConfig', () => {
+    it('should throw a ConfigValidationError listing every issue', () => {
+      const config = withEntities(backerToBuilder, { ...backer, subgraphProvider: 'missing' });
+
+      assert.throws(() => assertValidConfig(config), (error: unknown) => {
+        assert.ok(error instanceof ConfigValidationError);
+        assert.equal(error.issues.length, 2);
+        assert.match(error.message, /entities\[0\]\.columns\[1\]\.type/);
+        assert.match(error.message, /entities\[1\]\.subgraphProvider/);
+        return true;
+      });
+    });
+
+    it('should not throw for a valid configuration', () => {
+      assert.doesNotThrow(() => assertValidConfig(withEntities(backer)));
+    });
+  });
+});
@@ -0,0 +1,888 @@
+import { isAddress } from 'viem';
+import { findAbi, findEvent, findReadFunction } from '../handlers/abi';
+import { LOG_FIELDS } from '../handlers/eventIndexer';
+import { isInternalTable } from '../handlers/internalTables';
+import { isArrayColumnType, isColumnType } from '../handlers/types';
+import { CHAINS } from './chain';
+import { App, Blockchain, ChainDefinition, Column, Config, Contract, ContractRead, Entity, EventIndex, Reconciliation, BackerRewards, Server, SubgraphProvider, SubgraphStrategy } from './types';
+
+/**
+ * A single problem found while validating the configuration.
+ * `path` points at the offending YAML node, e.g. `entities[3].columns[2].type`.
+ */
+interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when the configuration is invalid. Carries every issue found so they
+ * can be fixed in one go instead of one restart at a time.
+ */
+class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(`Invalid configuration (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n${
+      issues.map(({ path, message }) => `  - ${path}: ${message}`).join('\n')
+    }`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isPositiveInteger = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isNonNegativeInteger = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const describeType = (type: unknown): string => JSON.stringify(type);
+
+const hasProtocol = (value: unknown, protocols: string[]): boolean => {
+  if (!isNonEmptyString(value)) {
+    return false;
+  }
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Returns the name of the entity a column references, or undefined for scalar,
+ * array and unknown column types.
+ */
+const getReferencedEntityName = (column: Column, entityNames: Set<string>): string | undefined =>
+  typeof column.type === 'string' && entityNames.has(column.type) ? column.type : undefined;
+
+const validateProviders = (
+  providers: Record<string, SubgraphProvider> | undefined
+): ConfigIssue[] => {
+  if (!providers || typeof providers !== 'object') {
+    return [{ path: 'subgraphProviders', message: 'must be a map of provider name to provider settings' }];
+  }
+
+  return Object.entries(providers).flatMap(([name, provider]) => {
+    const path = `subgraphProviders.${name}`;
+    const issues: ConfigIssue[] = [];
+
+    if (!isNonEmptyString(provider?.url)) {
+      issues.push({ path: `${path}.url`, message: 'is required' });
+    }
+    if (!isPositiveInteger(provider?.maxRowsPerRequest)) {
+      issues.push({ path: `${path}.maxRowsPerRequest`, message: 'must be a positive integer' });
+    }
+    if (provider?.prefetchPages !== undefined && !isNonNegativeInteger(provider.prefetchPages)) {
+      issues.push({ path: `${path}.prefetchPages`, message: 'must be a non-negative integer' });
+    }
+    if (provider?.maxBlockLag !== undefined && !isNonNegativeInteger(provider.maxBlockLag)) {
+      issues.push({ path: `${path}.maxBlockLag`, message: 'must be a non-negative integer' });
+    }
+    if (provider?.fallbacks !== undefined) {
+      if (!Array.isArray(provider.fallbacks)) {
+        issues.push({ path: `${path}.fallbacks`, message: 'must be a list of endpoints' });
+      } else {
+        provider.fallbacks.forEach((fallback, index) => {
+          if (!isNonEmptyString(fallback?.url)) {
+            issues.push({ path: `${path}.fallbacks[${index}].url`, message: 'is required' });
+          }
+        });
+      }
+    }
+    if (provider?.retry !== undefined) {
+      const { maxRetries, initialDelay, maxDelay } = provider.retry;
+      if (maxRetries !== undefined && !isNonNegativeInteger(maxRetries)) {
+        issues.push({ path: `${path}.retry.maxRetries`, message: 'must be a non-negative integer' });
+      }
+      if (initialDelay !== undefined && !isPositiveInteger(initialDelay)) {
+        issues.push({ path: `${path}.retry.initialDelay`, message: 'must be a positive integer (milliseconds)' });
+      }
+      if (maxDelay !== undefined && !(isPositiveInteger(maxDelay) && maxDelay >= (initialDelay ?? 0))) {
+        issues.push({ path: `${path}.retry.maxDelay`, message: 'must be a positive integer (milliseconds) not below initialDelay' });
+      }
+    }
+
+    return issues;
+  });
+};
+
+const validateContracts = (contracts: Contract[] | undefined): ConfigIssue[] => {
+  if (!Array.isArray(contracts)) {
+    return [{ path: 'contracts', message: 'must be a list' }];
+  }
+
+  const issues: ConfigIssue[] = [];
+  const seen = new Set<string>();
+
+  contracts.forEach((contract, index) => {
+    const path = `contracts[${index}]`;
+
+    if (!isNonEmptyString(contract?.name)) {
+      issues.push({ path: `${path}.name`, message: 'is required' });
+    } else if (seen.has(contract.name)) {
+      issues.push({ path: `${path}.name`, message: `duplicate contract '${contract.name}'` });
+    } else {
+      seen.add(contract.name);
+    }
+
+    if (!isNonEmptyString(contract?.address) || !isAddress(contract.address, { strict: false })) {
+      issues.push({ path: `${path}.address`, message: `'${contract?.address}' is not a valid address` });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Validates a column type: a scalar type, an array of a scalar type, or the
+ * name of an entity declared before the current one.
+ */
+const validateColumnType = (
+  column: Column,
+  path: string,
+  entityIndex: number,
+  declarationOrder: Map<string, number>
+): ConfigIssue[] => {
+  const { type } = column;
+
+  if (Array.isArray(type)) {
+    if (isArrayColumnType(type)) {
+      return [];
+    }
+    const [elementType, ...rest] = type as unknown[];
+    if (rest.length === 0 && typeof elementType === 'string' && declarationOrder.has(elementType)) {
+      return [{
+        path,
+        message: `arrays of entity references (${describeType(type)}) are not supported; use [Bytes] to store the ids`
+      }];
+    }
+    return [{ path, message: `unknown array type ${describeType(type)}` }];
+  }
+
+  if (typeof type !== 'string') {
+    return [{ path, message: `unknown type ${describeType(type)}` }];
+  }
+
+  if (isColumnType(type)) {
+    return [];
+  }
+
+  const referencedIndex = declarationOrder.get(type);
+  if (referencedIndex === undefined) {
+    return [{ path, message: `unknown type '${type}': not a column type nor a configured entity` }];
+  }
+  if (referencedIndex > entityIndex) {
+    return [{ path, message: `references entity '${type}' which is declared later; move '${type}' above this entity` }];
+  }
+
+  return [];
+};
+
+/**
+ * Validates that the primary key of a referenced entity can be used as a
+ * foreign key: every key column must exist and be a scalar type.
+ */
+const validateReferencedPrimaryKey = (
+  column: Column,
+  path: string,
+  referenced: Entity,
+  owner: Entity
+): ConfigIssue[] => {
+  if (!Array.isArray(referenced.primaryKey) || referenced.primaryKey.length === 0) {
+    return [];
+  }
+
+  const issues: ConfigIssue[] = [];
+
+  for (const key of referenced.primaryKey) {
+    const keyColumn = referenced.columns?.find(col => col.name === key);
+    if (!keyColumn) {
+      continue; // reported on the referenced entity itself
+    }
+    if (Array.isArray(keyColumn.type) || !isColumnType(keyColumn.type)) {
+      issues.push({
+        path,
+        message: `referenced entity '${referenced.name}' has primary key column '${key}' of type ${describeType(keyColumn.type)}; only scalar types can be referenced`
+      });
+    }
+  }
+
+  if (referenced.primaryKey.length > 1) {
+    const ownColumns = new Set(owner.columns.map(col => col.name));
+    for (const key of referenced.primaryKey) {
+      const generated = `${column.name}_${key}`;
+      if (ownColumns.has(generated)) {
+        issues.push({
+          path,
+          message: `composite reference to '${referenced.name}' generates column '${generated}' which already exists`
+        });
+      }
+    }
+  }
+
+  return issues;
+};
+
+/** "{name}" placeholder: a column of the `forEach` row in `contractRead`, a log field in `eventIndex` */
+const PLACEHOLDER = /^\{(\w+)\}$/;
+
+/**
+ * Validates the contract call of a `contract` entity against the bundled ABI,
+ * the entity's columns and those of its `forEach` entity.
+ */
+const validateContractRead = (
+  entity: Entity,
+  read: ContractRead,
+  path: string,
+  config: Config,
+  entitiesByName: Map<string, Entity>
+): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  const ownColumns = new Set((entity.columns ?? []).map(col => col.name));
+  const forEach = read.forEach === undefined ? undefined : entitiesByName.get(read.forEach);
+  const rowColumns = new Set((forEach?.columns ?? []).map(col => col.name));
+
+  if (read.forEach !== undefined && !forEach) {
+    issues.push({ path: `${path}.forEach`, message: `unknown entity '${read.forEach}'` });
+  }
+  const checkPlaceholder = (value: unknown, valuePath: string): void => {
+    const column = typeof value === 'string' ? PLACEHOLDER.exec(value)?.[1] : undefined;
+    if (column === undefined) {
+      return;
+    }
+    if (read.forEach === undefined) {
+      issues.push({ path: valuePath, message: `'{${column}}' needs a forEach entity` });
+    } else if (forEach && !rowColumns.has(column)) {
+      issues.push({ path: valuePath, message: `column '${column}' does not exist in entity '${read.forEach}'` });
+    }
+  };
+
+  if (read.address !== undefined) {
+    if (!PLACEHOLDER.test(read.address) && !isAddress(read.address, { strict: false })) {
+      issues.push({ path: `${path}.address`, message: `'${read.address}' is neither an address nor a {column} placeholder` });
+    }
+    checkPlaceholder(read.address, `${path}.address`);
+  } else if (!isNonEmptyString(read.contract)) {
+    issues.push({ path: `${path}.contract`, message: 'is required unless address is set' });
+  } else if (!config.contracts?.some(({ name }) => name === read.contract)) {
+    issues.push({ path: `${path}.contract`, message: `contract '${read.contract}' is not defined in contracts` });
+  }
+
+  const args = read.args ?? [];
+  if (!Array.isArray(args)) {
+    issues.push({ path: `${path}.args`, message: 'must be a list' });
+  } else {
+    args.forEach((arg, argIndex) => checkPlaceholder(arg, `${path}.args[${argIndex}]`));
+  }
+
+  const abiName = read.abi ?? read.contract;
+  const abi = abiName === undefined ? undefined : findAbi(abiName);
+  if (!abi) {
+    issues.push({ path: `${path}.abi`, message: abiName === undefined ? 'is required unless contract is set' : `no bundled ABI for '${abiName}'` });
+  }
+  const abiFunction = abi && isNonEmptyString(read.function) && Array.isArray(args)
+    ? findReadFunction(abi, read.function, args.length)
+    : undefined;
+  if (!isNonEmptyString(read.function)) {
+    issues.push({ path: `${path}.function`, message: 'is required' });
+  } else if (abi && Array.isArray(args) && !abiFunction) {
+    issues.push({ path: `${path}.function`, message: `${abiName} has no view function '${read.function}' taking ${args.length} argument(s)` });
+  }
+
+  if (!read.outputs || typeof read.outputs !== 'object' || Object.keys(read.outputs).length === 0) {
+    issues.push({ path: `${path}.outputs`, message: 'must map at least one output to a column' });
+  } else {
+    for (const [output, column] of Object.entries(read.outputs)) {
+      const outputIndex = Number(output);
+      const exists = abiFunction?.outputs.some(({ name }, index) => name === output || index === outputIndex);
+      if (abiFunction && !exists) {
+        issues.push({ path: `${path}.outputs.${output}`, message: `'${read.function}' has no output '${output}'` });
+      }
+      if (!ownColumns.has(column)) {
+        issues.push({ path: `${path}.outputs.${output}`, message: `column '${column}' does not exist in entity '${entity.name}'` });
+      }
+    }
+  }
+
+  for (const [column, rowColumn] of Object.entries(read.fromRow ?? {})) {
+    if (read.forEach === undefined) {
+      issues.push({ path: `${path}.fromRow.${column}`, message: 'needs a forEach entity' });
+      continue;
+    }
+    if (!ownColumns.has(column)) {
+      issues.push({ path: `${path}.fromRow.${column}`, message: `column '${column}' does not exist in entity '${entity.name}'` });
+    }
+    if (forEach && !rowColumns.has(rowColumn)) {
+      issues.push({ path: `${path}.fromRow.${column}`, message: `column '${rowColumn}' does not exist in entity '${read.forEach}'` });
+    }
+  }
+
+  if (read.interval !== undefined && !isPositiveInteger(read.interval)) {
+    issues.push({ path: `${path}.interval`, message: 'must be a positive integer' });
+  }
+
+  return issues;
+};
+
+/**
+ * Validates the event of an `events` entity against the bundled ABI and the
+ * entity's columns. Rows are keyed and rolled back through mapped columns, so
+ * the primary key and `blockColumn` must be mapped.
+ */
+const validateEventIndex = (
+  entity: Entity,
+  index: EventIndex,
+  path: string,
+  config: Config,
+  entitiesByName: Map<string, Entity>
+): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+
+  if (index.addressesFrom !== undefined) {
+    const { entity: sourceName, column } = index.addressesFrom;
+    const source = entitiesByName.get(sourceName);
+    if (!source) {
+      issues.push({ path: `${path}.addressesFrom.entity`, message: `unknown entity '${sourceName}'` });
+    } else if (!source.columns?.some(({ name }) => name === column)) {
+      issues.push({ path: `${path}.addressesFrom.column`, message: `column '${column}' does not exist in entity '${sourceName}'` });
+    }
+  } else if (!isNonEmptyString(index.contract)) {
+    issues.push({ path: `${path}.contract`, message: 'is required unless addressesFrom is set' });
+  } else if (!config.contracts?.some(({ name }) => name === index.contract)) {
+    issues.push({ path: `${path}.contract`, message: `contract '${index.contract}' is not defined in contracts` });
+  }
+
+  const abiName = index.abi ?? index.contract;
+  const abi = abiName === undefined ? undefined : findAbi(abiName);
+  if (!abi) {
+    issues.push({ path: `${path}.abi`, message: abiName === undefined ? 'is required unless contract is set' : `no bundled ABI for '${abiName}'` });
+  }
+  const event = abi && isNonEmptyString(index.event) ? findEvent(abi, index.event) : undefined;
+  if (!isNonEmptyString(index.event)) {
+    issues.push({ path: `${path}.event`, message: 'is required' });
+  } else if (abi && !event) {
+    issues.push({ path: `${path}.event`, message: `${abiName} has no event '${index.event}'` });
+  }
+
+  const fields = index.fields && typeof index.fields === 'object' ? index.fields : {};
+  if (Object.keys(fields).length === 0) {
+    issues.push({ path: `${path}.fields`, message: 'must map at least one column' });
+  }
+  const ownColumns = new Set((entity.columns ?? []).map(col => col.name));
+  for (const [column, field] of Object.entries(fields)) {
+    if (!ownColumns.has(column)) {
+      issues.push({ path: `${path}.fields.${column}`, message: `column '${column}' does not exist in entity '${entity.name}'` });
+    }
+    const logField = PLACEHOLDER.exec(field)?.[1];
+    if (logField !== undefined && !(LOG_FIELDS as readonly string[]).includes(logField)) {
+      issues.push({ path: `${path}.fields.${column}`, message: `unknown log field '${logField}', expected one of ${LOG_FIELDS.join(', ')}` });
+    } else if (logField === undefined && event && !event.inputs.some(({ name }) => name === field)) {
+      issues.push({ path: `${path}.fields.${column}`, message: `event '${index.event}' has no argument '${field}'` });
+    }
+  }
+  for (const key of [...(Array.isArray(entity.primaryKey) ? entity.primaryKey : []), entity.blockColumn]) {
+    if (key !== undefined && ownColumns.has(key) && !(key in fields)) {
+      issues.push({ path: `${path}.fields`, message: `column '${key}' must be mapped` });
+    }
+  }
+
+  if (index.startBlock !== undefined && !isNonNegativeInteger(index.startBlock)) {
+    issues.push({ path: `${path}.startBlock`, message: 'must be a non-negative integer' });
+  }
+  if (index.blockRange !== undefined && !isPositiveInteger(index.blockRange)) {
+    issues.push({ path: `${path}.blockRange`, message: 'must be a positive integer' });
+  }
+
+  return issues;
+};
+
+const validateEntity = (
+  entity: Entity,
+  index: number,
+  config: Config,
+  declarationOrder: Map<string, number>,
+  entitiesByName: Map<string, Entity>
+): ConfigIssue[] => {
+  const path = `entities[${index}]`;
+  const issues: ConfigIssue[] = [];
+
+  if (!Array.isArray(entity.columns) || entity.columns.length === 0) {
+    issues.push({ path: `${path}.columns`, message: 'must be a non-empty list' });
+    return issues;
+  }
+
+  const columnNames = new Set<string>();
+  entity.columns.forEach((column, columnIndex) => {
+    const columnPath = `${path}.columns[${columnIndex}]`;
+
+    if (!isNonEmptyString(column?.name)) {
+      issues.push({ path: `${columnPath}.name`, message: 'is required' });
+      return;
+    }
+    if (columnNames.has(column.name)) {
+      issues.push({ path: `${columnPath}.name`, message: `duplicate column '${column.name}'` });
+    }
+    columnNames.add(column.name);
+
+    issues.push(...validateColumnType(column, `${columnPath}.type`, index, declarationOrder));
+
+    const referenced = entitiesByName.get(column.type as string);
+    if (typeof column.type === 'string' && referenced) {
+      issues.push(...validateReferencedPrimaryKey(column, `${columnPath}.type`, referenced, entity));
+    }
+  });
+
+  if (!Array.isArray(entity.primaryKey) || entity.primaryKey.length === 0) {
+    issues.push({ path: `${path}.primaryKey`, message: 'must be a non-empty list of column names' });
+  } else {
+    entity.primaryKey.forEach((key, keyIndex) => {
+      const keyPath = `${path}.primaryKey[${keyIndex}]`;
+      const column = entity.columns.find(col => col.name === key);
+      if (!column) {
+        issues.push({ path: keyPath, message: `column '${key}' does not exist in entity '${entity.name}'` });
+        return;
+      }
+      if (column.nullable === true) {
+        issues.push({ path: keyPath, message: `primary key column '${key}' cannot be nullable` });
+      }
+      if (Array.isArray(column.type)) {
+        issues.push({ path: keyPath, message: `primary key column '${key}' cannot be an array` });
+      }
+    });
+  }
+
+  if (entity.blockColumn !== undefined) {
+    const blockColumn = entity.columns.find(col => col.name === entity.blockColumn);
+    if (!blockColumn) {
+      issues.push({ path: `${path}.blockColumn`, message: `column '${entity.blockColumn}' does not exist in entity '${entity.name}'` });
+    } else if (blockColumn.type !== 'BigInt' && blockColumn.type !== 'Integer') {
+      issues.push({ path: `${path}.blockColumn`, message: `column '${entity.blockColumn}' must be of type BigInt or Integer` });
+    }
+  }
+
+  if (entity.source === 'contract') {
+    if (!entity.contractRead) {
+      issues.push({ path: `${path}.contractRead`, message: 'is required for contract entities' });
+    } else {
+      issues.push(...validateContractRead(entity, entity.contractRead, `${path}.contractRead`, config, entitiesByName));
+    }
+  } else if (entity.source === 'events') {
+    if (!entity.blockColumn) {
+      issues.push({ path: `${path}.blockColumn`, message: 'is required for events entities, to roll back reorged logs' });
+    }
+    if (!entity.eventIndex) {
+      issues.push({ path: `${path}.eventIndex`, message: 'is required for events entities' });
+    } else {
+      issues.push(...validateEventIndex(entity, entity.eventIndex, `${path}.eventIndex`, config, entitiesByName));
+    }
+  } else if (entity.source !== undefined && entity.source !== 'subgraph') {
+    issues.push({ path: `${path}.source`, message: `must be 'subgraph', 'contract' or 'events', got ${describeType(entity.source)}` });
+  } else {
+    if (entity.contractRead !== undefined) {
+      issues.push({ path: `${path}.contractRead`, message: 'is only read for entities with source \'contract\'' });
+    }
+    if (entity.eventIndex !== undefined) {
+      issues.push({ path: `${path}.eventIndex`, message: 'is only read for entities with source \'events\'' });
+    }
+    if (!isNonEmptyString(entity.subgraphProvider)) {
+      issues.push({ path: `${path}.subgraphProvider`, message: 'is required' });
+    } else if (!config.subgraphProviders?.[entity.subgraphProvider]) {
+      issues.push({
+        path: `${path}.subgraphProvider`,
+        message: `provider '${entity.subgraphProvider}' is not defined in subgraphProviders`
+      });
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Detects cycles in the entity reference graph (including self references).
+ * Tables with circular foreign keys cannot be created nor upserted in order.
+ */
+const findReferenceCycles = (entities: Entity[]): string[][] => {
+  const entityNames = new Set(entities.map(entity => entity.name));
+  const edges = new Map<string, string[]>(entities.map(entity => [
+    entity.name,
+    (entity.columns ?? [])
+      .map(column => getReferencedEntityName(column, entityNames))
+      .filter((name): name is string => name !== undefined)
+  ]));
+
+  const cycles: string[][] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (name: string): void => {
+    state.set(name, 'visiting');
+    stack.push(name);
+
+    for (const next of edges.get(name) ?? []) {
+      if (state.get(next) === 'visiting') {
+        cycles.push([...stack.slice(stack.indexOf(next)), next]);
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+
+    stack.pop();
+    state.set(name, 'done');
+  };
+
+  for (const name of edges.keys()) {
+    if (!state.has(name)) {
+      visit(name);
+    }
+  }
+
+  return cycles;
+};
+
+const validateEntities = (config: Config): ConfigIssue[] => {
+  const { entities } = config;
+  if (!Array.isArray(entities) || entities.length === 0) {
+    return [{ path: 'entities', message: 'must be a non-empty list' }];
+  }
+
+  const issues: ConfigIssue[] = [];
+  const declarationOrder = new Map<string, number>();
+  const entitiesByName = new Map<string, Entity>();
+
+  entities.forEach((entity, index) => {
+    if (!isNonEmptyString(entity?.name)) {
+      issues.push({ path: `entities[${index}].name`, message: 'is required' });
+      return;
+    }
+    if (isInternalTable(entity.name)) {
+      issues.push({ path: `entities[${index}].name`, message: `'${entity.name}' is reserved for an internal table` });
+      return;
+    }
+    if (declarationOrder.has(entity.name)) {
+      issues.push({ path: `entities[${index}].name`, message: `duplicate entity '${entity.name}'` });
+      return;
+    }
+    declarationOrder.set(entity.name, index);
+    entitiesByName.set(entity.name, entity);
+  });
+
+  entities.forEach((entity, index) => {
+    // Duplicates were already reported above
+    if (entity && declarationOrder.get(entity.name) === index) {
+      issues.push(...validateEntity(entity, index, config, declarationOrder, entitiesByName));
+    }
+  });
+
+  for (const cycle of findReferenceCycles(entities.filter(entity => isNonEmptyString(entity?.name)))) {
+    issues.push({
+      path: `entities[${declarationOrder.get(cycle[0])}]`,
+      message: `circular entity references: ${cycle.join(' -> ')}`
+    });
+  }
+
+  return issues;
+};
+
+const validateApp = (app: App | undefined): ConfigIssue[] =>
+  app?.shutdownTimeout !== undefined && !isPositiveInteger(app.shutdownTimeout)
+    ? [{ path: 'app.shutdownTimeout', message: 'must be a positive integer' }]
+    : [];
+
+const validateChainDefinition = (chain: ChainDefinition): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  if (chain.id !== undefined && !isPositiveInteger(chain.id)) {
+    issues.push({ path: 'blockchain.chain.id', message: 'must be a positive integer' });
+  }
+  if (chain.name !== undefined && !isNonEmptyString(chain.name)) {
+    issues.push({ path: 'blockchain.chain.name', message: 'must be a non-empty string' });
+  }
+  if (chain.rpcUrls !== undefined) {
+    if (!Array.isArray(chain.rpcUrls) || chain.rpcUrls.length === 0) {
+      issues.push({ path: 'blockchain.chain.rpcUrls', message: 'must be a non-empty list of URLs' });
+    } else {
+      chain.rpcUrls.forEach((url, index) => {
+        if (!hasProtocol(url, ['http:', 'https:'])) {
+          issues.push({ path: `blockchain.chain.rpcUrls[${index}]`, message: 'must be a http: or https: URL' });
+        }
+      });
+    }
+  }
+  if (chain.multicall3Address !== undefined
+    && (!isNonEmptyString(chain.multicall3Address) || !isAddress(chain.multicall3Address, { strict: false }))) {
+    issues.push({ path: 'blockchain.chain.multicall3Address', message: `'${chain.multicall3Address}' is not a valid address` });
+  }
+  if (chain.multicall3BlockCreated !== undefined && !isNonNegativeInteger(chain.multicall3BlockCreated)) {
+    issues.push({ path: 'blockchain.chain.multicall3BlockCreated', message: 'must be a non-negative integer' });
+  }
+  if (chain.blockTime !== undefined && !isPositiveInteger(chain.blockTime)) {
+    issues.push({ path: 'blockchain.chain.blockTime', message: 'must be a positive integer' });
+  }
+  return issues;
+};
+
+const validateBlockchain = (blockchain: Blockchain | undefined): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  if (blockchain?.network !== undefined && !Object.hasOwn(CHAINS, blockchain.network)) {
+    issues.push({ path: 'blockchain.network', message: `must be one of ${Object.keys(CHAINS).join(', ')}, got ${describeType(blockchain.network)}` });
+  }
+  if (blockchain?.chain !== undefined) {
+    issues.push(...validateChainDefinition(blockchain.chain));
+  }
+  if (blockchain?.maxReorgDepth !== undefined && !isPositiveInteger(blockchain.maxReorgDepth)) {
+    issues.push({ path: 'blockchain.maxReorgDepth', message: 'must be a positive integer' });
+  }
+  if (blockchain?.confirmations !== undefined && !isNonNegativeInteger(blockchain.confirmations)) {
+    issues.push({ path: 'blockchain.confirmations', message: 'must be a non-negative integer' });
+  }
+
+  const rpcUrlProtocols = { http: ['http:', 'https:'], ws: ['ws:', 'wss:'] };
+  for (const [kind, protocols] of Object.entries(rpcUrlProtocols) as ['http' | 'ws', string[]][]) {
+    const urls = blockchain?.rpcUrls?.[kind];
+    if (urls === undefined) {
+      continue;
+    }
+    if (!Array.isArray(urls)) {
+      issues.push({ path: `blockchain.rpcUrls.${kind}`, message: 'must be a list of URLs' });
+      continue;
+    }
+    urls.forEach((url, index) => {
+      if (!hasProtocol(url, protocols)) {
+        issues.push({ path: `blockchain.rpcUrls.${kind}[${index}]`, message: `must be a ${protocols.join(' or ')} URL` });
+      }
+    });
+  }
+
+  const rpc = blockchain?.rpc;
+  if (rpc?.timeout !== undefined && !isPositiveInteger(rpc.timeout)) {
+    issues.push({ path: 'blockchain.rpc.timeout', message: 'must be a positive integer' });
+  }
+  if (rpc?.retryCount !== undefined && !isNonNegativeInteger(rpc.retryCount)) {
+    issues.push({ path: 'blockchain.rpc.retryCount', message: 'must be a non-negative integer' });
+  }
+  if (rpc?.retryDelay !== undefined && !isPositiveInteger(rpc.retryDelay)) {
+    issues.push({ path: 'blockchain.rpc.retryDelay', message: 'must be a positive integer' });
+  }
+  if (rpc?.rank !== undefined && typeof rpc.rank !== 'boolean') {
+    issues.push({ path: 'blockchain.rpc.rank', message: 'must be a boolean' });
+  }
+
+  if (blockchain?.watchMode !== undefined && !['poll', 'subscribe'].includes(blockchain.watchMode)) {
+    issues.push({ path: 'blockchain.watchMode', message: `must be 'poll' or 'subscribe', got ${describeType(blockchain.watchMode)}` });
+  } else if (blockchain?.watchMode === 'subscribe' && !blockchain.rpcUrls?.ws?.length) {
+    issues.push({ path: 'blockchain.watchMode', message: '\'subscribe\' requires at least one blockchain.rpcUrls.ws URL' });
+  }
+  if (blockchain?.pollingInterval !== undefined && !isPositiveInteger(blockchain.pollingInterval)) {
+    issues.push({ path: 'blockchain.pollingInterval', message: 'must be a positive integer' });
+  }
+  return issues;
+};
+
+const validateServer = (server: Server | undefined): ConfigIssue[] => {
+  if (server === undefined) {
+    return [];
+  }
+  const issues: ConfigIssue[] = [];
+  if (!isPositiveInteger(server?.port) || server.port > 65535) {
+    issues.push({ path: 'server.port', message: 'must be a port number between 1 and 65535' });
+  }
+  for (const key of ['maxBlockAge', 'maxBlockLag', 'maxFailedBlocks'] as const) {
+    const value = server?.health?.[key];
+    if (value !== undefined && !isPositiveInteger(value)) {
+      issues.push({ path: `server.health.${key}`, message: 'must be a positive integer' });
+    }
+  }
+  return issues;
+};
+
+const validateReconciliation = (reconciliation: Reconciliation | undefined): ConfigIssue[] => {
+  if (reconciliation === undefined) {
+    return [];
+  }
+  const issues: ConfigIssue[] = [];
+  if (!isPositiveInteger(reconciliation?.sampleSize)) {
+    issues.push({ path: 'reconciliation.sampleSize', message: 'must be a positive integer' });
+  }
+  if (reconciliation?.interval !== undefined && !isPositiveInteger(reconciliation.interval)) {
+    issues.push({ path: 'reconciliation.interval', message: 'must be a positive integer' });
+  }
+  return issues;
+};
+
+const validateBackerRewards = (backerRewards: BackerRewards | undefined): ConfigIssue[] => {
+  if (backerRewards === undefined) {
+    return [];
+  }
+  const issues: ConfigIssue[] = [];
+  for (const key of ['interval', 'chunkSize'] as const) {
+    const value = backerRewards?.[key];
+    if (value !== undefined && !isPositiveInteger(value)) {
+      issues.push({ path: `backerRewards.${key}`, message: 'must be a positive integer' });
+    }
+  }
+  const tokens = backerRewards?.tokens;
+  if (tokens !== undefined && !Array.isArray(tokens)) {
+    issues.push({ path: 'backerRewards.tokens', message: 'must be a list of addresses' });
+  } else {
+    (tokens ?? []).forEach((token, index) => {
+      if (!isNonEmptyString(token) || !isAddress(token, { strict: false })) {
+        issues.push({ path: `backerRewards.tokens[${index}]`, message: 'must be an address' });
+      }
+    });
+  }
+  return issues;
+};
+
+const validateStrategyCursor = (
+  strategy: SubgraphStrategy,
+  path: string,
+  entitiesByName: Map<string, Entity>
+): ConfigIssue[] => {
+  const { cursor } = strategy;
+  if (!cursor || typeof cursor !== 'object') {
+    return [{ path: `${path}.cursor`, message: 'is required' }];
+  }
+  if ((cursor.column === undefined) === (cursor.lookback === undefined)) {
+    return [{ path: `${path}.cursor`, message: 'must set either column or lookback' }];
+  }
+  if (cursor.lookback !== undefined) {
+    return isPositiveInteger(cursor.lookback)
+      ? []
+      : [{ path: `${path}.cursor.lookback`, message: 'must be a positive integer' }];
+  }
+
+  const entityName = cursor.entity ?? strategy.entities?.[0];
+  const entity = entitiesByName.get(entityName);
+  if (!entity) {
+    return cursor.entity === undefined
+      ? []
+      : [{ path: `${path}.cursor.entity`, message: `unknown entity '${cursor.entity}'` }];
+  }
+  if (!entity.columns?.some(({ name }) => name === cursor.column)) {
+    return [{ path: `${path}.cursor.column`, message: `entity '${entity.name}' has no column '${cursor.column}'` }];
+  }
+  return [];
+};
+
+const validateStrategies = (config: Config): ConfigIssue[] => {
+  const { strategies } = config;
+  if (strategies === undefined) {
+    return [];
+  }
+  if (!strategies || typeof strategies !== 'object' || Array.isArray(strategies)) {
+    return [{ path: 'strategies', message: 'must be a map of strategy name to strategy settings' }];
+  }
+
+  const entitiesByName = new Map((config.entities ?? []).map(entity => [entity?.name, entity]));
+
+  return Object.entries(strategies).flatMap(([name, strategy]) => {
+    const path = `strategies.${name}`;
+    const issues: ConfigIssue[] = [];
+
+    if (!Array.isArray(strategy?.entities) || strategy.entities.length === 0) {
+      issues.push({ path: `${path}.entities`, message: 'must be a non-empty list of entity names' });
+    } else {
+      const providers = new Set<string>();
+      strategy.entities.forEach((entityName, index) => {
+        const entity = entitiesByName.get(entityName);
+        if (!entity) {
+          issues.push({ path: `${path}.entities[${index}]`, message: `unknown entity '${entityName}'` });
+        } else if ((entity.source ?? 'subgraph') !== 'subgraph') {
+          issues.push({ path: `${path}.entities[${index}]`, message: `entity '${entityName}' is read from ${entity.source}, not a subgraph` });
+        } else if (entity.subgraphProvider) {
+          providers.add(entity.subgraphProvider);
+        }
+      });
+      if (providers.size > 1) {
+        issues.push({
+          path: `${path}.entities`,
+          message: `entities come from different subgraph providers (${[...providers].join(', ')})`
+        });
+      }
+    }
+
+    issues.push(...validateStrategyCursor(strategy, path, entitiesByName));
+
+    if (strategy?.filter !== undefined && (typeof strategy.filter !== 'object' || strategy.filter === null)) {
+      issues.push({ path: `${path}.filter`, message: 'must be a map of GraphQL where arguments' });
+    }
+    if (strategy?.entityFilters !== undefined) {
+      if (typeof strategy.entityFilters !== 'object' || strategy.entityFilters === null || Array.isArray(strategy.entityFilters)) {
+        issues.push({ path: `${path}.entityFilters`, message: 'must be a map of entity name to GraphQL where arguments' });
+      } else {
+        for (const [entityName, filter] of Object.entries(strategy.entityFilters)) {
+          if (!Array.isArray(strategy.entities) || !strategy.entities.includes(entityName)) {
+            issues.push({ path: `${path}.entityFilters.${entityName}`, message: `entity '${entityName}' is not synced by this strategy` });
+          } else if (typeof filter !== 'object' || filter === null) {
+            issues.push({ path: `${path}.entityFilters.${entityName}`, message: 'must be a map of GraphQL where arguments' });
+          }
+        }
+      }
+    }
+    if (strategy?.interval !== undefined && !isPositiveInteger(strategy.interval)) {
+      issues.push({ path: `${path}.interval`, message: 'must be a positive integer' });
+    }
+    if (strategy?.batchable !== undefined && typeof strategy.batchable !== 'boolean') {
+      issues.push({ path: `${path}.batchable`, message: 'must be true or false' });
+    }
+    if (strategy?.dependsOn !== undefined
+      && !(Array.isArray(strategy.dependsOn) && strategy.dependsOn.every(isNonEmptyString))) {
+      issues.push({ path: `${path}.dependsOn`, message: 'must be a list of strategy names' });
+    } else if (strategy?.dependsOn?.includes(name)) {
+      issues.push({ path: `${path}.dependsOn`, message: 'a strategy cannot depend on itself' });
+    }
+    if (strategy?.priority !== undefined && !isNonNegativeInteger(strategy.priority)) {
+      issues.push({ path: `${path}.priority`, message: 'must be a non-negative integer' });
+    }
+
+    return issues;
+  });
+};
+
+const validateEnabledStrategies = (config: Config): ConfigIssue[] => {
+  const { enabledStrategies } = config;
+  if (enabledStrategies === undefined) {
+    return [];
+  }
+  if (!enabledStrategies || typeof enabledStrategies !== 'object' || Array.isArray(enabledStrategies)) {
+    return [{ path: 'enabledStrategies', message: 'must be a map of strategy name to true or false' }];
+  }
+  return Object.entries(enabledStrategies)
+    .filter(([, enabled]) => typeof enabled !== 'boolean')
+    .map(([name]) => ({ path: `enabledStrategies.${name}`, message: 'must be true or false' }));
+};
+
+/**
+ * Validates the whole configuration and returns every issue found.
+ * An empty list means the configuration is usable.
+ */
+const validateConfig = (config: Config): ConfigIssue[] => [
+  ...validateApp(config.app),
+  ...validateServer(config.server),
+  ...validateBlockchain(config.blockchain),
+  ...validateProviders(config.subgraphProviders),
+  ...validateContracts(config.contracts),
+  ...validateEntities(config),
+  ...validateStrategies(config),
+  ...validateEnabledStrategies(config),
+  ...validateReconciliation(config.reconciliation),
+  ...validateBackerRewards(config.backerRewards),
+];
+
+/**
+ * Validates the configuration and throws a ConfigValidationError listing all
+ * issues if any were found.
+ */
+const assertValidConfig = (config: Config): void => {
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+};
+
+export { assertValidConfig, ConfigValidationError, validateConfig };
+export type { ConfigIssue };
@@ -1,23 +1,28 @@
 import { Config } from '../config/types';
 import { createSchemaContext } from './schema';
 import { createDatabaseContext, PUBLIC_SCHEMA } from './db';
+import { createChainHead } from './indexingStatus';
+import { createServiceHealth } from '../server/health';
 import { createTheGraphContext, GraphQlContext } from './subgraphProvider';
 import { AppContext } from './types';
 
 
 
 const createContexts = (config: Config): AppContext => {
+  const chainHead = createChainHead();
   const graphqlContexts: Record<string, GraphQlContext> = {};
     
   // Create contexts directly from the map
   for (const [name, provider] of Object.entries(config.subgraphProviders)) {
-    graphqlContexts[name] = createTheGraphContext(provider);
+    graphqlContexts[name] = createTheGraphContext(provider, name, chainHead);
   }
 
   return {
     schema: createSchemaContext(config.entities),
     dbContext: createDatabaseContext(config.database, PUBLIC_SCHEMA),
     graphqlContexts,
+    chainHead,
+    health: createServiceHealth(),
     config
   };
 };
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import log from 'loglevel';
+import {
+  createEndpointPool,
+  getBlockLag,
+  getErrorRate,
+  recordFailure,
+  recordSuccess,
+  selectEndpoint
+} from './endpointHealth';
+
+const NOW = 1_700_000_000_000;
+
+const createPool = () => createEndpointPool('governance', ['https://gateway', 'https://studio', 'http://graph-node']);
+
+describe('endpointHealth', () => {
+  it('should start on the first configured endpoint', () => {
+    const pool = createPool();
+
+    assert.equal(selectEndpoint(pool, undefined, NOW).url, 'https://gateway');
+  });
+
+  it('should fail over when the active endpoint keeps failing', () => {
+    const pool = createPool();
+    const [gateway] = pool.endpoints;
+    recordFailure(gateway, NOW);
+    recordFailure(gateway, NOW);
+    recordSuccess(gateway, 100, undefined, NOW);
+
+    assert.equal(selectEndpoint(pool, undefined, NOW).url, 'https://studio');
+    assert.equal(pool.active, 1);
+  });
+
+  it('should log every switch', () => {
+    const pool = createPool();
+    const warnings: string[] = [];
+    const originalWarn = log.warn;
+    log.warn = (message: string) => warnings.push(message);
+    try {
+      recordFailure(pool.endpoints[0], NOW);
+      selectEndpoint(pool, undefined, NOW);
+      selectEndpoint(pool, undefined, NOW);
+    } finally {
+      log.warn = originalWarn;
+    }
+
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /governance: switching from https:\/\/gateway \(error rate 100%.*\) to https:\/\/studio/);
+  });
+
+  it('should avoid endpoints lagging behind the others', () => {
+    const pool = createPool();
+    const [gateway, studio] = pool.endpoints;
+    recordSuccess(gateway, 50, 1000n, NOW);
+    recordSuccess(studio, 200, 1200n, NOW);
+
+    assert.equal(getBlockLag(pool, gateway), 200n);
+    assert.equal(selectEndpoint(pool, undefined, NOW).url, 'https://studio');
+  });
+
+  it('should only leave a healthy endpoint for a much faster one', () => {
+    const pool = createPool();
+    const [gateway, studio, graphNode] = pool.endpoints;
+    recordSuccess(gateway, 300, undefined, NOW);
+    recordSuccess(studio, 200, undefined, NOW);
+
+    assert.equal(selectEndpoint(pool, undefined, NOW).url, 'https://gateway');
+
+    recordSuccess(graphNode, 100, undefined, NOW);
+    assert.equal(selectEndpoint(pool, undefined, NOW).url, 'http://graph-node');
+  });
+
+  it('should forget failures once they are out of the health window', () => {
+    const pool = createPool();
+    const [gateway] = pool.endpoints;
+    recordFailure(gateway, NOW);
+
+    assert.equal(getErrorRate(gateway, NOW), 1);
+    assert.equal(getErrorRate(gateway, NOW + 10 * 60 * 1000), 0);
+  });
+
+  it('should mask endpoint urls in logs', () => {
+    const pool = createPool();
+    const warnings: string[] = [];
+    const originalWarn = log.warn;
+    log.warn = (message: string) => warnings.push(message);
+    try {
+      recordFailure(pool.endpoints[0], NOW);
+      selectEndpoint(pool, () => '***', NOW);
+    } finally {
+      log.warn = originalWarn;
+    }
+
+    assert.doesNotMatch(warnings[0], /https:\/\//);
+  });
+});
@@ -0,0 +1,149 @@
+import log from 'loglevel';
+
+/** Outcomes older than this no longer count, so a failed endpoint gets another chance */
+const HEALTH_WINDOW_MS = 5 * 60 * 1000;
+/** Endpoints failing more often than this (within the window) are avoided */
+const MAX_ERROR_RATE = 0.5;
+/** Endpoints further behind the most advanced endpoint than this are avoided */
+const MAX_BLOCK_LAG = 50n;
+/** A healthy active endpoint is only abandoned for one at least this much faster */
+const LATENCY_SWITCH_FACTOR = 0.5;
+/** Weight of the newest sample in the latency moving average */
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Recent health of one endpoint of a subgraph provider
+ */
+interface EndpointState {
+  url: string;
+  outcomes: { at: number; ok: boolean }[];
+  latencyMs?: number;
+  blockNumber?: bigint;
+}
+
+interface EndpointPool {
+  provider: string;
+  endpoints: EndpointState[];
+  active: number;
+}
+
+const createEndpointPool = (provider: string, urls: string[]): EndpointPool => ({
+  provider,
+  endpoints: urls.map(url => ({ url, outcomes: [] })),
+  active: 0
+});
+
+const pruneOutcomes = (endpoint: EndpointState, now: number): void => {
+  endpoint.outcomes = endpoint.outcomes.filter(({ at }) => now - at <= HEALTH_WINDOW_MS);
+};
+
+const getErrorRate = (endpoint: EndpointState, now = Date.now()): number => {
+  pruneOutcomes(endpoint, now);
+  if (endpoint.outcomes.length === 0) {
+    return 0;
+  }
+  return endpoint.outcomes.filter(({ ok }) => !ok).length / endpoint.outcomes.length;
+};
+
+/**
+ * How many blocks an endpoint is behind the most advanced endpoint of its pool
+ */
+const getBlockLag = (pool: EndpointPool, endpoint: EndpointState): bigint => {
+  const head = pool.endpoints.reduce((max, { blockNumber }) =>
+    blockNumber !== undefined && blockNumber > max ? blockNumber : max, 0n);
+  return endpoint.blockNumber === undefined ? 0n : head - endpoint.blockNumber;
+};
+
+const recordSuccess = (
+  endpoint: EndpointState,
+  latencyMs: number,
+  blockNumber?: bigint,
+  now = Date.now()
+): void => {
+  endpoint.outcomes.push({ at: now, ok: true });
+  endpoint.latencyMs = endpoint.latencyMs === undefined
+    ? latencyMs
+    : endpoint.latencyMs + LATENCY_SMOOTHING * (latencyMs - endpoint.latencyMs);
+  if (blockNumber !== undefined) {
+    endpoint.blockNumber = blockNumber;
+  }
+  pruneOutcomes(endpoint, now);
+};
+
+const recordFailure = (endpoint: EndpointState, now = Date.now()): void => {
+  endpoint.outcomes.push({ at: now, ok: false });
+  pruneOutcomes(endpoint, now);
+};
+
+const isHealthy = (pool: EndpointPool, endpoint: EndpointState, now: number): boolean =>
+  getErrorRate(endpoint, now) <= MAX_ERROR_RATE && getBlockLag(pool, endpoint) <= MAX_BLOCK_LAG;
+
+/**
+ * Orders endpoints from healthiest to least healthy: lowest error rate, then
+ * least block lag, then lowest latency. Ties keep the configured order.
+ */
+const compareEndpoints = (pool: EndpointPool, now: number) =>
+  (a: EndpointState, b: EndpointState): number => {
+    const errorRates = getErrorRate(a, now) - getErrorRate(b, now);
+    if (errorRates !== 0) {
+      return errorRates;
+    }
+    const lag = getBlockLag(pool, a) - getBlockLag(pool, b);
+    if (lag !== 0n) {
+      return lag < 0n ? -1 : 1;
+    }
+    // Endpoints never used yet go after those known to respond
+    if (a.latencyMs === undefined || b.latencyMs === undefined) {
+      return Number(a.latencyMs === undefined) - Number(b.latencyMs === undefined);
+    }
+    return a.latencyMs - b.latencyMs;
+  };
+
+const describeHealth = (pool: EndpointPool, endpoint: EndpointState, now: number): string =>
+  `error rate ${(getErrorRate(endpoint, now) * 100).toFixed(0)}%, ` +
+  `${getBlockLag(pool, endpoint)} blocks behind, ` +
+  `latency ${endpoint.latencyMs === undefined ? 'unknown' : `${Math.round(endpoint.latencyMs)}ms`}`;
+
+/**
+ * Picks the endpoint the next request of a provider goes to. The active
+ * endpoint is kept while it is healthy, unless another healthy endpoint is
+ * much faster; otherwise the healthiest endpoint takes over. Every switch
+ * is logged with the health of both endpoints.
+ */
+const selectEndpoint = (
+  pool: EndpointPool,
+  maskUrl: (url: string) => string = url => url,
+  now = Date.now()
+): EndpointState => {
+  const current = pool.endpoints[pool.active];
+  if (pool.endpoints.length === 1) {
+    return current;
+  }
+
+  const [best] = [...pool.endpoints].sort(compareEndpoints(pool, now));
+  const keepCurrent = isHealthy(pool, current, now) && (
+    !isHealthy(pool, best, now) ||
+    best.latencyMs === undefined ||
+    current.latencyMs === undefined ||
+    best.latencyMs >= current.latencyMs * LATENCY_SWITCH_FACTOR
+  );
+
+  if (keepCurrent || best === current) {
+    return current;
+  }
+
+  log.warn(`[endpointHealth:selectEndpoint] ${pool.provider}: switching from ${maskUrl(current.url)} ` +
+    `(${describeHealth(pool, current, now)}) to ${maskUrl(best.url)} (${describeHealth(pool, best, now)})`);
+  pool.active = pool.endpoints.indexOf(best);
+  return best;
+};
+
+export {
+  createEndpointPool,
+  getBlockLag,
+  getErrorRate,
+  recordFailure,
+  recordSuccess,
+  selectEndpoint
+};
+export type { EndpointPool, EndpointState };
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { assertIndexingHealthy, capToConfirmedBlock, ChainHead, getIndexingStatuses, toIndexingStatus, updateChainHead } from './indexingStatus';
+import { GraphQLMetadata } from './subgraphProvider';
+
+const metadata = (blockNumber: string, hasIndexingErrors = false) => ({
+  block: { number: blockNumber, hash: '0xabc', timestamp: '1700000000' },
+  deployment: 'Qm123',
+  hasIndexingErrors
+}) as unknown as GraphQLMetadata;
+
+describe('indexingStatus', () => {
+  describe('toIndexingStatus', () => {
+    it('should compute the lag behind the chain head', () => {
+      const status = toIndexingStatus(metadata('990'), { blockNumber: 1000n });
+
+      assert.equal(status.blockNumber, 990n);
+      assert.equal(status.lag, 10n);
+    });
+
+    it('should leave the lag unknown until the chain head is known', () => {
+      assert.equal(toIndexingStatus(metadata('990'), {}).lag, undefined);
+    });
+
+    it('should not report a negative lag when the chain head is stale', () => {
+      assert.equal(toIndexingStatus(metadata('1005'), { blockNumber: 1000n }).lag, 0n);
+    });
+  });
+
+  describe('assertIndexingHealthy', () => {
+    it('should refuse subgraphs with indexing errors', () => {
+      const status = toIndexingStatus(metadata('1000', true), { blockNumber: 1000n });
+
+      assert.throws(() => assertIndexingHealthy(status, 50), /reports indexing errors/);
+    });
+
+    it('should refuse subgraphs lagging beyond the threshold', () => {
+      const status = toIndexingStatus(metadata('900'), { blockNumber: 1000n });
+
+      assert.throws(() => assertIndexingHealthy(status, 50), (error: unknown) => {
+        assert.ok(error instanceof Error && 'kind' in error);
+        assert.equal(error.kind, 'indexing-error');
+        assert.match(error.message, /100 blocks behind the chain head \(max 50\)/);
+        return true;
+      });
+      assert.doesNotThrow(() => assertIndexingHealthy(status, 100));
+      assert.doesNotThrow(() => assertIndexingHealthy(status));
+    });
+  });
+
+  describe('confirmations', () => {
+    it('should track the confirmed block below the chain head', () => {
+      const chainHead: ChainHead = {};
+
+      updateChainHead(chainHead, 1000n, 12);
+      assert.deepEqual(chainHead, { blockNumber: 1000n, confirmedBlockNumber: 988n });
+
+      updateChainHead(chainHead, 5n, 12);
+      assert.equal(chainHead.confirmedBlockNumber, 0n);
+    });
+
+    it('should cap reads to the confirmed block', () => {
+      const chainHead: ChainHead = { blockNumber: 1000n, confirmedBlockNumber: 988n };
+
+      assert.equal(capToConfirmedBlock(chainHead, 995n), 988n);
+      assert.equal(capToConfirmedBlock(chainHead, 950n), 950n);
+      assert.equal(capToConfirmedBlock({}, 995n), 995n);
+      assert.equal(capToConfirmedBlock(undefined, 995n), 995n);
+    });
+  });
+
+  it('should list the status of every provider', () => {
+    const status = toIndexingStatus(metadata('990'), { blockNumber: 1000n });
+
+    assert.deepEqual(getIndexingStatuses({
+      governance: { endpoint: 'a', pagination: { maxRowsPerRequest: 1 }, indexingStatus: status },
+      'usd-vault': { endpoint: 'b', pagination: { maxRowsPerRequest: 1 } }
+    }), { governance: status, 'usd-vault': undefined });
+  });
+});
@@ -0,0 +1,83 @@
+import { GraphQlContext, GraphQLMetadata } from './subgraphProvider';
+import { SubgraphRequestError } from './subgraphErrors';
+
+/**
+ * Latest block seen on chain. A single instance is shared by the app and all
+ * subgraph contexts, and advanced by the block watcher.
+ */
+interface ChainHead {
+  blockNumber?: bigint;
+  /** Latest block with `blockchain.confirmations` blocks on top; data is read as of this block at most */
+  confirmedBlockNumber?: bigint;
+}
+
+/**
+ * What a subgraph reported about itself in the `_meta` of its last response
+ */
+interface IndexingStatus {
+  blockNumber: bigint;
+  deployment: string;
+  hasIndexingErrors: boolean;
+  /** Blocks behind the chain head, unknown until the chain head is */
+  lag?: bigint;
+  checkedAt: number;
+}
+
+const createChainHead = (): ChainHead => ({});
+
+const updateChainHead = (chainHead: ChainHead, blockNumber: bigint, confirmations = 0): void => {
+  chainHead.blockNumber = blockNumber;
+  const confirmed = blockNumber - BigInt(confirmations);
+  chainHead.confirmedBlockNumber = confirmed > 0n ? confirmed : 0n;
+};
+
+/**
+ * Caps the block to read subgraph data at to the confirmed block, so that
+ * blocks without enough confirmations are never synced.
+ */
+const capToConfirmedBlock = (chainHead: ChainHead | undefined, blockNumber: bigint): bigint => {
+  const confirmed = chainHead?.confirmedBlockNumber;
+  return confirmed !== undefined && confirmed < blockNumber ? confirmed : blockNumber;
+};
+
+const toIndexingStatus = (metadata: GraphQLMetadata, chainHead?: ChainHead): IndexingStatus => {
+  // Numbers arrive as JSON strings despite the declared type
+  const blockNumber = BigInt(metadata.block.number);
+  const head = chainHead?.blockNumber;
+
+  return {
+    blockNumber,
+    deployment: metadata.deployment,
+    hasIndexingErrors: metadata.hasIndexingErrors,
+    lag: head === undefined ? undefined : (head > blockNumber ? head - blockNumber : 0n),
+    checkedAt: Date.now()
+  };
+};
+
+/**
+ * Refuses data from a subgraph that reports indexing errors or lags the chain
+ * head by more than `maxBlockLag` blocks. Both are retryable: the subgraph may
+ * catch up, or another endpoint of the provider may serve it.
+ */
+const assertIndexingHealthy = (status: IndexingStatus, maxBlockLag?: number): void => {
+  if (status.hasIndexingErrors) {
+    throw new SubgraphRequestError('indexing-error',
+      `Subgraph deployment ${status.deployment} reports indexing errors (at block ${status.blockNumber})`);
+  }
+
+  if (maxBlockLag !== undefined && status.lag !== undefined && status.lag > BigInt(maxBlockLag)) {
+    throw new SubgraphRequestError('indexing-error',
+      `Subgraph deployment ${status.deployment} is ${status.lag} blocks behind the chain head (max ${maxBlockLag})`);
+  }
+};
+
+/**
+ * Last known indexing status of every provider, keyed by provider name
+ */
+const getIndexingStatuses = (
+  graphqlContexts: Record<string, GraphQlContext>
+): Record<string, IndexingStatus | undefined> =>
+  Object.fromEntries(Object.entries(graphqlContexts).map(([name, { indexingStatus }]) => [name, indexingStatus]));
+
+export { assertIndexingHealthy, capToConfirmedBlock, createChainHead, getIndexingStatuses, toIndexingStatus, updateChainHead };
+export type { ChainHead, IndexingStatus };
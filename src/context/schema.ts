@@ -12,5 +12,20 @@ const createSchemaContext = (entities: Entity[]): DatabaseSchema => ({
   )
 }); 
 
-export { createSchemaContext };
+// Names of the other entities an entity references through foreign key columns
+const getReferencedEntities = (schema: DatabaseSchema, entityName: string): string[] => {
+  const entity = schema.entities.get(entityName);
+  if (!entity) {
+    return [];
+  }
+
+  return Array.from(new Set(
+    entity.columns
+      .map(column => column.type as string | string[])
+      .filter((type): type is string =>
+        typeof type === 'string' && type !== entityName && schema.entities.has(type))
+  ));
+};
+
+export { createSchemaContext, getReferencedEntities };
 export type { DatabaseSchema };
@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  classifyGraphQLErrors,
+  classifyHttpError,
+  getRetryDelay,
+  parseRetryAfter,
+  SubgraphRequestError,
+  toSubgraphRequestError
+} from './subgraphErrors';
+
+const policy = { maxRetries: 5, initialDelay: 1000, maxDelay: 8000 };
+
+describe('subgraphErrors', () => {
+  describe('classifyHttpError', () => {
+    it('should classify 429 as rate limited and keep Retry-After', () => {
+      const error = classifyHttpError(new Response(null, { status: 429, headers: { 'Retry-After': '7' } }));
+
+      assert.equal(error.kind, 'rate-limited');
+      assert.equal(error.retryAfterMs, 7000);
+      assert.equal(error.retryable, true);
+    });
+
+    it('should classify 5xx and 408 as transient', () => {
+      assert.equal(classifyHttpError(new Response(null, { status: 502 })).kind, 'transient');
+      assert.equal(classifyHttpError(new Response(null, { status: 408 })).kind, 'transient');
+    });
+
+    it('should classify other client errors as invalid queries', () => {
+      const error = classifyHttpError(new Response(null, { status: 400 }));
+
+      assert.equal(error.kind, 'query-invalid');
+      assert.equal(error.retryable, false);
+    });
+  });
+
+  describe('classifyGraphQLErrors', () => {
+    it('should recognise indexing problems', () => {
+      assert.equal(classifyGraphQLErrors([{ message: 'bad indexers: {0x12: Unavailable}' }]).kind, 'indexing-error');
+      assert.equal(classifyGraphQLErrors([{ message: 'Subgraph has not started syncing yet' }]).kind, 'indexing-error');
+    });
+
+    it('should retry queries pinned to a block the endpoint has not indexed yet', () => {
+      const error = classifyGraphQLErrors([{
+        message: 'Failed to decode `block.number` value: `subgraph QmAbc has only indexed up to block number 120 and data for block number 125 is therefore not yet available`'
+      }]);
+
+      assert.equal(error.kind, 'indexing-error');
+      assert.equal(error.retryable, true);
+    });
+
+    it('should recognise timeouts and rate limits', () => {
+      assert.equal(classifyGraphQLErrors([{ message: 'Query timed out' }]).kind, 'transient');
+      assert.equal(classifyGraphQLErrors([{ message: 'Rate limit exceeded' }]).kind, 'rate-limited');
+    });
+
+    it('should treat anything else as an invalid query', () => {
+      const error = classifyGraphQLErrors([{ message: 'Type `Query` has no field `foo`' }]);
+
+      assert.equal(error.kind, 'query-invalid');
+      assert.match(error.message, /has no field/);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+
+      assert.equal(parseRetryAfter('3', now), 3000);
+      assert.equal(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now), 10000);
+      assert.equal(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now), 0);
+    });
+
+    it('should ignore missing or malformed values', () => {
+      assert.equal(parseRetryAfter(null), undefined);
+      assert.equal(parseRetryAfter('soon'), undefined);
+    });
+  });
+
+  describe('toSubgraphRequestError', () => {
+    it('should pass subgraph request errors through', () => {
+      const transient = new SubgraphRequestError('transient', 'boom');
+
+      assert.equal(toSubgraphRequestError(transient), transient);
+    });
+
+    it('should wrap unexpected errors as permanent, keeping them as cause', () => {
+      const cause = new TypeError('Cannot read properties of undefined');
+
+      const error = toSubgraphRequestError(cause);
+
+      assert.equal(error.kind, 'permanent');
+      assert.equal(error.retryable, false);
+      assert.equal(error.cause, cause);
+      assert.match(error.message, /Cannot read properties/);
+      assert.equal(toSubgraphRequestError('nope').kind, 'permanent');
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    const transient = new SubgraphRequestError('transient', 'boom');
+
+    it('should back off exponentially within the jitter range', () => {
+      assert.equal(getRetryDelay(policy, 0, transient, () => 0), 500);
+      assert.equal(getRetryDelay(policy, 0, transient, () => 1), 1000);
+      assert.equal(getRetryDelay(policy, 2, transient, () => 1), 4000);
+    });
+
+    it('should cap the backoff at maxDelay', () => {
+      assert.equal(getRetryDelay(policy, 10, transient, () => 1), 8000);
+    });
+
+    it('should honour Retry-After over the backoff', () => {
+      const rateLimited = new SubgraphRequestError('rate-limited', 'slow down', { retryAfterMs: 20000 });
+
+      assert.equal(getRetryDelay(policy, 0, rateLimited, () => 1), 20000);
+    });
+  });
+});
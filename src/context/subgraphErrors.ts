@@ -0,0 +1,130 @@
+import { RetryPolicy } from '../config/types';
+
+/**
+ * Why a subgraph request failed:
+ * - `rate-limited`: HTTP 429 or a rate limit message, retried after `Retry-After` when given
+ * - `transient`: network failures, timeouts and 5xx responses
+ * - `indexing-error`: the subgraph (or the indexers serving it) can't answer right now
+ * - `query-invalid`: the query itself was rejected; retrying won't help
+ * - `permanent`: anything else, e.g. a response that couldn't be processed
+ */
+type SubgraphErrorKind = 'rate-limited' | 'transient' | 'indexing-error' | 'query-invalid' | 'permanent';
+
+const RETRYABLE_KINDS: ReadonlySet<SubgraphErrorKind> = new Set(['rate-limited', 'transient', 'indexing-error']);
+
+/**
+ * Thrown by `executeRequests` when a request failed, as opposed to
+ * succeeding with no data (which yields empty result arrays).
+ */
+class SubgraphRequestError extends Error {
+  readonly kind: SubgraphErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: SubgraphErrorKind,
+    message: string,
+    { status, retryAfterMs, cause }: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(message, { cause });
+    this.name = 'SubgraphRequestError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelay: 1000,
+  maxDelay: 30000
+};
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date
+ */
+const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+const classifyHttpError = (response: Response): SubgraphRequestError => {
+  const { status } = response;
+  const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+  const message = `HTTP error! status: ${status}`;
+
+  if (status === 429) {
+    return new SubgraphRequestError('rate-limited', message, { status, retryAfterMs });
+  }
+  if (status === 408 || status >= 500) {
+    return new SubgraphRequestError('transient', message, { status, retryAfterMs });
+  }
+  return new SubgraphRequestError('query-invalid', message, { status });
+};
+
+const GRAPHQL_ERROR_PATTERNS: [SubgraphErrorKind, RegExp][] = [
+  ['rate-limited', /rate limit|too many requests/i],
+  ['transient', /timeout|timed out|temporarily unavailable|service unavailable|internal error|connection/i],
+  ['indexing-error', /indexing error|bad indexers|no allocations|not (yet )?synced|has not started syncing|deployment .*not found|subgraph .*failed|not yet available|has only indexed up to/i]
+];
+
+/**
+ * Classifies the `errors` of a GraphQL response by their messages. Anything
+ * unrecognised is taken to be a problem with the query itself.
+ */
+const classifyGraphQLErrors = (errors: { message: string }[]): SubgraphRequestError => {
+  const message = `GraphQL errors: ${JSON.stringify(errors)}`;
+  const [kind] = GRAPHQL_ERROR_PATTERNS.find(([, pattern]) =>
+    errors.some(error => pattern.test(error.message))
+  ) ?? ['query-invalid'];
+
+  return new SubgraphRequestError(kind, message);
+};
+
+/**
+ * Passes SubgraphRequestErrors through and wraps anything else thrown while
+ * requesting or processing a response as a permanent one.
+ */
+const toSubgraphRequestError = (error: unknown): SubgraphRequestError =>
+  (error instanceof SubgraphRequestError
+    ? error
+    : new SubgraphRequestError('permanent', `Unexpected error: ${error instanceof Error ? error.message : String(error)}`, { cause: error }));
+
+/**
+ * Exponential backoff with jitter for the given (zero based) retry attempt:
+ * a random delay between half and all of `initialDelay * 2^attempt`, capped
+ * at `maxDelay`. A server-provided `Retry-After` always takes precedence.
+ */
+const getRetryDelay = (
+  policy: RetryPolicy,
+  attempt: number,
+  error: SubgraphRequestError,
+  random: () => number = Math.random
+): number => {
+  const backoff = Math.min(policy.maxDelay, policy.initialDelay * 2 ** attempt);
+  const jittered = Math.round(backoff / 2 + random() * backoff / 2);
+  return Math.max(jittered, error.retryAfterMs ?? 0);
+};
+
+export {
+  classifyGraphQLErrors,
+  classifyHttpError,
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  parseRetryAfter,
+  SubgraphRequestError,
+  toSubgraphRequestError
+};
+export type { SubgraphErrorKind };
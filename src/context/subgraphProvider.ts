@@ -1,65 +1,23 @@
 import log from 'loglevel';
 
-import { SubgraphProvider } from '../config/types';
+import { RetryPolicy, SubgraphEndpoint, SubgraphProvider } from '../config/types';
 import { buildBatchQuery } from '../handlers/subgraphQueryBuilder';
 import { EntityDataCollection, EntityRecord, WithMetadata } from '../handlers/types';
+import { getMetrics } from '../metrics/metrics';
 import { pluralizeEntityName } from '../utils/pluralizeEntityName';
+import { assertIndexingHealthy, ChainHead, IndexingStatus, toIndexingStatus } from './indexingStatus';
+import { createEndpointPool, EndpointPool, recordFailure, recordSuccess, selectEndpoint } from './endpointHealth';
+import {
+  classifyGraphQLErrors,
+  classifyHttpError,
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  SubgraphRequestError,
+  toSubgraphRequestError
+} from './subgraphErrors';
 
-// Type definitions for metrics
-interface RequestHistoryEntry {
-  timestamp: number;
-  provider: string;
-  queryCount: number;
-  success: boolean;
-  duration?: number;
-  error?: string;
-}
-
-interface HttpRequestLogEntry {
-  url: string;
-  method: string;
-  timestamp: number;
-  queryCount: number;
-  duration?: number;
-}
-
-/** Maximum entries to keep in metrics history to prevent memory leaks */
-const MAX_METRICS_HISTORY = 1000;
-
-/**
- * Metrics for monitoring GraphQL request patterns.
- * 
- * Terminology:
- * - requestCount: Number of times executeRequests() was called (may contain multiple queries)
- * - httpRequestCount: Number of actual HTTP requests made (after batching)
- * - queryCount: Number of individual GraphQL queries in a single request
- * 
- * Example: 5 queries batched into 1 HTTP request
- *   requestCount: 1 (one call to executeRequests)
- *   httpRequestCount: 1 (one HTTP request made)
- *   queryCount: 5 (five queries in that request)
- */
-const metrics: {
-  requestCount: number;
-  requestHistory: RequestHistoryEntry[];
-  httpRequestCount: number;
-  httpRequestLog: HttpRequestLogEntry[];
-} = {
-  requestCount: 0,
-  requestHistory: [],
-  httpRequestCount: 0,
-  httpRequestLog: []
-};
-
-/** Trims metrics arrays to prevent unbounded growth */
-function trimMetricsHistory(): void {
-  if (metrics.requestHistory.length > MAX_METRICS_HISTORY) {
-    metrics.requestHistory = metrics.requestHistory.slice(-MAX_METRICS_HISTORY);
-  }
-  if (metrics.httpRequestLog.length > MAX_METRICS_HISTORY) {
-    metrics.httpRequestLog = metrics.httpRequestLog.slice(-MAX_METRICS_HISTORY);
-  }
-}
+/** Numbers requests so their log lines can be correlated */
+let requestCount = 0;
 
 interface GraphQLMetadata {
     block: {
@@ -85,11 +43,25 @@ interface GraphQLResponse<T> {
     }[];
 }
 
+/**
+ * `endpoint` identifies the provider (it is its primary endpoint). When the
+ * provider has fallbacks, requests go to whichever endpoint of `endpoints`
+ * is currently the healthiest.
+ */
 interface GraphQlContext {
+    /** Provider name, as configured */
+    name?: string;
     endpoint: string;
     pagination: {
         maxRowsPerRequest: number;
+        prefetchPages?: number;
     }
+    retry?: RetryPolicy;
+    endpoints?: EndpointPool;
+    chainHead?: ChainHead;
+    maxBlockLag?: number;
+    /** Updated from the `_meta` of every response */
+    indexingStatus?: IndexingStatus;
 }
 
 /**
@@ -111,61 +83,26 @@ function maskApiKey(endpoint: string): string {
   }
 }
 
-// Function to execute a batch of requests
-const executeRequests = async <Requests extends readonly GraphQLRequest[]>(
-  context: GraphQlContext,
-  requests: Requests
-): Promise<Pick<Requests[number], 'withMetadata'> extends WithMetadata
-    ? EntityDataCollection<WithMetadata>
-    : EntityDataCollection<false>> => {
-  const startTime = Date.now();
-  const queryCount = requests.length;
-  
-  // Increment counter
-  metrics.requestCount++;
-  
-  // Log request
-  const requestEntry: {
-    timestamp: number;
-    provider: string;
-    queryCount: number;
-    success: boolean;
-    duration?: number;
-    error?: string;
-  } = {
-    timestamp: startTime,
-    provider: maskApiKey(context.endpoint),
-    queryCount,
-    success: false
-  };
-  metrics.requestHistory.push(requestEntry);
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-  log.info(`[subgraphProvider:executeRequests] Request #${metrics.requestCount}: ${queryCount} queries to ${maskApiKey(context.endpoint)}`);
+/**
+ * Sends one HTTP request for the batch query. Every failure is thrown as a
+ * classified SubgraphRequestError.
+ */
+const sendBatchQuery = async (
+  endpoint: string,
+  provider: string,
+  batchQuery: string,
+  queryCount: number
+): Promise<Record<string, EntityRecord[]>> => {
+  const httpStartTime = Date.now();
 
-  // Count queries in batch for HTTP metrics
-  // Use requests.length directly - more reliable than regex parsing
-  // The regex could match false positives in query bodies
-  const actualQueryCount = requests.length;
+  // Count every attempt, failed ones included
+  getMetrics().graphqlHttpRequests.inc({ provider });
 
+  let response: Response;
   try {
-    const batchQuery = buildBatchQuery(
-      requests.map((req, index) => ({ index, request: req }))
-    );
-    log.debug('[subgraphProvider:executeRequests] batchQuery:', batchQuery);
-
-    const httpStartTime = Date.now();
-    
-    // Track HTTP request attempt (even if it fails)
-    // This ensures we count all HTTP requests, not just successful ones
-    metrics.httpRequestCount++;
-    const httpRequestLogEntry: HttpRequestLogEntry = {
-      url: maskApiKey(context.endpoint),
-      method: 'POST',
-      timestamp: httpStartTime,
-      queryCount: actualQueryCount
-    };
-    
-    const response = await fetch(context.endpoint, {
+    response = await fetch(endpoint, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -174,136 +111,200 @@ const executeRequests = async <Requests extends readonly GraphQLRequest[]>(
         query: batchQuery
       }),
     });
-    const httpDuration = Date.now() - httpStartTime;
+  } catch (error) {
+    throw new SubgraphRequestError('transient', `Network error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  } finally {
+    log.info(`[subgraphProvider:executeRequests] HTTP ${maskApiKey(endpoint)}: ${queryCount} queries (${Date.now() - httpStartTime}ms)`);
+  }
 
-    // Update log entry with duration (successful request)
-    httpRequestLogEntry.duration = httpDuration;
-    metrics.httpRequestLog.push(httpRequestLogEntry);
+  if (!response.ok) {
+    throw classifyHttpError(response);
+  }
 
-    log.info(`[subgraphProvider:executeRequests] HTTP #${metrics.httpRequestCount}: ${actualQueryCount} queries (${httpDuration}ms)`);
+  // The graph always requires an id field
+  // The id field is a string or bytes and is the primary key of the entity
+  // See https://thegraph.com/docs/en/subgraphs/developing/creating/ql-schema/#optional-and-required-fields
+  let apiResponseData: GraphQLResponse<EntityRecord>;
+  try {
+    apiResponseData = await response.json() as GraphQLResponse<EntityRecord>;
+  } catch (error) {
+    throw new SubgraphRequestError('transient', 'Invalid JSON in subgraph response', { status: response.status, cause: error });
+  }
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+  if (apiResponseData.errors) {
+    log.error('GraphQL query that caused error:', batchQuery);
+    throw classifyGraphQLErrors(apiResponseData.errors);
+  }
 
-    // The graph always requires an id field
-    // The id field is a string or bytes and is the primary key of the entity
-    // See https://thegraph.com/docs/en/subgraphs/developing/creating/ql-schema/#optional-and-required-fields
-    const apiResponseData = await response.json() as GraphQLResponse<EntityRecord>;
+  // Happens e.g. when the subgraph is not deployed or not synced yet
+  if (!apiResponseData.data) {
+    throw new SubgraphRequestError('indexing-error', 'GraphQL response has no data field - subgraph may not be deployed or synced');
+  }
 
-    if (apiResponseData.errors) {
-      log.error('GraphQL query that caused error:', batchQuery);
-      throw new Error(`GraphQL errors: ${JSON.stringify(apiResponseData.errors)}`);
-    }
+  return apiResponseData.data;
+};
 
-    // Handle case when data is null/undefined (e.g., subgraph not deployed or empty)
-    if (!apiResponseData.data) {
-      log.warn('GraphQL response has no data field - subgraph may not be deployed or synced');
-      const duration = Date.now() - startTime;
-      requestEntry.success = true;
-      requestEntry.duration = duration;
-      return {};
-    }
+/**
+ * Executes a batch of requests as a single HTTP request, retrying retryable
+ * failures with exponential backoff as configured for the provider.
+ *
+ * Resolves with one (possibly empty) array per request. Throws a
+ * SubgraphRequestError if the request failed, so callers never mistake
+ * a failure for the end of the data.
+ */
+const executeRequests = async <Requests extends readonly GraphQLRequest[]>(
+  context: GraphQlContext,
+  requests: Requests
+): Promise<Pick<Requests[number], 'withMetadata'> extends WithMetadata
+    ? EntityDataCollection<WithMetadata>
+    : EntityDataCollection<false>> => {
+  const startTime = Date.now();
+  const queryCount = requests.length;
+  const retry = context.retry ?? DEFAULT_RETRY_POLICY;
+  const provider = context.name ?? maskApiKey(context.endpoint);
+  const metrics = getMetrics();
+  const requestNumber = ++requestCount;
+
+  metrics.graphqlBatchSize.observe({ provider }, queryCount);
+  const stopTimer = metrics.graphqlRequestDuration.startTimer({ provider });
+
+  log.info(`[subgraphProvider:executeRequests] Request #${requestNumber}: ${queryCount} queries to ${maskApiKey(context.endpoint)}`);
+
+  // _meta is always requested to check the subgraph is healthy and up to date
+  const batchQuery = buildBatchQuery(
+    requests.map((req, index) => ({ index, request: req })),
+    true
+  );
+  log.debug('[subgraphProvider:executeRequests] batchQuery:', batchQuery);
+
+  for (let attempt = 0; ; attempt++) {
+    const endpointState = context.endpoints ? selectEndpoint(context.endpoints, maskApiKey) : undefined;
+    const attemptStartTime = Date.now();
+    let entities: EntityDataCollection;
+    let metadata: GraphQLMetadata | undefined;
+    try {
+      const data = await sendBatchQuery(endpointState?.url ?? context.endpoint, provider, batchQuery, queryCount);
 
-    const [entities, metadata] = Object.keys(apiResponseData.data)
-      .reduce((acc, key) => {
-        if (key === '_meta') {
-          acc[1] = apiResponseData.data[key] as unknown as GraphQLMetadata;
-        } else {
-          acc[0][key] = apiResponseData.data[key];
+      [entities, metadata] = Object.keys(data)
+        .reduce((acc, key) => {
+          if (key === '_meta') {
+            acc[1] = data[key] as unknown as GraphQLMetadata;
+          } else {
+            acc[0][key] = data[key];
+          }
+          return acc;
+        }, [{}, undefined] as [EntityDataCollection, GraphQLMetadata | undefined]);
+
+      if (metadata) {
+        context.indexingStatus = toIndexingStatus(metadata, context.chainHead);
+        if (context.indexingStatus.lag !== undefined) {
+          metrics.chainHeadLag.set({ provider }, Number(context.indexingStatus.lag));
         }
-        return acc;
-      }, [{}, undefined] as [EntityDataCollection, GraphQLMetadata | undefined]);
+        assertIndexingHealthy(context.indexingStatus, context.maxBlockLag);
+      }
+    } catch (error) {
+      const requestError = toSubgraphRequestError(error);
+      if (endpointState && requestError.retryable) {
+        recordFailure(endpointState);
+      }
+
+      if (!requestError.retryable || attempt >= retry.maxRetries) {
+        const duration = Date.now() - startTime;
+        stopTimer();
+        metrics.graphqlRequests.inc({ provider, outcome: requestError.kind });
+        log.error(`[subgraphProvider:executeRequests] Request #${requestNumber} failed (${requestError.kind}) after ${attempt + 1} attempt(s) in ${duration}ms:`, requestError);
+        throw requestError;
+      }
+
+      const delay = getRetryDelay(retry, attempt, requestError);
+      log.warn(`[subgraphProvider:executeRequests] Request #${requestNumber} attempt ${attempt + 1} failed (${requestError.kind}): ${requestError.message}. Retrying in ${delay}ms`);
+      await wait(delay);
+      continue;
+    }
+
+    if (endpointState) {
+      recordSuccess(endpointState, Date.now() - attemptStartTime, context.indexingStatus?.blockNumber);
+    }
 
     const results: EntityDataCollection = {};
     for (let i = 0; i < requests.length; i++) {
       const request = requests[i];
       const entityName = pluralizeEntityName(request.entityName);
       const queryKey = `${entityName}_${i}`;
-      const data = entities[queryKey] || [];
+      const entityData = entities[queryKey];
+      if (!entityData) {
+        // Left out so callers can tell a missing answer from an empty one
+        log.warn(`[subgraphProvider:executeRequests] Response has no ${queryKey} for ${request.entityName}`);
+        continue;
+      }
       log.info(`[subgraphProvider:executeRequests] Processing response for ${request.entityName}:`, {
         queryKey,
-        dataLength: data.length,
-        firstId: data[0]?.id,
-        lastId: data[data.length - 1]?.id
+        dataLength: entityData.length,
+        firstId: entityData[0]?.id,
+        lastId: entityData[entityData.length - 1]?.id
       });
-      results[request.entityName] = data;
+      results[request.entityName] = entityData;
     }
 
     const duration = Date.now() - startTime;
-    requestEntry.success = true;
-    requestEntry.duration = duration;
-    log.info(`[subgraphProvider:executeRequests] Request #${metrics.requestCount} completed in ${duration}ms`);
-    trimMetricsHistory();
+    stopTimer();
+    metrics.graphqlRequests.inc({ provider, outcome: 'success' });
+    log.info(`[subgraphProvider:executeRequests] Request #${requestNumber} completed in ${duration}ms`);
 
-    return metadata ? { ...results, _meta: metadata } as EntityDataCollection<WithMetadata> : results;
-  } catch (error) {
-    const duration = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    requestEntry.success = false;
-    requestEntry.duration = duration;
-    requestEntry.error = errorMessage;
-    
-    // If HTTP request was attempted but failed, ensure it's logged
-    // httpRequestCount was already incremented before fetch, but log entry might be missing
-    // if fetch threw before we could push the entry
-    if (metrics.httpRequestLog.length < metrics.httpRequestCount) {
-      // Estimate start time based on duration (approximate)
-      const estimatedStartTime = Date.now() - duration;
-      metrics.httpRequestLog.push({
-        url: maskApiKey(context.endpoint),
-        method: 'POST',
-        timestamp: estimatedStartTime,
-        queryCount: actualQueryCount,
-        duration: duration
-      });
-      log.info(`[subgraphProvider:executeRequests] HTTP #${metrics.httpRequestCount}: ${actualQueryCount} queries (FAILED ${duration}ms)`);
-    }
-    
-    log.error(`[subgraphProvider:executeRequests] Request #${metrics.requestCount} failed in ${duration}ms:`, error);
-    trimMetricsHistory();
-    return {};
+    return metadata && requests.some(({ withMetadata }) => withMetadata)
+      ? { ...results, _meta: metadata } as EntityDataCollection<WithMetadata>
+      : results;
   }
 };
 
-// Factory function to create a TheGraph context
-const createTheGraphContext = ({ url, id, maxRowsPerRequest, apiKey }: SubgraphProvider): GraphQlContext => {
-  // Build endpoint URL, handling empty apiKey to avoid double slashes
-  const endpoint = apiKey 
+/**
+ * Queries nothing but the subgraph's `_meta`, e.g. to learn the block to pin
+ * the queries of a sync run to. Subject to the same retries and guards as
+ * every other request.
+ */
+const fetchSubgraphMeta = async (context: GraphQlContext): Promise<IndexingStatus> => {
+  const previous = context.indexingStatus;
+  await executeRequests(context, []);
+
+  if (!context.indexingStatus || context.indexingStatus === previous) {
+    throw new SubgraphRequestError('indexing-error', 'Subgraph response has no _meta');
+  }
+  return context.indexingStatus;
+};
+
+const buildEndpointUrl = ({ url, id, apiKey }: SubgraphEndpoint): string => {
+  if (!id) {
+    return url;
+  }
+  // Handle empty apiKey to avoid double slashes
+  return apiKey
     ? `${url}/${apiKey}/${id}`
     : `${url}/subgraphs/name/${id}`;
+};
+
+// Factory function to create a TheGraph context
+const createTheGraphContext = (
+  { url, id, maxRowsPerRequest, prefetchPages, retry, fallbacks, maxBlockLag, apiKey }: SubgraphProvider,
+  name = id,
+  chainHead?: ChainHead
+): GraphQlContext => {
+  const endpoint = buildEndpointUrl({ url, id, apiKey });
   
   return {
+    name,
     endpoint,
     pagination: {
-      maxRowsPerRequest
-    }
+      maxRowsPerRequest,
+      prefetchPages
+    },
+    retry: { ...DEFAULT_RETRY_POLICY, ...retry },
+    chainHead,
+    maxBlockLag,
+    ...(fallbacks?.length
+      ? { endpoints: createEndpointPool(name, [endpoint, ...fallbacks.map(buildEndpointUrl)]) }
+      : {})
   };
 };
 
-// Export metrics functions
-function getRequestMetrics() {
-  return {
-    totalRequests: metrics.requestCount,
-    history: [...metrics.requestHistory],
-    reset: () => {
-      metrics.requestCount = 0;
-      metrics.requestHistory = [];
-    }
-  };
-}
-
-function getHttpMetrics() {
-  return {
-    totalHttpRequests: metrics.httpRequestCount,
-    log: [...metrics.httpRequestLog],
-    reset: () => {
-      metrics.httpRequestCount = 0;
-      metrics.httpRequestLog = [];
-    }
-  };
-}
-
-export { createTheGraphContext, executeRequests, getRequestMetrics, getHttpMetrics };
+export { createTheGraphContext, executeRequests, fetchSubgraphMeta };
 export type { GraphQlContext, GraphQLMetadata, GraphQLRequest, GraphQLResponse };
-
@@ -1,5 +1,7 @@
 import { Config } from '../config/types';
 import { DatabaseContext } from './db';
+import { ChainHead } from './indexingStatus';
+import { ServiceHealth } from '../server/health';
 import { DatabaseSchema } from './schema';
 import { GraphQlContext } from './subgraphProvider';
 
@@ -7,6 +9,8 @@ interface AppContext {
     schema: DatabaseSchema;
     dbContext: DatabaseContext;
     graphqlContexts: Record<string, GraphQlContext>;
+    chainHead: ChainHead;
+    health: ServiceHealth;
     config: Config;
 }
 
@@ -1,4 +1,5 @@
 // abis/index.ts
+import { AbiEvent, AbiFunction } from 'viem';
 import { BackersManagerAbi } from '../abis/BackersManagerAbi';
 import { BuilderRegistryAbi } from '../abis/BuilderRegistryAbi';
 import { CycleTimeKeeperAbi } from '../abis/CycleTimeKeeperAbi';
@@ -29,5 +30,28 @@ type CollectiveRewardsAbi = typeof abis[CollectiveRewardsAbiName]
 
 const getAbi = (abiName: CollectiveRewardsAbiName): CollectiveRewardsAbi => abis[abiName];
 
-export { getAbi };
+/**
+ * Looks up a bundled ABI by contract name, e.g. `Gauge` for `GaugeAbi`
+ */
+const findAbi = (contractName: string): CollectiveRewardsAbi | undefined =>
+  Object.hasOwn(abis, `${contractName}Abi`) ? abis[`${contractName}Abi` as CollectiveRewardsAbiName] : undefined;
+
+/**
+ * Finds the view (or pure) function of an ABI called with `argCount` arguments
+ */
+const findReadFunction = (abi: CollectiveRewardsAbi, functionName: string, argCount: number): AbiFunction | undefined =>
+  (abi as readonly { type: string }[]).find((item): item is AbiFunction =>
+    item.type === 'function'
+    && (item as AbiFunction).name === functionName
+    && (item as AbiFunction).inputs.length === argCount
+    && ['view', 'pure'].includes((item as AbiFunction).stateMutability));
+
+/**
+ * Finds an event of an ABI by name
+ */
+const findEvent = (abi: CollectiveRewardsAbi, eventName: string): AbiEvent | undefined =>
+  (abi as readonly { type: string }[]).find((item): item is AbiEvent =>
+    item.type === 'event' && (item as AbiEvent).name === eventName);
+
+export { findAbi, findEvent, findReadFunction, getAbi };
 export type { CollectiveRewardsAbiName, CollectiveRewardsAbi };
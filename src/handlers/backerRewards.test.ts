@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import log from 'loglevel';
+import { PublicClient } from 'viem';
+import { AppContext } from '../context/types';
+import { createMockConfig } from '../test-helpers/mockConfig';
+import { COINBASE_ADDRESS, syncBackerRewards } from './backerRewards';
+
+const backersManager = '0x0000000000000000000000000000000000000005';
+const rif = '0x00000000000000000000000000000000000000f1';
+const pairs = [
+  { backer: '0xb1', gauge: '0x00000000000000000000000000000000000000aa' },
+  { backer: '0xb1', gauge: '0x00000000000000000000000000000000000000bb' },
+  { backer: '0xb2', gauge: '0x00000000000000000000000000000000000000aa' }
+];
+// BackerToBuilder's Bytes columns come back from pg as Buffers
+const storedPairs = pairs.map(({ backer, gauge }) => ({ backer: Buffer.from(backer), gauge }));
+
+/**
+ * Client whose gauges estimate 10 and have earned 4 of every token, failing
+ * for backer 0xb2 on `earned`
+ */
+const createClient = () => {
+  const multicall = mock.fn(async ({ contracts }: { contracts: { functionName: string; args: readonly unknown[] }[] }) =>
+    contracts.map(({ functionName, args: [, backer] }) => (functionName === 'earned' && backer === '0xb2'
+      ? { status: 'failure', error: new Error('reverted') }
+      : { status: 'success', result: functionName === 'earned' ? 4n : 10n })));
+  const readContract = mock.fn(async ({ functionName }: { functionName: string }) =>
+    (functionName === 'rewardToken' ? rif.toUpperCase().replace('0X', '0x') : [1700000000n, 604800n]));
+  return { client: { multicall, readContract } as unknown as PublicClient, multicall };
+};
+
+describe('backerRewards', () => {
+  let context: AppContext;
+  let writes: unknown[][];
+  let joins: unknown[][];
+
+  beforeEach(() => {
+    log.setLevel('silent');
+    writes = [];
+    joins = [];
+    const db = Object.assign((table: string) => ({
+      joinRaw: (sql: string, bindings: unknown[]) => {
+        joins.push([sql, bindings]);
+        return { where: () => ({ distinct: () => ({ orderBy: async () => storedPairs }) }) };
+      },
+      whereNot: (column: string, value: string) => ({
+        delete: async () => {
+          writes.push(['deleteOther', table, column, value]);
+          return 1;
+        }
+      }),
+      insert: (rows: Record<string, unknown>[]) => ({
+        onConflict: () => ({
+          merge: async () => {
+            writes.push(['upsert', table, rows.map(({ backer, gauge, rewardToken, estimated, earned }) => `${backer}@${gauge.slice(-2)}/${rewardToken}:${estimated},${earned}`)]);
+          }
+        })
+      })
+    }), { fn: { now: () => 'now()' } });
+    context = {
+      config: {
+        ...createMockConfig({ contracts: [{ name: 'BackersManager', address: backersManager }] }),
+        backerRewards: { chunkSize: 2 }
+      },
+      schema: { entities: new Map() },
+      dbContext: { db, schema: 'public', batchSize: 100, maxRetries: 0, initialRetryDelay: 1 }
+    } as unknown as AppContext;
+  });
+
+  it('should read rewards of every pair and token in chunks and replace stale rows', async () => {
+    const { client, multicall } = createClient();
+
+    const stored = await syncBackerRewards(context, client, 120n);
+
+    assert.equal(stored, 4);
+    // Gauge.builder is text, BackerToBuilder.builder the bytes of that text
+    assert.deepEqual(joins, [['join ?? on ?? = convert_from(??, \'UTF8\')', ['Gauge', 'Gauge.builder', 'BackerToBuilder.builder']]]);
+    assert.deepEqual(multicall.mock.calls.map(({ arguments: [{ contracts }] }) => contracts.length), [8, 4]);
+    const [{ arguments: [{ contracts: [first] }] }] = multicall.mock.calls as unknown as {
+      arguments: [{ contracts: { address: string; functionName: string; args: unknown[] }[] }]
+    }[];
+    assert.deepEqual([first.address, first.functionName, first.args], [pairs[0].gauge, 'estimatedBackerRewards', [rif, '0xb1']]);
+    // Backer 0xb2's calls failed, so its rows go with the stale ones
+    assert.deepEqual(writes, [
+      ['upsert', 'BackerReward', [`0xb1@aa/${rif}:10,4`, `0xb1@aa/${COINBASE_ADDRESS}:10,4`, `0xb1@bb/${rif}:10,4`, `0xb1@bb/${COINBASE_ADDRESS}:10,4`]],
+      ['deleteOther', 'BackerReward', 'blockNumber', '120']
+    ]);
+  });
+
+  it('should read the configured reward tokens only', async () => {
+    context.config.backerRewards = { chunkSize: 10, tokens: [COINBASE_ADDRESS] };
+    const { client, multicall } = createClient();
+
+    const stored = await syncBackerRewards(context, client, 120n);
+
+    assert.equal(stored, 2);
+    const [{ arguments: [{ contracts }] }] = multicall.mock.calls as unknown as { arguments: [{ contracts: { args: unknown[] }[] }] }[];
+    assert.ok(contracts.every(({ args: [token] }) => token === COINBASE_ADDRESS));
+  });
+});
@@ -0,0 +1,151 @@
+import log from 'loglevel';
+import { Address, PublicClient } from 'viem';
+
+import { BackersManagerAbi } from '../abis/BackersManagerAbi';
+import { GaugeAbi } from '../abis/GaugeAbi';
+import { AppContext } from '../context/types';
+import { CONTRACT_NAMES, getContractAddress } from './contracts';
+import { BACKER_REWARD_TABLE, GAUGE_TABLE } from './internalTables';
+import { fromStoredValue } from './types';
+
+/**
+ * A backer with allocations to the builder of a gauge
+ */
+interface BackerGauge {
+  backer: string;
+  gauge: string;
+}
+
+interface BackerRewardRow extends BackerGauge {
+  rewardToken: string;
+  estimated: string;
+  earned: string;
+  cycleStart: string;
+  blockNumber: string;
+}
+
+/** Stands for native RBTC wherever the contracts take a reward token */
+const COINBASE_ADDRESS = '0xf7ab6cfaebbadfe8b5494022c4c6db776bd63b6b';
+
+const DEFAULT_CHUNK_SIZE = 100;
+
+const getBackersManager = (context: AppContext): Address => {
+  const address = getContractAddress(context.config, CONTRACT_NAMES.BACKERS_MANAGER);
+  if (!address) {
+    throw new Error(`Contract '${CONTRACT_NAMES.BACKERS_MANAGER}' is not configured`);
+  }
+  return address as Address;
+};
+
+/**
+ * Start of the cycle `blockNumber` belongs to
+ */
+const getCycleStart = async (context: AppContext, client: PublicClient, blockNumber: bigint): Promise<bigint> => {
+  const [start] = await client.readContract({
+    address: getBackersManager(context),
+    abi: BackersManagerAbi,
+    functionName: 'getCycleStartAndDuration',
+    blockNumber
+  });
+  return start;
+};
+
+/**
+ * Cycle start of the stored rewards, if any were stored
+ */
+const getStoredCycleStart = async (context: AppContext): Promise<bigint | undefined> => {
+  const row = await context.dbContext.db(BACKER_REWARD_TABLE).max('cycleStart as cycleStart').first() as { cycleStart: string | null } | undefined;
+  return row?.cycleStart ? BigInt(row.cycleStart) : undefined;
+};
+
+/**
+ * The configured reward tokens, or the BackersManager's reward token and RBTC
+ */
+const getRewardTokens = async (context: AppContext, client: PublicClient, blockNumber: bigint): Promise<string[]> => {
+  const configured = context.config.backerRewards?.tokens;
+  if (configured && configured.length > 0) {
+    return configured.map(token => token.toLowerCase());
+  }
+  const rewardToken = await client.readContract({
+    address: getBackersManager(context),
+    abi: BackersManagerAbi,
+    functionName: 'rewardToken',
+    blockNumber
+  });
+  return [rewardToken.toLowerCase(), COINBASE_ADDRESS];
+};
+
+/**
+ * Backers with a non-zero allocation to a builder, with the builder's gauge
+ * from the Gauge registry. BackerToBuilder's Bytes columns hold the text of
+ * the addresses the registry stores as text, hence the conversion.
+ */
+const getActiveBackerGauges = async (context: AppContext): Promise<BackerGauge[]> => {
+  const rows: { backer: unknown; gauge: string }[] = await context.dbContext.db('BackerToBuilder')
+    .joinRaw('join ?? on ?? = convert_from(??, \'UTF8\')', [GAUGE_TABLE, `${GAUGE_TABLE}.builder`, 'BackerToBuilder.builder'])
+    .where('BackerToBuilder.totalAllocation', '>', 0)
+    .distinct('BackerToBuilder.backer as backer', `${GAUGE_TABLE}.address as gauge`)
+    .orderBy(['backer', 'gauge']);
+  return rows.map(({ backer, gauge }) => ({ backer: String(fromStoredValue(backer)), gauge }));
+};
+
+/**
+ * Reads `estimatedBackerRewards` and `earned` of every active (backer, gauge)
+ * pair for every reward token at `blockNumber`, `chunkSize` pairs per
+ * multicall, and replaces the rows of the BackerReward table with them. Pairs
+ * whose calls fail are logged and left out. Returns the number of rows stored.
+ */
+const syncBackerRewards = async (context: AppContext, client: PublicClient, blockNumber: bigint): Promise<number> => {
+  const { db } = context.dbContext;
+  const chunkSize = context.config.backerRewards?.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const tokens = await getRewardTokens(context, client, blockNumber);
+  const cycleStart = (await getCycleStart(context, client, blockNumber)).toString();
+  const pairs = await getActiveBackerGauges(context);
+
+  let stored = 0;
+  for (let offset = 0; offset < pairs.length; offset += chunkSize) {
+    const reads = pairs.slice(offset, offset + chunkSize)
+      .flatMap(pair => tokens.map(rewardToken => ({ ...pair, rewardToken })));
+    const results = await client.multicall({
+      contracts: reads.flatMap(({ backer, gauge, rewardToken }) => (['estimatedBackerRewards', 'earned'] as const).map(functionName => ({
+        address: gauge as Address,
+        abi: GaugeAbi,
+        functionName,
+        args: [rewardToken as Address, backer as Address]
+      } as const))),
+      blockNumber,
+      allowFailure: true
+    });
+
+    const rows: BackerRewardRow[] = reads.flatMap((read, index) => {
+      const [estimated, earned] = [results[index * 2], results[index * 2 + 1]];
+      if (estimated.status === 'failure' || earned.status === 'failure') {
+        const error = estimated.status === 'failure' ? estimated.error : earned.error;
+        log.warn(`[backerRewards:syncBackerRewards] ${read.backer} on gauge ${read.gauge} (${read.rewardToken}): ${error?.message}`);
+        return [];
+      }
+      return [{
+        ...read,
+        estimated: estimated.result.toString(),
+        earned: earned.result.toString(),
+        cycleStart,
+        blockNumber: blockNumber.toString()
+      }];
+    });
+
+    if (rows.length > 0) {
+      await db(BACKER_REWARD_TABLE)
+        .insert(rows.map(row => ({ ...row, updatedAt: db.fn.now() })))
+        .onConflict(['backer', 'gauge', 'rewardToken'])
+        .merge();
+    }
+    stored += rows.length;
+  }
+
+  // Pairs no longer active, and those that failed this time
+  const removed = await db(BACKER_REWARD_TABLE).whereNot('blockNumber', blockNumber.toString()).delete();
+  log.info(`[backerRewards:syncBackerRewards] ${stored} rewards of ${pairs.length} backer gauges at block ${blockNumber}, ${removed} stale rows removed`);
+  return stored;
+};
+
+export { COINBASE_ADDRESS, getCycleStart, getStoredCycleStart, syncBackerRewards };
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import { Knex } from 'knex';
+import { Hex } from 'viem';
+import { BlockHistoryEntry, extendsHistory, findCommonAncestor, getBlockHistory, recordBlock } from './blockHistory';
+
+const entry = (number: number, hash: string): BlockHistoryEntry => ({
+  number: BigInt(number),
+  hash: hash as Hex,
+  parentHash: `0x${(number - 1).toString(16)}` as Hex
+});
+
+describe('blockHistory', () => {
+  describe('findCommonAncestor', () => {
+    const history = [entry(105, '0xorphan105'), entry(104, '0xorphan104'), entry(103, '0x67'), entry(102, '0x66')];
+
+    it('should return the latest block when it is still on the chain', async () => {
+      const getCanonicalHash = mock.fn(async () => '0xorphan105' as Hex);
+
+      assert.equal(await findCommonAncestor(history, getCanonicalHash), history[0]);
+      assert.equal(getCanonicalHash.mock.callCount(), 1);
+    });
+
+    it('should walk back to the newest block still on the chain', async () => {
+      const canonical: Record<string, Hex> = { 105: '0x69', 104: '0x68', 103: '0x67', 102: '0x66' };
+      const getCanonicalHash = mock.fn(async (blockNumber: bigint) => canonical[blockNumber.toString()]);
+
+      assert.equal(await findCommonAncestor(history, getCanonicalHash), history[2]);
+      assert.deepEqual(getCanonicalHash.mock.calls.map(({ arguments: [blockNumber] }) => blockNumber), [105n, 104n, 103n]);
+    });
+
+    it('should return undefined when the reorg is deeper than the history', async () => {
+      assert.equal(await findCommonAncestor(history, async () => '0xother' as Hex), undefined);
+      assert.equal(await findCommonAncestor([], async () => '0xother' as Hex), undefined);
+    });
+  });
+
+  describe('extendsHistory', () => {
+    const history = [entry(103, '0x67'), entry(102, '0x66')];
+
+    it('should link a block to the newest stored block by its parent hash', () => {
+      assert.equal(extendsHistory(history, entry(104, '0x68')), true);
+    });
+
+    it('should not link a block with another parent, a gap or no history', () => {
+      assert.equal(extendsHistory(history, { ...entry(104, '0x68'), parentHash: '0xorphan' }), false);
+      assert.equal(extendsHistory(history, entry(105, '0x69')), false);
+      assert.equal(extendsHistory([], entry(104, '0x68')), false);
+    });
+  });
+
+  describe('storage', () => {
+    it('should parse stored block numbers', async () => {
+      const db = (() => ({
+        select: () => ({ orderBy: async () => [{ number: '12', hash: '0xc', parentHash: '0xb' }] })
+      })) as unknown as Knex;
+
+      assert.deepEqual(await getBlockHistory(db), [{ number: 12n, hash: '0xc', parentHash: '0xb' }]);
+    });
+
+    it('should upsert the block and prune blocks outside the window', async () => {
+      const calls: unknown[][] = [];
+      const db = ((table: string) => ({
+        insert: (row: unknown) => ({
+          onConflict: (column: string) => ({
+            merge: async () => {
+              calls.push(['upsert', table, row, column]);
+            }
+          })
+        }),
+        where: (column: string, operator: string, value: string) => ({
+          delete: async () => {
+            calls.push(['delete', table, column, operator, value]);
+          }
+        })
+      })) as unknown as Knex;
+
+      await recordBlock(db, entry(150, '0x96'), 100);
+
+      assert.deepEqual(calls, [
+        ['upsert', 'BlockHistory', { number: '150', hash: '0x96', parentHash: '0x95' }, 'number'],
+        ['delete', 'BlockHistory', 'number', '<=', '50']
+      ]);
+    });
+  });
+});
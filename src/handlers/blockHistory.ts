@@ -0,0 +1,99 @@
+import { Knex } from 'knex';
+import { Hex } from 'viem';
+import { BLOCK_HISTORY_TABLE, REORG_EVENT_TABLE } from './internalTables';
+
+/**
+ * A processed block, as the chain reported it at the time
+ */
+interface BlockHistoryEntry {
+  number: bigint;
+  hash: Hex;
+  parentHash: Hex;
+}
+
+/**
+ * A reorg found by comparing the block history with the chain
+ */
+interface ReorgEvent {
+  /** Last stored block still on the chain; null when the reorg is deeper than the history */
+  commonAncestor: bigint | null;
+  /** First and last stored blocks that were reorged out */
+  fromBlock: bigint;
+  toBlock: bigint;
+  /** Reorged blocks, a lower bound when there is no common ancestor */
+  depth: number;
+  /** Hash stored for `toBlock` */
+  orphanedHash: Hex;
+  /** How the data was recovered: `partial` rollback or `full` rebuild */
+  mode: 'partial' | 'full';
+}
+
+/**
+ * Loads the stored block history, newest first. Bigint columns arrive as strings.
+ */
+const getBlockHistory = async (db: Knex): Promise<BlockHistoryEntry[]> => {
+  const rows = await db(BLOCK_HISTORY_TABLE).select('number', 'hash', 'parentHash').orderBy('number', 'desc');
+  return rows.map(({ number, hash, parentHash }) => ({ number: BigInt(number), hash, parentHash }));
+};
+
+/**
+ * Stores a processed block and prunes the blocks that fell out of the
+ * `windowSize` most recent ones
+ */
+const recordBlock = async (db: Knex, block: BlockHistoryEntry, windowSize: number): Promise<void> => {
+  await db(BLOCK_HISTORY_TABLE)
+    .insert({ number: block.number.toString(), hash: block.hash, parentHash: block.parentHash })
+    .onConflict('number')
+    .merge(['hash', 'parentHash', 'recordedAt']);
+  await db(BLOCK_HISTORY_TABLE).where('number', '<=', (block.number - BigInt(windowSize)).toString()).delete();
+};
+
+/**
+ * Forgets the stored blocks after `blockNumber`, e.g. those reorged out
+ */
+const discardBlocksAfter = async (db: Knex, blockNumber: bigint): Promise<void> => {
+  await db(BLOCK_HISTORY_TABLE).where('number', '>', blockNumber.toString()).delete();
+};
+
+/**
+ * Finds the newest stored block that is still on the chain, given a way to
+ * look up the canonical hash of a block. Stops at the first match, so only
+ * the reorged blocks and the common ancestor are looked up.
+ *
+ * @param history - stored blocks, newest first
+ * @returns the common ancestor, or undefined when no stored block is canonical
+ */
+const findCommonAncestor = async (
+  history: BlockHistoryEntry[],
+  getCanonicalHash: (blockNumber: bigint) => Promise<Hex>
+): Promise<BlockHistoryEntry | undefined> => {
+  for (const entry of history) {
+    if (await getCanonicalHash(entry.number) === entry.hash) {
+      return entry;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Whether `block` is the child of the newest stored block, by its parent hash.
+ * That stored block is then still on the chain and needs no lookup.
+ *
+ * @param history - stored blocks, newest first
+ */
+const extendsHistory = (history: BlockHistoryEntry[], block: BlockHistoryEntry): boolean => {
+  const [latest] = history;
+  return latest !== undefined && latest.number === block.number - 1n && latest.hash === block.parentHash;
+};
+
+const recordReorgEvent = async (db: Knex, event: ReorgEvent): Promise<void> => {
+  await db(REORG_EVENT_TABLE).insert({
+    ...event,
+    commonAncestor: event.commonAncestor?.toString() ?? null,
+    fromBlock: event.fromBlock.toString(),
+    toBlock: event.toBlock.toString()
+  });
+};
+
+export { discardBlocksAfter, extendsHistory, findCommonAncestor, getBlockHistory, recordBlock, recordReorgEvent };
+export type { BlockHistoryEntry, ReorgEvent };
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import log from 'loglevel';
+import { PublicClient } from 'viem';
+import { Entity } from '../config/types';
+import { AppContext } from '../context/types';
+import { createMockConfig } from '../test-helpers/mockConfig';
+import { readContractEntity, syncContractEntities } from './contractReader';
+
+const gaugeAllocation: Entity = {
+  name: 'GaugeAllocation',
+  primaryKey: ['builder'],
+  source: 'contract',
+  blockColumn: 'blockNumber',
+  columns: [
+    { name: 'builder', type: 'Bytes' },
+    { name: 'gauge', type: 'Bytes' },
+    { name: 'totalAllocation', type: 'BigInt' },
+    { name: 'blockNumber', type: 'BigInt' }
+  ],
+  contractRead: {
+    abi: 'Gauge',
+    address: '{gauge}',
+    function: 'totalAllocation',
+    forEach: 'Builder',
+    fromRow: { builder: 'id', gauge: 'gauge' },
+    outputs: { 0: 'totalAllocation' }
+  }
+};
+
+const cycle: Entity = {
+  name: 'Cycle',
+  primaryKey: ['nextStart'],
+  source: 'contract',
+  columns: [
+    { name: 'nextStart', type: 'BigInt' },
+    { name: 'nextDuration', type: 'Integer' }
+  ],
+  contractRead: {
+    contract: 'BackersManager',
+    function: 'cycleData',
+    outputs: { nextStart: 'nextStart', nextDuration: 'nextDuration' }
+  }
+};
+
+describe('contractReader', () => {
+  let context: AppContext;
+  let upserts: { table: string; rows: unknown[] }[];
+
+  beforeEach(() => {
+    log.setLevel('silent');
+    upserts = [];
+    // Bytes columns come back from pg as Buffers
+    const db = (table: string) => ({
+      select: async () => (table === 'Builder'
+        ? [
+          { id: Buffer.from('0x01'), gauge: Buffer.from('0x00000000000000000000000000000000000000aa') },
+          { id: Buffer.from('0x02'), gauge: Buffer.from('0x00000000000000000000000000000000000000bb') }
+        ]
+        : []),
+      insert: (rows: unknown[]) => ({
+        onConflict: () => ({
+          merge: async () => {
+            upserts.push({ table, rows });
+          }
+        })
+      })
+    });
+    context = {
+      config: createMockConfig({
+        contracts: [{ name: 'BackersManager', address: '0x0000000000000000000000000000000000000005' }]
+      }),
+      schema: { entities: new Map([['GaugeAllocation', gaugeAllocation], ['Cycle', cycle]]) },
+      dbContext: { db, schema: 'public', batchSize: 100, maxRetries: 0, initialRetryDelay: 1 }
+    } as unknown as AppContext;
+  });
+
+  it('should read once per forEach row at the given block', async () => {
+    const multicall = mock.fn(async () => [
+      { status: 'success', result: 1500n },
+      { status: 'failure', error: new Error('reverted') }
+    ]);
+
+    const rows = await readContractEntity(context, { multicall } as unknown as PublicClient, gaugeAllocation, 120n);
+
+    assert.deepEqual(rows, [
+      { builder: '0x01', gauge: '0x00000000000000000000000000000000000000aa', totalAllocation: '1500', blockNumber: '120' }
+    ]);
+    const [{ contracts, blockNumber, allowFailure }] = multicall.mock.calls[0].arguments as unknown as [
+      { contracts: { address: string; functionName: string; args: unknown[] }[]; blockNumber: bigint; allowFailure: boolean }
+    ];
+    assert.deepEqual(contracts.map(({ address, functionName, args }) => [address, functionName, args]), [
+      ['0x00000000000000000000000000000000000000aa', 'totalAllocation', []],
+      ['0x00000000000000000000000000000000000000bb', 'totalAllocation', []]
+    ]);
+    assert.equal(blockNumber, 120n);
+    assert.equal(allowFailure, true);
+  });
+
+  it('should map named outputs of a single call to the configured contract', async () => {
+    const multicall = mock.fn(async () => [{ status: 'success', result: [604800n, 1209600n, 1700000000n, 1700604800n, 0n] }]);
+
+    const rows = await readContractEntity(context, { multicall } as unknown as PublicClient, cycle, 120n);
+
+    assert.deepEqual(rows, [{ nextStart: '1700604800', nextDuration: 1209600 }]);
+    const [{ contracts }] = multicall.mock.calls[0].arguments as unknown as [{ contracts: { address: string }[] }];
+    assert.equal(contracts[0].address, '0x0000000000000000000000000000000000000005');
+  });
+
+  it('should upsert contract entities only', async () => {
+    const multicall = mock.fn(async () => [{ status: 'success', result: [1n, 2n, 3n, 4n, 5n] }]);
+
+    const counts = await syncContractEntities(context, { multicall } as unknown as PublicClient, ['Cycle', 'Builder'], 120n);
+
+    assert.deepEqual(counts, { Cycle: 1 });
+    assert.deepEqual(upserts, [{ table: 'Cycle', rows: [{ nextStart: '4', nextDuration: 2 }] }]);
+  });
+});
@@ -0,0 +1,132 @@
+import log from 'loglevel';
+import { AbiFunction, Address, PublicClient } from 'viem';
+
+import { Column, ContractRead, Entity } from '../config/types';
+import { AppContext } from '../context/types';
+import { findAbi, findReadFunction } from './abi';
+import { executeUpsert } from './dbUpsert';
+import { fromStoredValue } from './types';
+
+type ContractRecord = Record<string, unknown>;
+
+/** "{column}" placeholder standing for a column of the `forEach` row */
+const ROW_PLACEHOLDER = /^\{(\w+)\}$/;
+
+/**
+ * Replaces a "{column}" placeholder by that column of the row, Bytes decoded
+ */
+const resolveValue = (value: unknown, row: ContractRecord): unknown => {
+  const column = typeof value === 'string' ? ROW_PLACEHOLDER.exec(value)?.[1] : undefined;
+  return column === undefined ? value : fromStoredValue(row[column]);
+};
+
+/**
+ * Converts an argument to what its ABI input expects: integers to bigint.
+ * Stored BigInt columns arrive as strings.
+ */
+const toAbiArg = (value: unknown, type: string): unknown =>
+  /^u?int\d*$/.test(type) ? BigInt(value as string | number) : value;
+
+/**
+ * Converts a decoded value to a column value the way subgraphs return it:
+ * integers as strings, bytes and addresses in lowercase
+ */
+const toColumnValue = (value: unknown, column: Column | undefined): unknown => {
+  if (typeof value === 'bigint') {
+    return column?.type === 'Integer' ? Number(value) : value.toString();
+  }
+  if (typeof value === 'string' && column?.type === 'Bytes') {
+    return value.toLowerCase();
+  }
+  return value;
+};
+
+const getReadFunction = (entity: Entity, read: ContractRead): AbiFunction => {
+  const abiName = read.abi ?? read.contract ?? '';
+  const abi = findAbi(abiName);
+  const abiFunction = abi && findReadFunction(abi, read.function, read.args?.length ?? 0);
+  if (!abiFunction) {
+    throw new Error(`${entity.name}: ${abiName} has no view function '${read.function}'`);
+  }
+  return abiFunction;
+};
+
+/**
+ * Reads the rows of a `contract` entity at `blockNumber`: one call per row of
+ * its `forEach` entity (or a single call), batched through multicall. Calls
+ * that revert are logged and produce no row.
+ */
+const readContractEntity = async (
+  context: AppContext,
+  client: PublicClient,
+  entity: Entity,
+  blockNumber: bigint
+): Promise<ContractRecord[]> => {
+  const read = entity.contractRead as ContractRead;
+  const abiFunction = getReadFunction(entity, read);
+  const address = read.address ?? context.config.contracts?.find(({ name }) => name === read.contract)?.address;
+  const rows: ContractRecord[] = read.forEach ? await context.dbContext.db(read.forEach).select('*') : [{}];
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const results = await client.multicall({
+    contracts: rows.map(row => ({
+      address: resolveValue(address, row) as Address,
+      abi: [abiFunction],
+      functionName: read.function,
+      args: (read.args ?? []).map((arg, index) => toAbiArg(resolveValue(arg, row), abiFunction.inputs[index].type))
+    })),
+    blockNumber,
+    allowFailure: true
+  });
+
+  const columns = new Map(entity.columns.map(column => [column.name, column]));
+  return results.flatMap((result, index) => {
+    if (result.status === 'failure') {
+      log.warn(`[contractReader:readContractEntity] ${entity.name}: ${read.function} failed for row ${index}: ${result.error.message}`);
+      return [];
+    }
+
+    // A single output is returned as is, several as a list
+    const values = abiFunction.outputs.length === 1 ? [result.result] : result.result as unknown[];
+    const record: ContractRecord = {};
+    for (const [column, rowColumn] of Object.entries(read.fromRow ?? {})) {
+      record[column] = fromStoredValue(rows[index][rowColumn]);
+    }
+    for (const [output, column] of Object.entries(read.outputs)) {
+      const position = abiFunction.outputs.findIndex(({ name }, outputIndex) => name === output || outputIndex === Number(output));
+      record[column] = toColumnValue(values[position], columns.get(column));
+    }
+    if (entity.blockColumn) {
+      record[entity.blockColumn] = toColumnValue(blockNumber, columns.get(entity.blockColumn));
+    }
+    return [record];
+  });
+};
+
+/**
+ * Reads the given `contract` entities at `blockNumber` and upserts their rows,
+ * in schema order so referenced entities come first. Other entities are
+ * ignored. Returns the number of rows stored per entity.
+ */
+const syncContractEntities = async (
+  context: AppContext,
+  client: PublicClient,
+  entityNames: string[],
+  blockNumber: bigint
+): Promise<Record<string, number>> => {
+  const entities = [...context.schema.entities.values()]
+    .filter(entity => entity.source === 'contract' && entityNames.includes(entity.name));
+
+  const counts: Record<string, number> = {};
+  for (const entity of entities) {
+    const records = await readContractEntity(context, client, entity, blockNumber);
+    await executeUpsert(context.dbContext, entity.name, records, context.schema);
+    log.info(`[contractReader:syncContractEntities] ${entity.name}: ${records.length} rows read at block ${blockNumber}`);
+    counts[entity.name] = records.length;
+  }
+  return counts;
+};
+
+export { readContractEntity, syncContractEntities, toColumnValue };
@@ -1,9 +1,12 @@
 import assert from 'node:assert/strict';
 import { after, before, describe, it } from 'node:test';
 import knex, { Knex } from 'knex';
-import { Column } from '../config/types';
+import log from 'loglevel';
+import { Column, Entity } from '../config/types';
+import { AppContext } from '../context/types';
+import { createMockConfig } from '../test-helpers/mockConfig';
 import { ArrayColumnType } from './types';
-import { applyNullableConstraint, createArrayColumn, createColumn } from './dbCreator';
+import { applyNullableConstraint, createArrayColumn, createColumn, createDb } from './dbCreator';
 
 describe('dbCreator nullable handling', () => {
   describe('applyNullableConstraint', () => {
@@ -93,3 +96,57 @@ describe('dbCreator nullable handling', () => {
   });
 });
 
+
+describe('createDb', () => {
+  const builder: Entity = { name: 'Builder', primaryKey: ['id'], columns: [{ name: 'id', type: 'Bytes' }] };
+
+  /**
+   * Database stand-in with every internal table, no entity table and the given
+   * interrupted syncs, recording the statements it runs
+   */
+  const createContext = (interrupted: string[]) => {
+    const statements: string[] = [];
+    const trx = Object.assign((table: string) => ({
+      where: () => ({ distinct: () => ({ pluck: async () => interrupted }) }),
+      select: () => ({ whereRaw: async () => [] }),
+      delete: async () => {
+        statements.push(`delete ${table}`);
+      }
+    }), {
+      schema: {
+        hasTable: async () => true,
+        dropTableIfExists: async (table: string) => {
+          statements.push(`drop ${table}`);
+        },
+        createTable: async (table: string) => {
+          statements.push(`create ${table}`);
+        }
+      }
+    });
+    const context = {
+      config: createMockConfig({ entities: [builder] }),
+      schema: { entities: new Map([['Builder', builder]]) },
+      dbContext: { db: { transaction: async (work: (trx: unknown) => Promise<unknown>) => work(trx) } }
+    } as unknown as AppContext;
+    return { context, statements };
+  };
+
+  before(() => {
+    log.setLevel('silent');
+  });
+
+  it('should drop the tables and forget sync and event cursors when initializing', async () => {
+    const { context, statements } = createContext([]);
+
+    assert.deepEqual(await createDb(context, false, true), ['Builder']);
+    assert.deepEqual(statements, ['drop Builder', 'delete SyncState', 'delete EventCursor', 'create Builder']);
+  });
+
+  it('should keep the tables and sync cursors of an interrupted initial sync', async () => {
+    const { context, statements } = createContext(['Builder']);
+
+    await createDb(context, false, true);
+
+    assert.ok(statements.every(statement => !statement.startsWith('drop') && !statement.startsWith('delete')));
+  });
+});
@@ -3,6 +3,9 @@ import log from 'loglevel';
 import { Column, Entity } from '../config/types';
 import { DatabaseSchema } from '../context/schema';
 import { AppContext } from '../context/types';
+import { migrateTables } from './dbMigrator';
+import { ensureInternalTables } from './internalTables';
+import { clearEventCursors, clearSyncStates, getIncompleteSyncs } from './syncState';
 import { ColumnType, columnTypeConfigs, isArrayColumnType, isColumnType } from './types';
 
 /**
@@ -177,14 +180,31 @@ const createTable = async (
   log.info(`Created table: ${entity.name}`);
 };
 
+/**
+ * Creates the entity tables, or migrates existing ones. With `initializeDb`,
+ * the tables are dropped and recreated, unless a previous run was interrupted
+ * during its initial sync: its tables and sync cursors are then kept so the
+ * sync resumes, and the next start after it completed reinitialises.
+ *
+ * @returns Names of the entities whose data must be (re-)synced
+ */
 const createDb = async (context: AppContext, productionMode: boolean, initializeDb: boolean): Promise<string[]> => {
-  const { schema, dbContext: { db } } = context;
+  const { schema, dbContext: { db }, config } = context;
+  const allowDestructiveMigrations = config.app.allowDestructiveMigrations ?? false;
 
   const schemaEntities = Array.from(schema.entities.keys());
   let entities: string[];
+  let migratedEntities: string[] = [];
 
   return await db.transaction(async (trx) => {
-    if (initializeDb) {
+    await ensureInternalTables(trx);
+
+    const interrupted = initializeDb ? await getIncompleteSyncs(trx) : [];
+    if (interrupted.length > 0) {
+      log.info(`Resuming the interrupted sync of ${interrupted.join(', ')} instead of reinitializing the database`);
+    }
+
+    if (initializeDb && interrupted.length === 0) {
       // Initialize mode: Drop and recreate all tables
       log.info('Initializing database: dropping and recreating all tables');
 
@@ -195,17 +215,29 @@ const createDb = async (context: AppContext, productionMode: boolean, initialize
         await trx.schema.dropTableIfExists(entityName);
       }
 
+      // Stored sync and event cursors point into the dropped data
+      await clearSyncStates(trx);
+      await clearEventCursors(trx);
+
       entities = schemaEntities;
     } else {
       log.info('Checking for new tables to create');
 
       const existingTables = await getExistingTables(trx);
       entities = schemaEntities.filter(entityName => !existingTables.includes(entityName));
+
+      // Bring existing tables in line with the configured entities
+      migratedEntities = await migrateTables(
+        trx,
+        schema,
+        schemaEntities.filter(entityName => existingTables.includes(entityName)),
+        allowDestructiveMigrations
+      );
     }
 
     if (entities.length === 0) {
       log.info('No new tables to create');
-      return [];
+      return schemaEntities.filter(entityName => migratedEntities.includes(entityName));
     }
 
     log.info(`Creating ${entities.length} tables: ${entities.join(', ')}`);
@@ -218,7 +250,10 @@ const createDb = async (context: AppContext, productionMode: boolean, initialize
       }
     }
 
-    return entities;
+    // New and migrated tables both need a sync, in schema (dependency) order
+    return schemaEntities.filter(entityName =>
+      entities.includes(entityName) || migratedEntities.includes(entityName)
+    );
   });
 };
 
@@ -233,4 +268,12 @@ const getExistingTables = async (trx: Knex.Transaction): Promise<string[]> => {
   return result.map((row) => row.table_name);
 };
 
-export { createDb, applyNullableConstraint, createArrayColumn, createColumn };
+export {
+  createDb,
+  applyNullableConstraint,
+  createArrayColumn,
+  createColumn,
+  createForeignKeyColumn,
+  getReferencedIdColumnType,
+  getReferencedPrimaryKeyColumns
+};
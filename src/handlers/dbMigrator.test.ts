@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Entity } from '../config/types';
+import { DatabaseSchema } from '../context/schema';
+import { ExistingTable, planTableMigration } from './dbMigrator';
+
+const builder: Entity = {
+  name: 'Builder',
+  columns: [
+    { name: 'id', type: 'Bytes' },
+    { name: 'totalAllocation', type: 'BigInt' },
+    { name: 'rewardShares', type: 'BigInt' }
+  ],
+  primaryKey: ['id'],
+  subgraphProvider: 'collective-rewards'
+};
+
+const claimed: Entity = {
+  name: 'ClaimedRewardsHistory',
+  columns: [
+    { name: 'id', type: 'Bytes' },
+    { name: 'builder', type: 'Builder' },
+    { name: 'backer', type: 'Bytes', nullable: true },
+    { name: 'tags', type: ['String'] }
+  ],
+  primaryKey: ['id'],
+  subgraphProvider: 'collective-rewards'
+};
+
+const schema: DatabaseSchema = {
+  entities: new Map([
+    ['Builder', builder],
+    ['ClaimedRewardsHistory', claimed]
+  ])
+};
+
+const upToDateClaimed = (): ExistingTable => ({
+  columns: [
+    { name: 'id', sqlType: 'BYTEA', nullable: false },
+    { name: 'builder', sqlType: 'BYTEA', nullable: false },
+    { name: 'backer', sqlType: 'BYTEA', nullable: true },
+    { name: 'tags', sqlType: 'TEXT[]', nullable: false }
+  ],
+  foreignKeys: [{ columns: ['builder'], referencedTable: 'Builder' }],
+  hasRows: true
+});
+
+describe('dbMigrator planTableMigration', () => {
+  it('should plan nothing for an up to date table', () => {
+    assert.deepEqual(planTableMigration(claimed, schema, upToDateClaimed()), []);
+  });
+
+  it('should add new columns without requiring confirmation on empty tables', () => {
+    const changes = planTableMigration(builder, schema, {
+      columns: [
+        { name: 'id', sqlType: 'BYTEA', nullable: false },
+        { name: 'totalAllocation', sqlType: 'NUMERIC', nullable: false }
+      ],
+      foreignKeys: [],
+      hasRows: false
+    });
+
+    assert.equal(changes.length, 1);
+    assert.equal(changes[0].kind, 'addColumn');
+    assert.equal(changes[0].destructive, false);
+  });
+
+  it('should treat new required columns on non-empty tables as destructive', () => {
+    const changes = planTableMigration(builder, schema, {
+      columns: [
+        { name: 'id', sqlType: 'BYTEA', nullable: false },
+        { name: 'totalAllocation', sqlType: 'NUMERIC', nullable: false }
+      ],
+      foreignKeys: [],
+      hasRows: true
+    });
+
+    assert.equal(changes.length, 1);
+    assert.equal(changes[0].kind, 'addColumn');
+    assert.equal(changes[0].destructive, true);
+  });
+
+  it('should drop NOT NULL when a column becomes nullable', () => {
+    const existing = upToDateClaimed();
+    existing.columns[2].nullable = false;
+
+    assert.deepEqual(planTableMigration(claimed, schema, existing), [
+      { kind: 'dropNotNull', column: 'backer', destructive: false }
+    ]);
+  });
+
+  it('should treat setting NOT NULL and dropping columns as destructive', () => {
+    const existing = upToDateClaimed();
+    existing.columns[1].nullable = true;
+    existing.columns.push({ name: 'legacy', sqlType: 'TEXT', nullable: true });
+
+    assert.deepEqual(planTableMigration(claimed, schema, existing), [
+      { kind: 'setNotNull', column: 'builder', destructive: true },
+      { kind: 'dropColumn', column: 'legacy', destructive: true }
+    ]);
+  });
+
+  it('should only allow widening type changes without confirmation', () => {
+    const retyped = upToDateClaimed();
+    retyped.columns[3].sqlType = 'INTEGER';
+    const [unsafe] = planTableMigration(claimed, schema, retyped);
+    assert.equal(unsafe.kind, 'alterType');
+    assert.equal(unsafe.destructive, true);
+
+    const existing: ExistingTable = {
+      columns: [
+        { name: 'id', sqlType: 'BYTEA', nullable: false },
+        { name: 'totalAllocation', sqlType: 'INTEGER', nullable: false },
+        { name: 'rewardShares', sqlType: 'NUMERIC', nullable: false }
+      ],
+      foreignKeys: [],
+      hasRows: true
+    };
+    assert.deepEqual(planTableMigration(builder, schema, existing), [
+      { kind: 'alterType', column: 'totalAllocation', from: 'INTEGER', to: 'NUMERIC', destructive: false }
+    ]);
+  });
+
+  it('should add missing foreign keys on existing columns', () => {
+    const existing = upToDateClaimed();
+    existing.foreignKeys = [];
+
+    assert.deepEqual(planTableMigration(claimed, schema, existing), [{
+      kind: 'addForeignKey',
+      foreignKey: { columns: ['builder'], referencedTable: 'Builder', referencedColumns: ['id'] },
+      destructive: false
+    }]);
+  });
+
+  it('should add a new reference column with its foreign key in one change', () => {
+    const existing = upToDateClaimed();
+    existing.columns.splice(1, 1);
+    existing.foreignKeys = [];
+    existing.hasRows = false;
+
+    const changes = planTableMigration(claimed, schema, existing);
+
+    assert.equal(changes.length, 1);
+    assert.equal(changes[0].kind, 'addColumn');
+  });
+});
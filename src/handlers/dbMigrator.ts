@@ -0,0 +1,423 @@
+import { Knex } from 'knex';
+import log from 'loglevel';
+import { Column, Entity } from '../config/types';
+import { DatabaseSchema } from '../context/schema';
+import {
+  createArrayColumn,
+  createColumn,
+  createForeignKeyColumn,
+  getReferencedIdColumnType,
+  getReferencedPrimaryKeyColumns
+} from './dbCreator';
+import { SCHEMA_MIGRATION_TABLE } from './internalTables';
+import { clearEventCursors } from './syncState';
+import { ColumnType, columnTypeConfigs, isArrayColumnType, isColumnType } from './types';
+
+/**
+ * A database column as the entity configuration expects it to be.
+ * Composite references expand to one column per referenced key.
+ */
+interface ExpectedColumn {
+  name: string;
+  sqlType: string;
+  nullable: boolean;
+  source: Column;
+}
+
+interface ExpectedForeignKey {
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+/**
+ * A column as it currently exists in the database (from information_schema)
+ */
+interface ExistingColumn {
+  name: string;
+  sqlType: string;
+  nullable: boolean;
+}
+
+interface ExistingForeignKey {
+  columns: string[];
+  referencedTable: string;
+}
+
+interface ExistingTable {
+  columns: ExistingColumn[];
+  foreignKeys: ExistingForeignKey[];
+  hasRows: boolean;
+}
+
+type MigrationChange =
+  | { kind: 'addColumn'; column: Column; destructive: boolean; reason?: string }
+  | { kind: 'alterType'; column: string; from: string; to: string; destructive: boolean }
+  | { kind: 'dropNotNull'; column: string; destructive: false }
+  | { kind: 'setNotNull'; column: string; destructive: true }
+  | { kind: 'dropColumn'; column: string; destructive: true }
+  | { kind: 'addForeignKey'; foreignKey: ExpectedForeignKey; destructive: false };
+
+interface TableMigration {
+  entity: string;
+  changes: MigrationChange[];
+}
+
+/**
+ * Thrown when the configured entities require destructive changes and
+ * `app.allowDestructiveMigrations` is not enabled.
+ */
+class DestructiveMigrationError extends Error {
+  readonly migrations: TableMigration[];
+
+  constructor(migrations: TableMigration[]) {
+    super(`Refusing destructive schema changes (set app.allowDestructiveMigrations to apply them):\n${
+      migrations.flatMap(({ entity, changes }) =>
+        changes.map(change => `  - ${entity}: ${describeChange(change)}`)
+      ).join('\n')
+    }`);
+    this.name = 'DestructiveMigrationError';
+    this.migrations = migrations;
+  }
+}
+
+/**
+ * Type changes that never lose data and can be applied without confirmation
+ */
+const SAFE_TYPE_CHANGES: Record<string, string[]> = {
+  INTEGER: ['NUMERIC', 'TEXT'],
+  BOOLEAN: ['TEXT'],
+  NUMERIC: ['TEXT'],
+};
+
+/** Maps information_schema udt names back to the SQL types used by columnTypeConfigs */
+const UDT_SQL_TYPES: Record<string, string> = {
+  bool: 'BOOLEAN',
+  numeric: 'NUMERIC',
+  bytea: 'BYTEA',
+  text: 'TEXT',
+  int4: 'INTEGER',
+};
+
+const udtToSqlType = (udtName: string): string => udtName.startsWith('_')
+  ? `${UDT_SQL_TYPES[udtName.slice(1)] ?? udtName.slice(1).toUpperCase()}[]`
+  : UDT_SQL_TYPES[udtName] ?? udtName.toUpperCase();
+
+const describeChange = (change: MigrationChange): string => {
+  switch (change.kind) {
+  case 'addColumn':
+    return `add column '${change.column.name}'${change.reason ? ` (${change.reason})` : ''}`;
+  case 'alterType':
+    return `change type of '${change.column}' from ${change.from} to ${change.to}`;
+  case 'dropNotNull':
+    return `make '${change.column}' nullable`;
+  case 'setNotNull':
+    return `make '${change.column}' not nullable`;
+  case 'dropColumn':
+    return `drop column '${change.column}'`;
+  case 'addForeignKey':
+    return `add foreign key (${change.foreignKey.columns.join(', ')}) referencing ${change.foreignKey.referencedTable}`;
+  }
+};
+
+/**
+ * Expands the configured columns of an entity into the database columns and
+ * foreign keys createTable would produce for it.
+ */
+const getExpectedSchema = (
+  entity: Entity,
+  schema: DatabaseSchema
+): { columns: ExpectedColumn[]; foreignKeys: ExpectedForeignKey[] } => {
+  const columns: ExpectedColumn[] = [];
+  const foreignKeys: ExpectedForeignKey[] = [];
+
+  for (const column of entity.columns) {
+    const nullable = column.nullable === true;
+
+    if (isArrayColumnType(column.type)) {
+      columns.push({ name: column.name, sqlType: `${columnTypeConfigs[column.type[0]].sqlType}[]`, nullable, source: column });
+    } else if (schema.entities.has(column.type)) {
+      const referencedTable = column.type;
+      const referencedColumns = getReferencedPrimaryKeyColumns(schema, referencedTable as ColumnType);
+      const referencedTypes = getReferencedIdColumnType(schema, referencedTable as ColumnType);
+      const names = referencedColumns.length === 1
+        ? [column.name]
+        : referencedColumns.map(key => `${column.name}_${key}`);
+
+      names.forEach((name, i) => columns.push({
+        name,
+        sqlType: columnTypeConfigs[referencedTypes[i]].sqlType,
+        nullable,
+        source: column
+      }));
+      foreignKeys.push({ columns: names, referencedTable, referencedColumns });
+    } else if (isColumnType(column.type)) {
+      columns.push({ name: column.name, sqlType: columnTypeConfigs[column.type].sqlType, nullable, source: column });
+    }
+  }
+
+  return { columns, foreignKeys };
+};
+
+const sameColumns = (a: string[], b: string[]): boolean =>
+  a.length === b.length && [...a].sort().every((name, i) => name === [...b].sort()[i]);
+
+/**
+ * Compares an entity definition with the existing table and lists the
+ * changes needed to bring the table in line with the configuration.
+ */
+const planTableMigration = (
+  entity: Entity,
+  schema: DatabaseSchema,
+  existing: ExistingTable
+): MigrationChange[] => {
+  const expected = getExpectedSchema(entity, schema);
+  const existingColumns = new Map(existing.columns.map(column => [column.name, column]));
+  const expectedNames = new Set(expected.columns.map(column => column.name));
+  const changes: MigrationChange[] = [];
+  const addedSources = new Set<Column>();
+
+  for (const column of expected.columns) {
+    const current = existingColumns.get(column.name);
+
+    if (!current) {
+      if (addedSources.has(column.source)) {
+        continue; // other half of a composite reference already being added
+      }
+      addedSources.add(column.source);
+      const needsBackfill = !column.nullable && existing.hasRows;
+      changes.push({
+        kind: 'addColumn',
+        column: column.source,
+        destructive: needsBackfill,
+        ...(needsBackfill ? { reason: 'not nullable on a non-empty table, existing rows will be removed and re-synced' } : {})
+      });
+      continue;
+    }
+
+    if (current.sqlType !== column.sqlType) {
+      changes.push({
+        kind: 'alterType',
+        column: column.name,
+        from: current.sqlType,
+        to: column.sqlType,
+        destructive: !(SAFE_TYPE_CHANGES[current.sqlType] ?? []).includes(column.sqlType)
+      });
+    }
+
+    if (current.nullable && !column.nullable) {
+      changes.push({ kind: 'setNotNull', column: column.name, destructive: true });
+    } else if (!current.nullable && column.nullable) {
+      changes.push({ kind: 'dropNotNull', column: column.name, destructive: false });
+    }
+  }
+
+  for (const foreignKey of expected.foreignKeys) {
+    const isNewColumn = foreignKey.columns.every(name => !existingColumns.has(name));
+    const exists = existing.foreignKeys.some(current =>
+      current.referencedTable === foreignKey.referencedTable && sameColumns(current.columns, foreignKey.columns)
+    );
+    if (!isNewColumn && !exists) {
+      changes.push({ kind: 'addForeignKey', foreignKey, destructive: false });
+    }
+  }
+
+  for (const column of existing.columns) {
+    if (!expectedNames.has(column.name)) {
+      changes.push({ kind: 'dropColumn', column: column.name, destructive: true });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Reads the current columns, foreign keys and emptiness of a table
+ */
+const getExistingTable = async (trx: Knex.Transaction, tableName: string): Promise<ExistingTable> => {
+  const columns = await trx<{ column_name: string; udt_name: string; is_nullable: string }>('information_schema.columns')
+    .select('column_name', 'udt_name', 'is_nullable')
+    .whereRaw('table_schema = current_schema() AND table_name = ?', [tableName])
+    .orderBy('ordinal_position');
+
+  const foreignKeyRows = await trx.raw<{ rows: { constraint_name: string; column_name: string; referenced_table: string }[] }>(`
+    SELECT tc.constraint_name, kcu.column_name, ccu.table_name AS referenced_table
+    FROM information_schema.table_constraints tc
+    JOIN information_schema.key_column_usage kcu
+      ON kcu.constraint_name = tc.constraint_name AND kcu.table_schema = tc.table_schema
+    JOIN information_schema.constraint_column_usage ccu
+      ON ccu.constraint_name = tc.constraint_name AND ccu.table_schema = tc.table_schema
+    WHERE tc.constraint_type = 'FOREIGN KEY'
+      AND tc.table_schema = current_schema()
+      AND tc.table_name = ?
+  `, [tableName]);
+
+  const foreignKeys = new Map<string, ExistingForeignKey>();
+  for (const row of foreignKeyRows.rows) {
+    const foreignKey = foreignKeys.get(row.constraint_name) ?? { columns: [], referencedTable: row.referenced_table };
+    if (!foreignKey.columns.includes(row.column_name)) {
+      foreignKey.columns.push(row.column_name);
+    }
+    foreignKeys.set(row.constraint_name, foreignKey);
+  }
+
+  const firstRow = await trx(tableName).select(trx.raw('1')).first();
+
+  return {
+    columns: columns.map(column => ({
+      name: column.column_name,
+      sqlType: udtToSqlType(column.udt_name),
+      nullable: column.is_nullable === 'YES'
+    })),
+    foreignKeys: [...foreignKeys.values()],
+    hasRows: firstRow !== undefined
+  };
+};
+
+/**
+ * Builds the ALTER TABLE statement for a single change
+ */
+const buildAlterTable = (
+  trx: Knex.Transaction,
+  tableName: string,
+  change: MigrationChange,
+  schema: DatabaseSchema
+): Knex.SchemaBuilder => trx.schema.alterTable(tableName, (table) => {
+  switch (change.kind) {
+  case 'addColumn': {
+    const { column } = change;
+    if (isArrayColumnType(column.type)) {
+      createArrayColumn(table, column);
+    } else if (schema.entities.has(column.type)) {
+      createForeignKeyColumn(table, column, column.type as ColumnType, schema);
+    } else {
+      createColumn(table, column.name, column.type as ColumnType, column.nullable);
+    }
+    break;
+  }
+  case 'alterType':
+    table.specificType(change.column, change.to).alter({ alterNullable: false });
+    break;
+  case 'dropNotNull':
+    table.setNullable(change.column);
+    break;
+  case 'setNotNull':
+    table.dropNullable(change.column);
+    break;
+  case 'dropColumn':
+    table.dropColumn(change.column);
+    break;
+  case 'addForeignKey':
+    table
+      .foreign(change.foreignKey.columns)
+      .references(change.foreignKey.referencedColumns)
+      .inTable(change.foreignKey.referencedTable)
+      .onDelete('CASCADE');
+    break;
+  }
+});
+
+/**
+ * Applies a change and records it in the migration bookkeeping table
+ */
+const applyChange = async (
+  trx: Knex.Transaction,
+  entity: string,
+  change: MigrationChange,
+  schema: DatabaseSchema
+): Promise<void> => {
+  const builder = buildAlterTable(trx, entity, change, schema);
+  const statement = builder.toString();
+
+  await builder;
+  await trx(SCHEMA_MIGRATION_TABLE).insert({ entity, change: describeChange(change), statement });
+
+  log.info(`Migrated ${entity}: ${describeChange(change)}`);
+};
+
+/**
+ * Lists entities that (transitively) reference the given entity. Their rows
+ * are removed by ON DELETE CASCADE when the entity's rows are removed.
+ */
+const getDependentEntities = (schema: DatabaseSchema, entityName: string): string[] => {
+  const dependents = new Set<string>();
+  const pending = [entityName];
+
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+    for (const entity of schema.entities.values()) {
+      const references = entity.columns.some(column => column.type === current);
+      if (references && !dependents.has(entity.name) && entity.name !== entityName) {
+        dependents.add(entity.name);
+        pending.push(entity.name);
+      }
+    }
+  }
+
+  return [...dependents];
+};
+
+/**
+ * Brings existing entity tables in line with the configured entities.
+ *
+ * Non-destructive changes (new nullable columns, widening type changes,
+ * dropping NOT NULL, new foreign keys) are always applied. Destructive ones
+ * are refused with a DestructiveMigrationError unless `allowDestructive` is set.
+ *
+ * @returns Names of the entities whose data must be re-synced
+ */
+const migrateTables = async (
+  trx: Knex.Transaction,
+  schema: DatabaseSchema,
+  tableNames: string[],
+  allowDestructive: boolean
+): Promise<string[]> => {
+  const migrations: TableMigration[] = [];
+
+  for (const tableName of tableNames) {
+    const entity = schema.entities.get(tableName);
+    if (!entity) {
+      continue;
+    }
+    const changes = planTableMigration(entity, schema, await getExistingTable(trx, tableName));
+    if (changes.length > 0) {
+      migrations.push({ entity: tableName, changes });
+    }
+  }
+
+  if (migrations.length === 0) {
+    log.info('No schema migrations needed');
+    return [];
+  }
+
+  const destructive = migrations
+    .map(({ entity, changes }) => ({ entity, changes: changes.filter(change => change.destructive) }))
+    .filter(({ changes }) => changes.length > 0);
+
+  if (destructive.length > 0 && !allowDestructive) {
+    throw new DestructiveMigrationError(destructive);
+  }
+
+  const resync = new Set<string>();
+
+  for (const { entity, changes } of migrations) {
+    for (const change of changes) {
+      if (change.kind === 'addColumn' && change.destructive) {
+        log.warn(`Removing existing rows of ${entity} (and dependent entities) to add '${change.column.name}'`);
+        await trx(entity).delete();
+        const dependents = getDependentEntities(schema, entity);
+        await clearEventCursors(trx, [entity, ...dependents]);
+        dependents.forEach(name => resync.add(name));
+      }
+      await applyChange(trx, entity, change, schema);
+    }
+    if (changes.some(change => change.kind === 'addColumn' || change.kind === 'alterType')) {
+      resync.add(entity);
+    }
+  }
+
+  return [...resync];
+};
+
+export { DestructiveMigrationError, migrateTables, planTableMigration };
+export type { ExistingTable, MigrationChange, TableMigration };
@@ -1,6 +1,7 @@
 import { Column, Entity } from '../config/types';
 import { DatabaseContext } from '../context/db';
 import { DatabaseSchema } from '../context/schema';
+import { getMetrics } from '../metrics/metrics';
 
 type DatabaseRecord = Record<string, unknown>;
 
@@ -81,6 +82,7 @@ const executeUpsert = async (
       maxRetries,
       initialRetryDelay
     );
+    getMetrics().rowsUpserted.inc({ entity: tableName }, filteredBatch.length);
   }
 };
 
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import log from 'loglevel';
+import { PublicClient } from 'viem';
+import { Entity } from '../config/types';
+import { AppContext } from '../context/types';
+import { createMockConfig } from '../test-helpers/mockConfig';
+import { indexEventEntity, rewindEventEntities } from './eventIndexer';
+
+const gaugeA = '0x00000000000000000000000000000000000000aa';
+const gaugeB = '0x00000000000000000000000000000000000000bb';
+
+const rewardNotified: Entity = {
+  name: 'RewardNotified',
+  primaryKey: ['transactionHash', 'logIndex'],
+  source: 'events',
+  blockColumn: 'blockNumber',
+  columns: [
+    { name: 'transactionHash', type: 'Bytes' },
+    { name: 'logIndex', type: 'Integer' },
+    { name: 'gauge', type: 'Bytes' },
+    { name: 'amount', type: 'BigInt' },
+    { name: 'blockNumber', type: 'BigInt' }
+  ],
+  eventIndex: {
+    abi: 'Gauge',
+    event: 'NotifyReward',
+    addressesFrom: { entity: 'Builder', column: 'gauge' },
+    fields: {
+      transactionHash: '{transactionHash}',
+      logIndex: '{logIndex}',
+      gauge: '{address}',
+      amount: 'backersAmount_',
+      blockNumber: '{blockNumber}'
+    },
+    startBlock: 100,
+    blockRange: 50
+  }
+};
+
+/**
+ * Knex stand-in with a Builder table of gauges and an EventCursor table,
+ * recording writes in order
+ */
+const createDb = (cursors: { entityName: string; address: string; lastBlock: string }[]) => {
+  const writes: unknown[][] = [];
+  const db = Object.assign((table: string) => ({
+    distinct: () => ({ whereNotNull: async () => [{ gauge: gaugeA.toUpperCase().replace('0X', '0x') }, { gauge: gaugeB }] }),
+    where: (...conditions: unknown[]) => {
+      const query = {
+        select: async () => cursors,
+        update: async (values: { lastBlock: string }) => {
+          writes.push(['update', table, ...conditions, values.lastBlock]);
+        },
+        delete: async () => {
+          writes.push(['delete', table]);
+          return 3;
+        }
+      };
+      return query;
+    },
+    insert: (rows: Record<string, unknown>[]) => ({
+      onConflict: () => ({
+        merge: async () => {
+          writes.push(['upsert', table, rows.map(row => table === 'EventCursor' ? `${row.address}@${row.lastBlock}` : row)]);
+        }
+      })
+    })
+  }), { fn: { now: () => 'now()' } });
+  return { db, writes };
+};
+
+describe('eventIndexer', () => {
+  let context: AppContext;
+  let writes: unknown[][];
+
+  beforeEach(() => {
+    log.setLevel('silent');
+    const recording = createDb([{ entityName: 'RewardNotified', address: gaugeA, lastBlock: '150' }]);
+    writes = recording.writes;
+    context = {
+      config: createMockConfig({ entities: [rewardNotified] }),
+      schema: { entities: new Map([['RewardNotified', rewardNotified]]) },
+      dbContext: { db: recording.db, schema: 'public', batchSize: 100, maxRetries: 0, initialRetryDelay: 1 }
+    } as unknown as AppContext;
+  });
+
+  it('should index each emitter from its cursor, in block ranges, and map logs to rows', async () => {
+    const getLogs = mock.fn(async ({ fromBlock }: { fromBlock: bigint }) => fromBlock === 151n
+      ? [{
+        address: gaugeA,
+        blockNumber: 160n,
+        transactionHash: '0xABC',
+        logIndex: 2,
+        args: { rewardToken_: '0x01', builderAmount_: 1n, backersAmount_: 3n }
+      }]
+      : []);
+
+    const indexed = await indexEventEntity(context, { getLogs } as unknown as PublicClient, rewardNotified, 180n);
+
+    assert.equal(indexed, 1);
+    assert.deepEqual(
+      getLogs.mock.calls.map(({ arguments: [{ address, fromBlock, toBlock }] }) => [address, fromBlock, toBlock] as unknown),
+      [[[gaugeA], 151n, 180n], [[gaugeB], 100n, 149n], [[gaugeB], 150n, 180n]]
+    );
+    assert.deepEqual(writes, [
+      ['upsert', 'RewardNotified', [{ transactionHash: '0xabc', logIndex: 2, gauge: gaugeA, amount: '3', blockNumber: '160' }]],
+      ['upsert', 'EventCursor', [`${gaugeA}@180`]],
+      ['upsert', 'EventCursor', [`${gaugeB}@149`]],
+      ['upsert', 'EventCursor', [`${gaugeB}@180`]]
+    ]);
+  });
+
+  it('should delete logs after the fork point and move cursors back', async () => {
+    await rewindEventEntities(context, 155n);
+
+    assert.deepEqual(writes, [
+      ['delete', 'RewardNotified'],
+      ['update', 'EventCursor', 'lastBlock', '>', '155', '155']
+    ]);
+  });
+});
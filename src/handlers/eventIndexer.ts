@@ -0,0 +1,171 @@
+import { Knex } from 'knex';
+import log from 'loglevel';
+import { AbiEvent, Address, Log, PublicClient } from 'viem';
+
+import { Entity, EventIndex } from '../config/types';
+import { AppContext } from '../context/types';
+import { findAbi, findEvent } from './abi';
+import { toColumnValue } from './contractReader';
+import { executeUpsert } from './dbUpsert';
+import { EVENT_CURSOR_TABLE } from './internalTables';
+
+type EventRecord = Record<string, unknown>;
+
+const DEFAULT_BLOCK_RANGE = 1000;
+
+/** Log fields available to `fields`, besides the event arguments */
+const LOG_FIELDS = ['blockNumber', 'blockHash', 'transactionHash', 'logIndex', 'address'] as const;
+
+/** "{field}" placeholder standing for a field of the log */
+const LOG_PLACEHOLDER = /^\{(\w+)\}$/;
+
+const getEvent = (entity: Entity, index: EventIndex): AbiEvent => {
+  const abiName = index.abi ?? index.contract ?? '';
+  const abi = findAbi(abiName);
+  const event = abi && findEvent(abi, index.event);
+  if (!event) {
+    throw new Error(`${entity.name}: ${abiName} has no event '${index.event}'`);
+  }
+  return event;
+};
+
+/**
+ * Emitters of the event: the configured contract, or the distinct values of
+ * the `addressesFrom` column, lowercased
+ */
+const getEmitters = async (context: AppContext, index: EventIndex): Promise<string[]> => {
+  if (index.addressesFrom) {
+    const { entity, column } = index.addressesFrom;
+    const rows: Record<string, string | null>[] = await context.dbContext.db(entity).distinct(column).whereNotNull(column);
+    return [...new Set(rows.map(row => String(row[column]).toLowerCase()))];
+  }
+  const address = context.config.contracts?.find(({ name }) => name === index.contract)?.address;
+  return address ? [address.toLowerCase()] : [];
+};
+
+/**
+ * Loads the last indexed block of each emitter of an entity. Bigint columns
+ * arrive as strings.
+ */
+const getCursors = async (db: Knex, entityName: string): Promise<Map<string, bigint>> => {
+  const rows = await db(EVENT_CURSOR_TABLE).where({ entityName }).select('address', 'lastBlock');
+  return new Map(rows.map(({ address, lastBlock }) => [address, BigInt(lastBlock)]));
+};
+
+const saveCursors = async (db: Knex, entityName: string, addresses: string[], lastBlock: bigint): Promise<void> => {
+  await db(EVENT_CURSOR_TABLE)
+    .insert(addresses.map(address => ({ entityName, address, lastBlock: lastBlock.toString(), updatedAt: db.fn.now() })))
+    .onConflict(['entityName', 'address'])
+    .merge(['lastBlock', 'updatedAt']);
+};
+
+/**
+ * Maps a decoded log to a row through the entity's `fields`
+ */
+const toRecord = (entity: Entity, fields: Record<string, string>, eventLog: Log): EventRecord => {
+  const args = (eventLog as Log & { args?: Record<string, unknown> }).args ?? {};
+  const columns = new Map(entity.columns.map(column => [column.name, column]));
+
+  return Object.fromEntries(Object.entries(fields).map(([column, field]) => {
+    const logField = LOG_PLACEHOLDER.exec(field)?.[1];
+    const value = logField === undefined ? args[field] : eventLog[logField as typeof LOG_FIELDS[number]];
+    return [column, toColumnValue(value, columns.get(column))];
+  }));
+};
+
+/**
+ * Indexes the logs of an `events` entity up to `toBlock`, in `blockRange`
+ * requests. Emitters sharing a cursor are requested together, and cursors
+ * move after each range is stored, so an interrupted run resumes where it
+ * stopped. Returns the number of rows stored.
+ */
+const indexEventEntity = async (
+  context: AppContext,
+  client: PublicClient,
+  entity: Entity,
+  toBlock: bigint
+): Promise<number> => {
+  const index = entity.eventIndex as EventIndex;
+  const event = getEvent(entity, index);
+  const { db } = context.dbContext;
+  const blockRange = BigInt(index.blockRange ?? DEFAULT_BLOCK_RANGE);
+  const startBlock = BigInt(index.startBlock ?? 0);
+
+  const cursors = await getCursors(db, entity.name);
+  const emittersByStart = new Map<bigint, string[]>();
+  for (const address of await getEmitters(context, index)) {
+    const cursor = cursors.get(address);
+    const fromBlock = cursor === undefined ? startBlock : cursor + 1n;
+    if (fromBlock <= toBlock) {
+      emittersByStart.set(fromBlock, [...(emittersByStart.get(fromBlock) ?? []), address]);
+    }
+  }
+
+  let total = 0;
+  for (const [start, addresses] of emittersByStart) {
+    for (let fromBlock = start; fromBlock <= toBlock; fromBlock += blockRange) {
+      const rangeEnd = fromBlock + blockRange - 1n < toBlock ? fromBlock + blockRange - 1n : toBlock;
+      const logs = await client.getLogs({
+        address: addresses as Address[],
+        event,
+        fromBlock,
+        toBlock: rangeEnd,
+        strict: true
+      });
+
+      const records = logs.map(eventLog => toRecord(entity, index.fields, eventLog as Log));
+      await executeUpsert(context.dbContext, entity.name, records, context.schema);
+      await saveCursors(db, entity.name, addresses, rangeEnd);
+      total += records.length;
+      log.debug(`[eventIndexer:indexEventEntity] ${entity.name}: ${records.length} ${index.event} logs in blocks ${fromBlock}-${rangeEnd}`);
+    }
+  }
+
+  if (total > 0) {
+    log.info(`[eventIndexer:indexEventEntity] ${entity.name}: ${total} ${index.event} logs up to block ${toBlock}`);
+  }
+  return total;
+};
+
+/**
+ * Indexes the given `events` entities up to `toBlock`, in schema order.
+ * Other entities are ignored. Returns the number of rows stored per entity.
+ */
+const indexEventEntities = async (
+  context: AppContext,
+  client: PublicClient,
+  entityNames: string[],
+  toBlock: bigint
+): Promise<Record<string, number>> => {
+  const counts: Record<string, number> = {};
+  for (const entity of context.schema.entities.values()) {
+    if (entity.source === 'events' && entityNames.includes(entity.name)) {
+      counts[entity.name] = await indexEventEntity(context, client, entity, toBlock);
+    }
+  }
+  return counts;
+};
+
+/**
+ * Forgets the logs of every `events` entity after `forkBlock`: rows past it
+ * by their `blockColumn` are deleted and every cursor (gauge discovery's
+ * included) is moved back to it, so the next run indexes the canonical
+ * chain's logs.
+ */
+const rewindEventEntities = async (context: AppContext, forkBlock: bigint): Promise<void> => {
+  const { db } = context.dbContext;
+  for (const entity of context.schema.entities.values()) {
+    if (entity.source !== 'events') {
+      continue;
+    }
+    const deleted = entity.blockColumn
+      ? await db(entity.name).where(entity.blockColumn, '>', forkBlock.toString()).delete()
+      : 0;
+    log.info(`[eventIndexer:rewindEventEntities] ${entity.name}: ${deleted} rows after block ${forkBlock} deleted`);
+  }
+  await db(EVENT_CURSOR_TABLE)
+    .where('lastBlock', '>', forkBlock.toString())
+    .update({ lastBlock: forkBlock.toString(), updatedAt: db.fn.now() });
+};
+
+export { getCursors, indexEventEntities, indexEventEntity, LOG_FIELDS, rewindEventEntities, saveCursors };
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import log from 'loglevel';
+import { Registry } from 'prom-client';
+import { PublicClient } from 'viem';
+import { AppContext } from '../context/types';
+import { Metrics, useMetricsRegistry } from '../metrics/metrics';
+import { createMockConfig } from '../test-helpers/mockConfig';
+import { refreshGaugeRegistry, syncGaugeRegistry } from './gaugeDiscovery';
+
+const registry = '0x0000000000000000000000000000000000000007';
+const gaugeA = '0x00000000000000000000000000000000000000aa';
+const gaugeB = '0x00000000000000000000000000000000000000bb';
+const gaugeC = '0x00000000000000000000000000000000000000cc';
+const builder1 = '0x0000000000000000000000000000000000000001';
+const builder2 = '0x0000000000000000000000000000000000000002';
+
+/**
+ * Multicall stand-in for a BuilderRegistry with gauge A of builder 1 active
+ * and gauge B of builder 2 halted
+ */
+const createClient = (getLogs = mock.fn(async () => [] as unknown[])) => {
+  const results: Record<string, (args: readonly unknown[]) => unknown> = {
+    getGaugesLength: () => 1n,
+    getHaltedGaugesLength: () => 1n,
+    getGaugeAt: () => gaugeA.toUpperCase().replace('0X', '0x'),
+    getHaltedGaugeAt: () => gaugeB,
+    gaugeToBuilder: ([gauge]) => (gauge === gaugeA ? builder1 : builder2)
+  };
+  const multicall = mock.fn(async ({ contracts }: { contracts: { functionName: string; args?: readonly unknown[] }[] }) =>
+    contracts.map(({ functionName, args = [] }) => results[functionName](args)));
+  return { client: { multicall, getLogs } as unknown as PublicClient, multicall, getLogs };
+};
+
+describe('gaugeDiscovery', () => {
+  let context: AppContext;
+  let writes: unknown[][];
+  let cursors: { entityName: string; address: string; lastBlock: string }[];
+  let metrics: Metrics;
+
+  beforeEach(() => {
+    log.setLevel('silent');
+    metrics = useMetricsRegistry(new Registry());
+    writes = [];
+    cursors = [];
+    // Bytes columns come back from pg as Buffers
+    const gaugeToBuilder = [[gaugeA, builder1], [gaugeB, builder1], [gaugeC, builder2]]
+      .map(([id, builder]) => ({ id: Buffer.from(id), builder: Buffer.from(builder) }));
+    const db = Object.assign((table: string) => ({
+      select: async () => (table === 'GaugeToBuilder' ? gaugeToBuilder : []),
+      where: () => ({ select: async () => cursors }),
+      first: async () => ({ address: gaugeA }),
+      whereNotIn: (_column: string, addresses: string[]) => ({
+        delete: async () => {
+          writes.push(['deleteExcept', table, addresses]);
+        }
+      }),
+      insert: (rows: Record<string, unknown>[]) => ({
+        onConflict: () => ({
+          merge: async () => {
+            writes.push(['upsert', table, rows.map(row => Object.fromEntries(Object.entries(row).filter(([column]) => column !== 'updatedAt')))]);
+          }
+        })
+      })
+    }), { fn: { now: () => 'now()' } });
+    context = {
+      config: createMockConfig({ contracts: [{ name: 'BuilderRegistry', address: registry }] }),
+      schema: { entities: new Map([['GaugeToBuilder', { name: 'GaugeToBuilder', columns: [], primaryKey: ['id'] }]]) },
+      dbContext: { db, schema: 'public', batchSize: 100, maxRetries: 0, initialRetryDelay: 1 }
+    } as unknown as AppContext;
+  });
+
+  it('should enumerate active and halted gauges and flag mismatches with GaugeToBuilder', async () => {
+    const { client, multicall } = createClient();
+
+    const gauges = await refreshGaugeRegistry(context, client, 120n);
+
+    assert.deepEqual(gauges, [
+      { address: gaugeA, builder: builder1, halted: false },
+      { address: gaugeB, builder: builder2, halted: true }
+    ]);
+    assert.deepEqual(
+      multicall.mock.calls.map(({ arguments: [{ contracts }] }) => contracts.map(({ functionName }) => functionName)),
+      [['getGaugesLength', 'getHaltedGaugesLength'], ['getGaugeAt'], ['getHaltedGaugeAt'], ['gaugeToBuilder', 'gaugeToBuilder']]
+    );
+    assert.deepEqual(writes, [
+      ['upsert', 'Gauge', [
+        { address: gaugeA, builder: builder1, halted: false, mismatch: null, blockNumber: '120' },
+        { address: gaugeB, builder: builder2, halted: true, mismatch: `subgraph maps it to builder ${builder1}`, blockNumber: '120' }
+      ]],
+      ['deleteExcept', 'Gauge', [gaugeA, gaugeB]]
+    ]);
+    // Gauge B's builder, and gauge C missing from the registry
+    assert.equal((await metrics.gaugeRegistryMismatches.get()).values[0].value, 2);
+  });
+
+  it('should refresh only when GaugeCreated was emitted since the cursor', async () => {
+    cursors = [{ entityName: 'Gauge', address: registry, lastBlock: '100' }];
+    const quiet = createClient();
+
+    assert.equal(await syncGaugeRegistry(context, quiet.client, 120n), false);
+    assert.equal(quiet.multicall.mock.callCount(), 0);
+    const [{ arguments: [{ fromBlock, toBlock }] }] = quiet.getLogs.mock.calls as unknown as { arguments: [{ fromBlock: bigint; toBlock: bigint }] }[];
+    assert.deepEqual([fromBlock, toBlock], [101n, 120n]);
+
+    const created = createClient(mock.fn(async () => [{ args: { builder_: builder1, gauge_: gaugeA } }] as unknown[]));
+
+    assert.equal(await syncGaugeRegistry(context, created.client, 120n), true);
+    assert.equal(created.multicall.mock.callCount(), 4);
+    assert.equal(writes.filter(([kind, table]) => kind === 'upsert' && table === 'EventCursor').length, 2);
+  });
+});
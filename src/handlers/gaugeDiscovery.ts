@@ -0,0 +1,212 @@
+import log from 'loglevel';
+import { AbiEvent, Address, PublicClient } from 'viem';
+
+import { BuilderRegistryAbi } from '../abis/BuilderRegistryAbi';
+import { AppContext } from '../context/types';
+import { getMetrics } from '../metrics/metrics';
+import { findEvent } from './abi';
+import { CONTRACT_NAMES, getContractAddress } from './contracts';
+import { getCursors, saveCursors } from './eventIndexer';
+import { GAUGE_TABLE } from './internalTables';
+import { fromStoredValue } from './types';
+
+/**
+ * A gauge of the BuilderRegistry and the builder it belongs to
+ */
+interface DiscoveredGauge {
+  address: string;
+  builder: string;
+  halted: boolean;
+}
+
+interface GaugeRow extends DiscoveredGauge {
+  /** Why the subgraph's GaugeToBuilder disagrees with the registry, null when it agrees */
+  mismatch: string | null;
+  blockNumber: string;
+}
+
+/** Widest GaugeCreated log request; longer gaps are covered by a full refresh instead */
+const MAX_LOG_RANGE = 10_000n;
+
+const GAUGE_CREATED = findEvent(BuilderRegistryAbi, 'GaugeCreated') as AbiEvent;
+
+const getRegistryAddress = (context: AppContext): Address => {
+  const address = getContractAddress(context.config, CONTRACT_NAMES.BUILDER_REGISTRY);
+  if (!address) {
+    throw new Error(`Contract '${CONTRACT_NAMES.BUILDER_REGISTRY}' is not configured`);
+  }
+  return address.toLowerCase() as Address;
+};
+
+/**
+ * Reads `count` addresses of one of the registry's gauge lists (`getGaugeAt`
+ * or `getHaltedGaugeAt`) in a single multicall
+ */
+const readGaugeList = async (
+  client: PublicClient,
+  registry: Address,
+  functionName: 'getGaugeAt' | 'getHaltedGaugeAt',
+  count: bigint,
+  blockNumber: bigint
+): Promise<string[]> => {
+  if (count === 0n) {
+    return [];
+  }
+  const gauges = await client.multicall({
+    contracts: Array.from({ length: Number(count) }, (_, index) => ({
+      address: registry,
+      abi: BuilderRegistryAbi,
+      functionName,
+      args: [BigInt(index)]
+    } as const)),
+    blockNumber,
+    allowFailure: false
+  });
+  return (gauges as string[]).map(gauge => gauge.toLowerCase());
+};
+
+/**
+ * Enumerates every gauge of the BuilderRegistry at `blockNumber`, halted
+ * ones included, with the builder `gaugeToBuilder` maps it to.
+ */
+const discoverGauges = async (client: PublicClient, registry: Address, blockNumber: bigint): Promise<DiscoveredGauge[]> => {
+  const [activeCount, haltedCount] = await client.multicall({
+    contracts: [
+      { address: registry, abi: BuilderRegistryAbi, functionName: 'getGaugesLength' },
+      { address: registry, abi: BuilderRegistryAbi, functionName: 'getHaltedGaugesLength' }
+    ],
+    blockNumber,
+    allowFailure: false
+  });
+
+  const active = await readGaugeList(client, registry, 'getGaugeAt', activeCount, blockNumber);
+  const halted = await readGaugeList(client, registry, 'getHaltedGaugeAt', haltedCount, blockNumber);
+  const gauges = [...active, ...halted];
+  if (gauges.length === 0) {
+    return [];
+  }
+
+  const builders = await client.multicall({
+    contracts: gauges.map(gauge => ({
+      address: registry,
+      abi: BuilderRegistryAbi,
+      functionName: 'gaugeToBuilder',
+      args: [gauge as Address]
+    } as const)),
+    blockNumber,
+    allowFailure: false
+  });
+
+  return gauges.map((address, index) => ({
+    address,
+    builder: (builders[index] as string).toLowerCase(),
+    halted: index >= active.length
+  }));
+};
+
+/**
+ * Compares discovered gauges to the stored rows of the subgraph's
+ * `GaugeToBuilder` entity (id: gauge, builder). Returns the mismatch of each
+ * discovered gauge, and the subgraph's gauges the registry doesn't have.
+ */
+const crossCheckGauges = async (
+  context: AppContext,
+  gauges: DiscoveredGauge[]
+): Promise<{ mismatches: Map<string, string>; unknown: string[] }> => {
+  if (!context.schema.entities.has('GaugeToBuilder')) {
+    log.debug('[gaugeDiscovery:crossCheckGauges] No GaugeToBuilder entity to cross-check against');
+    return { mismatches: new Map(), unknown: [] };
+  }
+
+  const rows: { id: unknown; builder: unknown }[] = await context.dbContext.db('GaugeToBuilder').select('id', 'builder');
+  const subgraph = new Map(rows.map(({ id, builder }) => [
+    String(fromStoredValue(id)).toLowerCase(),
+    builder ? String(fromStoredValue(builder)).toLowerCase() : null
+  ]));
+  const mismatches = new Map<string, string>();
+  for (const { address, builder } of gauges) {
+    if (!subgraph.has(address)) {
+      mismatches.set(address, 'missing from subgraph');
+    } else if (subgraph.get(address) !== builder) {
+      mismatches.set(address, `subgraph maps it to builder ${subgraph.get(address)}`);
+    }
+  }
+  const discovered = new Set(gauges.map(({ address }) => address));
+  return { mismatches, unknown: [...subgraph.keys()].filter(gauge => !discovered.has(gauge)) };
+};
+
+/**
+ * Rebuilds the Gauge registry table from the BuilderRegistry at
+ * `blockNumber` and flags every disagreement with the subgraph's
+ * `GaugeToBuilder`. Returns the discovered gauges.
+ */
+const refreshGaugeRegistry = async (context: AppContext, client: PublicClient, blockNumber: bigint): Promise<DiscoveredGauge[]> => {
+  const { db } = context.dbContext;
+  const gauges = await discoverGauges(client, getRegistryAddress(context), blockNumber);
+  const { mismatches, unknown } = await crossCheckGauges(context, gauges);
+
+  const rows: GaugeRow[] = gauges.map(gauge => ({
+    ...gauge,
+    mismatch: mismatches.get(gauge.address) ?? null,
+    blockNumber: blockNumber.toString()
+  }));
+  if (rows.length > 0) {
+    await db(GAUGE_TABLE)
+      .insert(rows.map(row => ({ ...row, updatedAt: db.fn.now() })))
+      .onConflict('address')
+      .merge();
+  }
+  await db(GAUGE_TABLE).whereNotIn('address', gauges.map(({ address }) => address)).delete();
+
+  for (const [gauge, mismatch] of mismatches) {
+    log.warn(`[gaugeDiscovery:refreshGaugeRegistry] Gauge ${gauge}: ${mismatch}`);
+  }
+  for (const gauge of unknown) {
+    log.warn(`[gaugeDiscovery:refreshGaugeRegistry] Gauge ${gauge}: in subgraph GaugeToBuilder but not in the BuilderRegistry`);
+  }
+  getMetrics().gaugeRegistryMismatches.set(mismatches.size + unknown.length);
+
+  const haltedCount = gauges.filter(({ halted }) => halted).length;
+  log.info(`[gaugeDiscovery:refreshGaugeRegistry] ${gauges.length} gauges (${haltedCount} halted) at block ${blockNumber}, ${mismatches.size + unknown.length} mismatches`);
+  return gauges;
+};
+
+/**
+ * Refreshes the Gauge registry when the BuilderRegistry emitted
+ * `GaugeCreated` since the last check, tracked in the EventCursor table. The
+ * first check, an empty registry and gaps wider than `MAX_LOG_RANGE` blocks
+ * refresh without looking at logs. Returns whether it refreshed.
+ */
+const syncGaugeRegistry = async (context: AppContext, client: PublicClient, blockNumber: bigint): Promise<boolean> => {
+  const { db } = context.dbContext;
+  const registry = getRegistryAddress(context);
+  const cursor = (await getCursors(db, GAUGE_TABLE)).get(registry);
+  if (cursor !== undefined && cursor >= blockNumber) {
+    return false;
+  }
+
+  let refresh = cursor === undefined || blockNumber - cursor > MAX_LOG_RANGE || !(await db(GAUGE_TABLE).first('address'));
+  if (!refresh && cursor !== undefined) {
+    const logs = await client.getLogs({ address: registry, event: GAUGE_CREATED, fromBlock: cursor + 1n, toBlock: blockNumber });
+    refresh = logs.length > 0;
+  }
+
+  if (refresh) {
+    await refreshGaugeRegistry(context, client, blockNumber);
+  }
+  await saveCursors(db, GAUGE_TABLE, [registry], blockNumber);
+  return refresh;
+};
+
+/**
+ * Addresses of the registry's gauges, halted ones included unless
+ * `includeHalted` is false
+ */
+const getGaugeAddresses = async (context: AppContext, includeHalted = true): Promise<string[]> => {
+  const query = context.dbContext.db(GAUGE_TABLE).select('address').orderBy('address');
+  const rows: { address: string }[] = await (includeHalted ? query : query.where({ halted: false }));
+  return rows.map(({ address }) => address);
+};
+
+export { discoverGauges, getGaugeAddresses, refreshGaugeRegistry, syncGaugeRegistry };
+export type { DiscoveredGauge };
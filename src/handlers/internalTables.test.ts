@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { Knex } from 'knex';
+import log from 'loglevel';
+import { BLOCK_HISTORY_TABLE, copyInternalTables, INTERNAL_TABLE_NAMES, RECONCILIATION_TABLE, REORG_EVENT_TABLE, SYNC_STATE_TABLE } from './internalTables';
+
+/**
+ * Knex stand-in whose tables have a serial `id` and a `value` column, recording
+ * the copies it runs with their bindings
+ */
+const createRecordingDb = () => {
+  const copies: { sql: string; bindings: string[] }[] = [];
+  const db = {
+    raw: async (sql: string, bindings: string[]) => {
+      if (sql.startsWith('SELECT column_name')) {
+        return {
+          rows: [
+            { column_name: 'id', column_default: `nextval('"${bindings[1]}_id_seq"'::regclass)` },
+            { column_name: 'value', column_default: null }
+          ]
+        };
+      }
+      copies.push({ sql, bindings });
+      return { rowCount: 1 };
+    }
+  };
+  return { db: db as unknown as Knex, copies };
+};
+
+describe('internalTables', () => {
+  describe('copyInternalTables', () => {
+    beforeEach(() => {
+      log.setLevel('silent');
+    });
+
+    it('should carry every internal table over to the rebuilt schema but the block history', async () => {
+      const { db, copies } = createRecordingDb();
+
+      await copyInternalTables(db, 'public', 'tmp_public');
+
+      const copied = copies.map(({ bindings }) => bindings[1]);
+      assert.deepEqual(copied, INTERNAL_TABLE_NAMES.filter(name => name !== BLOCK_HISTORY_TABLE));
+      assert.ok(copied.includes(SYNC_STATE_TABLE));
+      assert.ok(copied.includes(RECONCILIATION_TABLE));
+    });
+
+    it('should renumber serial ids in their original order, keeping rows already copied', async () => {
+      const { db, copies } = createRecordingDb();
+
+      await copyInternalTables(db, 'public', 'tmp_public');
+
+      const reorgEvents = copies.find(({ bindings }) => bindings[1] === REORG_EVENT_TABLE);
+      assert.deepEqual(reorgEvents, {
+        sql: 'INSERT INTO ??.?? (??) SELECT ?? FROM ??.?? ORDER BY ?? ON CONFLICT DO NOTHING',
+        bindings: ['tmp_public', REORG_EVENT_TABLE, 'value', 'value', 'public', REORG_EVENT_TABLE, 'id']
+      });
+    });
+  });
+});
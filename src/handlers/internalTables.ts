@@ -0,0 +1,192 @@
+import { Knex } from 'knex';
+import log from 'loglevel';
+
+/**
+ * Bookkeeping tables owned by the service itself (as opposed to the entity
+ * tables described in config). They are created alongside the entity tables
+ * and are never dropped by `initializeDb`.
+ */
+interface InternalTable {
+  name: string;
+  build: (table: Knex.CreateTableBuilder, db: Knex) => void;
+  /** Whether a schema rebuild starts the table empty instead of carrying its rows over */
+  resetOnRebuild?: boolean;
+}
+
+const SCHEMA_MIGRATION_TABLE = 'SchemaMigration';
+const SYNC_STATE_TABLE = 'SyncState';
+const STRATEGY_STATE_TABLE = 'StrategyState';
+const BLOCK_HISTORY_TABLE = 'BlockHistory';
+const REORG_EVENT_TABLE = 'ReorgEvent';
+const EVENT_CURSOR_TABLE = 'EventCursor';
+const RECONCILIATION_TABLE = 'Reconciliation';
+const GAUGE_TABLE = 'Gauge';
+const BACKER_REWARD_TABLE = 'BackerReward';
+
+const INTERNAL_TABLES: InternalTable[] = [
+  {
+    name: SCHEMA_MIGRATION_TABLE,
+    build: (table, db) => {
+      table.increments('id').primary();
+      table.text('entity').notNullable();
+      table.text('change').notNullable();
+      table.text('statement').notNullable();
+      table.timestamp('appliedAt', { useTz: true }).notNullable().defaultTo(db.fn.now());
+    }
+  },
+  {
+    name: SYNC_STATE_TABLE,
+    build: (table, db) => {
+      table.text('entityName').notNullable();
+      table.text('provider').notNullable();
+      table.text('lastProcessedId').nullable();
+      table.boolean('isComplete').notNullable().defaultTo(false);
+      table.bigInteger('totalProcessed').notNullable().defaultTo(0);
+      table.timestamp('updatedAt', { useTz: true }).notNullable().defaultTo(db.fn.now());
+      table.primary(['entityName', 'provider']);
+    }
+  },
+  {
+    name: STRATEGY_STATE_TABLE,
+    build: (table, db) => {
+      table.text('strategyName').primary();
+      table.bigInteger('lastRunBlock').nullable();
+      table.bigInteger('lastSuccessBlock').nullable();
+      table.text('lastError').nullable();
+      table.bigInteger('runCount').notNullable().defaultTo(0);
+      table.timestamp('updatedAt', { useTz: true }).notNullable().defaultTo(db.fn.now());
+    }
+  },
+  {
+    name: BLOCK_HISTORY_TABLE,
+    build: (table, db) => {
+      table.bigInteger('number').primary();
+      table.text('hash').notNullable();
+      table.text('parentHash').notNullable();
+      table.timestamp('recordedAt', { useTz: true }).notNullable().defaultTo(db.fn.now());
+    },
+    // The stored blocks are the orphaned ones when the schema is rebuilt
+    resetOnRebuild: true
+  },
+  {
+    name: REORG_EVENT_TABLE,
+    build: (table, db) => {
+      table.increments('id').primary();
+      table.bigInteger('commonAncestor').nullable();
+      table.bigInteger('fromBlock').notNullable();
+      table.bigInteger('toBlock').notNullable();
+      table.integer('depth').notNullable();
+      table.text('orphanedHash').notNullable();
+      table.text('mode').notNullable();
+      table.timestamp('detectedAt', { useTz: true }).notNullable().defaultTo(db.fn.now());
+    }
+  },
+  {
+    name: EVENT_CURSOR_TABLE,
+    build: (table, db) => {
+      table.text('entityName').notNullable();
+      table.text('address').notNullable();
+      table.bigInteger('lastBlock').notNullable();
+      table.timestamp('updatedAt', { useTz: true }).notNullable().defaultTo(db.fn.now());
+      table.primary(['entityName', 'address']);
+    }
+  },
+  {
+    name: RECONCILIATION_TABLE,
+    build: (table, db) => {
+      table.increments('id').primary();
+      table.text('entityName').notNullable();
+      table.text('entityId').notNullable();
+      table.text('column').notNullable();
+      table.text('subgraphValue').nullable();
+      table.text('onchainValue').nullable();
+      table.bigInteger('blockNumber').notNullable();
+      table.timestamp('detectedAt', { useTz: true }).notNullable().defaultTo(db.fn.now());
+    }
+  },
+  {
+    name: GAUGE_TABLE,
+    build: (table, db) => {
+      table.text('address').primary();
+      table.text('builder').notNullable();
+      table.boolean('halted').notNullable();
+      table.text('mismatch').nullable();
+      table.bigInteger('blockNumber').notNullable();
+      table.timestamp('updatedAt', { useTz: true }).notNullable().defaultTo(db.fn.now());
+    }
+  },
+  {
+    name: BACKER_REWARD_TABLE,
+    build: (table, db) => {
+      table.text('backer').notNullable();
+      table.text('gauge').notNullable();
+      table.text('rewardToken').notNullable();
+      table.decimal('estimated', 78, 0).notNullable();
+      table.decimal('earned', 78, 0).notNullable();
+      table.bigInteger('cycleStart').notNullable();
+      table.bigInteger('blockNumber').notNullable();
+      table.timestamp('updatedAt', { useTz: true }).notNullable().defaultTo(db.fn.now());
+      table.primary(['backer', 'gauge', 'rewardToken']);
+    }
+  }
+];
+
+const INTERNAL_TABLE_NAMES: readonly string[] = INTERNAL_TABLES.map(({ name }) => name);
+
+const isInternalTable = (name: string): boolean => INTERNAL_TABLE_NAMES.includes(name);
+
+/**
+ * Creates the internal tables that don't exist yet in the current schema.
+ */
+const ensureInternalTables = async (trx: Knex.Transaction): Promise<void> => {
+  for (const { name, build } of INTERNAL_TABLES) {
+    if (!(await trx.schema.hasTable(name))) {
+      await trx.schema.createTable(name, table => build(table, trx));
+      log.info(`Created internal table: ${name}`);
+    }
+  }
+};
+
+/**
+ * Copies the rows of the internal tables from one schema to another, before a
+ * rebuilt schema replaces the current one. Rows already in the target are
+ * kept, and serial ids are renumbered in their original order.
+ */
+const copyInternalTables = async (db: Knex, fromSchema: string, toSchema: string): Promise<void> => {
+  for (const { name, resetOnRebuild } of INTERNAL_TABLES) {
+    if (resetOnRebuild) {
+      continue;
+    }
+    const { rows } = await db.raw<{ rows: { column_name: string; column_default: string | null }[] }>(
+      'SELECT column_name, column_default FROM information_schema.columns WHERE table_schema = ? AND table_name = ? ORDER BY ordinal_position',
+      [toSchema, name]
+    );
+    const serial = rows.filter(({ column_default }) => column_default?.startsWith('nextval(')).map(({ column_name }) => column_name);
+    const columns = rows.map(({ column_name }) => column_name).filter(column => !serial.includes(column));
+    const columnList = columns.map(() => '??').join(', ');
+    const orderBy = serial.length > 0 ? ` ORDER BY ${serial.map(() => '??').join(', ')}` : '';
+
+    const { rowCount } = await db.raw<{ rowCount: number }>(
+      `INSERT INTO ??.?? (${columnList}) SELECT ${columnList} FROM ??.??${orderBy} ON CONFLICT DO NOTHING`,
+      [toSchema, name, ...columns, ...columns, fromSchema, name, ...serial]
+    );
+    log.info(`Copied ${rowCount} rows of internal table ${name} to schema ${toSchema}`);
+  }
+};
+
+export {
+  BACKER_REWARD_TABLE,
+  BLOCK_HISTORY_TABLE,
+  copyInternalTables,
+  ensureInternalTables,
+  EVENT_CURSOR_TABLE,
+  GAUGE_TABLE,
+  isInternalTable,
+  INTERNAL_TABLE_NAMES,
+  RECONCILIATION_TABLE,
+  REORG_EVENT_TABLE,
+  SCHEMA_MIGRATION_TABLE,
+  STRATEGY_STATE_TABLE,
+  SYNC_STATE_TABLE
+};
+export type { InternalTable };
@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import log from 'loglevel';
+import { Registry } from 'prom-client';
+import { PublicClient } from 'viem';
+import { Entity } from '../config/types';
+import { AppContext } from '../context/types';
+import { getCounterTotal, Metrics, useMetricsRegistry } from '../metrics/metrics';
+import { createMockConfig } from '../test-helpers/mockConfig';
+import { reconcile } from './reconciliation';
+
+const gauge = '0x00000000000000000000000000000000000000aa';
+const backersManager = '0x0000000000000000000000000000000000000005';
+
+const subgraphEntity = (name: string, columns: Entity['columns']): Entity => ({
+  name,
+  primaryKey: ['id'],
+  subgraphProvider: 'collective-rewards',
+  columns: [{ name: 'id', type: 'Bytes' }, ...columns]
+});
+
+const entities = [
+  subgraphEntity('Builder', [{ name: 'gauge', type: 'Bytes' }, { name: 'totalAllocation', type: 'BigInt' }]),
+  subgraphEntity('Backer', [{ name: 'totalAllocation', type: 'BigInt' }]),
+  subgraphEntity('BackerToBuilder', [
+    { name: 'totalAllocation', type: 'BigInt' },
+    { name: 'backer', type: 'Backer' },
+    { name: 'builder', type: 'Builder' }
+  ]),
+  subgraphEntity('Cycle', ['currentCycleStart', 'currentCycleDuration', 'previousCycleStart', 'previousCycleDuration', 'distributionDuration']
+    .map(name => ({ name, type: 'BigInt' })))
+];
+
+const subgraphRows: Record<string, unknown[]> = {
+  builders: [{ id: '0x01', gauge, totalAllocation: '100' }],
+  backers: [{ id: '0xb1', totalAllocation: '7' }],
+  backerToBuilders: [{ id: '0xb101', totalAllocation: '5', backer: { id: '0xB1' }, builder: { id: '0x01' } }],
+  cycles: [{
+    id: '0x00',
+    currentCycleStart: '1000',
+    currentCycleDuration: '604800',
+    previousCycleStart: '900',
+    previousCycleDuration: '604800',
+    distributionDuration: '3600'
+  }]
+};
+
+/**
+ * Stubs fetch with a subgraph at block 100 serving `subgraphRows` by plural
+ * entity name. Returns the batch queries it received.
+ */
+const stubSubgraph = () => {
+  const queries: string[] = [];
+  global.fetch = mock.fn(async (_url: string | URL, options?: RequestInit) => {
+    const { query } = JSON.parse(options?.body as string) as { query: string };
+    queries.push(query);
+
+    const data: Record<string, unknown> = {
+      _meta: { block: { number: '100', hash: '0x64', timestamp: '1700000000' }, deployment: 'Qm123', hasIndexingErrors: false }
+    };
+    for (const [, key, plural] of query.matchAll(/(\w+_\d+): (\w+)\(/g)) {
+      data[key] = subgraphRows[plural] ?? [];
+    }
+    return new Response(JSON.stringify({ data }), { status: 200 });
+  }) as typeof fetch;
+  return queries;
+};
+
+const onChainValues: Record<string, unknown> = {
+  totalAllocation: 100n,
+  allocationOf: 7n,
+  backerTotalAllocation: 7n,
+  cycleData: [604800, 1209600, 900n, 2000n, 0n],
+  getCycleStartAndDuration: [1000n, 604800n],
+  distributionDuration: 3600
+};
+
+describe('reconciliation', () => {
+  let context: AppContext;
+  let inserts: unknown[];
+  let metrics: Metrics;
+
+  beforeEach(() => {
+    log.setLevel('silent');
+    metrics = useMetricsRegistry(new Registry());
+    inserts = [];
+    // Bytes columns come back from pg as Buffers
+    const db = (table: string) => ({
+      select: async () => (table === 'Builder' ? [{ id: Buffer.from('0x01'), gauge: Buffer.from(gauge) }] : []),
+      orderByRaw: () => ({ first: async () => undefined }),
+      insert: async (rows: unknown[]) => {
+        inserts.push(...rows);
+      }
+    });
+    context = {
+      config: createMockConfig({ contracts: [{ name: 'BackersManager', address: backersManager }] }),
+      schema: { entities: new Map(entities.map(entity => [entity.name, entity])) },
+      graphqlContexts: {
+        'collective-rewards': { endpoint: 'http://subgraph.test', pagination: { maxRowsPerRequest: 100 } }
+      },
+      dbContext: { db, schema: 'public', batchSize: 100, maxRetries: 0, initialRetryDelay: 1 }
+    } as unknown as AppContext;
+  });
+
+  it('should compare sampled subgraph rows to the contracts at the subgraph block', async () => {
+    const queries = stubSubgraph();
+    const multicall = mock.fn(async ({ contracts }: { contracts: { functionName: string }[] }) =>
+      contracts.map(({ functionName }) => ({ status: 'success', result: onChainValues[functionName] })));
+
+    const result = await reconcile(context, { multicall } as unknown as PublicClient, 10);
+
+    assert.deepEqual(result.checked, { Builder: 1, BackerToBuilder: 1, Backer: 1, Cycle: 1 });
+    assert.deepEqual(result.discrepancies, [
+      { entityName: 'BackerToBuilder', entityId: '0xb101', column: 'totalAllocation', subgraphValue: '5', onchainValue: '7' }
+    ]);
+    assert.deepEqual(inserts, [{ ...result.discrepancies[0], blockNumber: '100' }]);
+    assert.ok(queries.some(query => query.includes('backerToBuilders(first: 10') && query.includes('block: { number: 100 }')));
+
+    const calls = multicall.mock.calls.map(({ arguments: [call] }) => call as unknown as {
+      contracts: { address: string; functionName: string; args: unknown[] }[];
+      blockNumber: bigint;
+    });
+    assert.ok(calls.every(({ blockNumber }) => blockNumber === 100n));
+    assert.deepEqual(calls.flatMap(({ contracts }) => contracts.map(({ address, functionName, args }) => [address, functionName, args])), [
+      [gauge, 'totalAllocation', []],
+      [gauge, 'allocationOf', ['0xb1']],
+      [backersManager, 'backerTotalAllocation', ['0xb1']],
+      [backersManager, 'cycleData', []],
+      [backersManager, 'cycleData', []],
+      [backersManager, 'getCycleStartAndDuration', []],
+      [backersManager, 'getCycleStartAndDuration', []],
+      [backersManager, 'distributionDuration', []]
+    ]);
+    assert.equal(await getCounterTotal(metrics.reconciliationDiscrepancies), 1);
+  });
+
+  it('should skip entities not synced from a subgraph', async () => {
+    stubSubgraph();
+    context.schema.entities.delete('Builder');
+    context.schema.entities.set('Backer', { ...entities[1], subgraphProvider: undefined });
+    const multicall = mock.fn(async ({ contracts }: { contracts: { functionName: string }[] }) =>
+      contracts.map(({ functionName }) => ({ status: 'success', result: onChainValues[functionName] })));
+
+    const result = await reconcile(context, { multicall } as unknown as PublicClient, 10);
+
+    assert.deepEqual(result.checked, { BackerToBuilder: 1, Cycle: 1 });
+    assert.deepEqual(result.discrepancies, []);
+  });
+});
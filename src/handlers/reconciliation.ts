@@ -0,0 +1,243 @@
+import log from 'loglevel';
+import { AbiFunction, Address, PublicClient } from 'viem';
+
+import { Config } from '../config/types';
+import { executeRequests, fetchSubgraphMeta } from '../context/subgraphProvider';
+import { AppContext } from '../context/types';
+import { getMetrics } from '../metrics/metrics';
+import { findAbi, findReadFunction } from './abi';
+import { CONTRACT_NAMES, getContractAddress } from './contracts';
+import { RECONCILIATION_TABLE } from './internalTables';
+import { createEntityQuery } from './subgraphQueryBuilder';
+import { fromStoredValue } from './types';
+
+type SubgraphRow = Record<string, unknown>;
+
+/**
+ * Call returning the on-chain value of a column for a row
+ */
+interface OnChainRead {
+  abi: 'Gauge' | 'BackersManager';
+  address: string | undefined;
+  functionName: string;
+  args?: unknown[];
+  /** Output holding the value, for functions returning several */
+  output?: number | string;
+}
+
+/**
+ * What checks read besides the row: builder gauges and configured contracts
+ */
+interface ReconciliationLookup {
+  gauges: Map<string, string>;
+  config: Config;
+}
+
+/**
+ * A subgraph column compared to the value the contracts hold for the row
+ */
+interface ReconciliationCheck {
+  entity: string;
+  column: string;
+  read: (row: SubgraphRow, lookup: ReconciliationLookup) => OnChainRead;
+}
+
+interface Discrepancy {
+  entityName: string;
+  entityId: string;
+  column: string;
+  subgraphValue: string | null;
+  onchainValue: string | null;
+}
+
+interface ReconciliationResult {
+  /** Rows compared per entity */
+  checked: Record<string, number>;
+  discrepancies: Discrepancy[];
+}
+
+const DEFAULT_SAMPLE_SIZE = 20;
+
+/** References arrive from subgraphs as `{ id }` */
+const refId = (value: unknown): string => String((value as { id?: unknown } | null)?.id ?? value).toLowerCase();
+
+const backersManager = (config: Config) => getContractAddress(config, CONTRACT_NAMES.BACKERS_MANAGER);
+
+/**
+ * Compares a Cycle column to a BackersManager function without arguments
+ */
+const cycleCheck = (column: string, functionName: string, output?: number | string): ReconciliationCheck => ({
+  entity: 'Cycle',
+  column,
+  read: (_row, { config }) => ({ abi: 'BackersManager', address: backersManager(config), functionName, output })
+});
+
+const RECONCILIATION_CHECKS: ReconciliationCheck[] = [
+  {
+    entity: 'Builder',
+    column: 'totalAllocation',
+    read: row => ({ abi: 'Gauge', address: (row.gauge as string | null) ?? undefined, functionName: 'totalAllocation' })
+  },
+  {
+    entity: 'BackerToBuilder',
+    column: 'totalAllocation',
+    read: (row, { gauges }) => ({
+      abi: 'Gauge',
+      address: gauges.get(refId(row.builder)),
+      functionName: 'allocationOf',
+      args: [refId(row.backer)]
+    })
+  },
+  {
+    entity: 'Backer',
+    column: 'totalAllocation',
+    read: (row, { config }) => ({
+      abi: 'BackersManager',
+      address: backersManager(config),
+      functionName: 'backerTotalAllocation',
+      args: [row.id]
+    })
+  },
+  cycleCheck('previousCycleStart', 'cycleData', 'previousStart'),
+  cycleCheck('previousCycleDuration', 'cycleData', 'previousDuration'),
+  cycleCheck('currentCycleStart', 'getCycleStartAndDuration', 0),
+  cycleCheck('currentCycleDuration', 'getCycleStartAndDuration', 1),
+  cycleCheck('distributionDuration', 'distributionDuration')
+];
+
+/** Entities the reconciliation samples */
+const RECONCILED_ENTITIES = [...new Set(RECONCILIATION_CHECKS.map(({ entity }) => entity))];
+
+const getReadFunction = ({ abi, functionName, args = [] }: OnChainRead): AbiFunction => {
+  const bundled = findAbi(abi);
+  const abiFunction = bundled && findReadFunction(bundled, functionName, args.length);
+  if (!abiFunction) {
+    throw new Error(`${abi} has no view function '${functionName}'`);
+  }
+  return abiFunction;
+};
+
+/**
+ * The value of the output a read compares, from a call's result
+ */
+const getOutput = (abiFunction: AbiFunction, output: number | string | undefined, result: unknown): unknown => {
+  if (output === undefined) {
+    return result;
+  }
+  const position = abiFunction.outputs.findIndex(({ name }, index) => name === output || index === Number(output));
+  return (result as unknown[])[position];
+};
+
+const toComparable = (value: unknown): string | null =>
+  value === null || value === undefined ? null : String(value).toLowerCase();
+
+/**
+ * Samples up to `sampleSize` rows of an entity from its subgraph at `block`:
+ * consecutive ids from a random stored id, wrapping to the first ids when
+ * the random id is among the last ones.
+ */
+const sampleRows = async (
+  context: AppContext,
+  entityName: string,
+  provider: string,
+  blockNumber: bigint,
+  sampleSize: number
+): Promise<SubgraphRow[]> => {
+  const start = await context.dbContext.db(entityName).orderByRaw('random()').first('id');
+  const query = (filters?: Record<string, string>, first = sampleSize) =>
+    createEntityQuery(context.schema, entityName, { first, filters, order: { by: 'id', direction: 'asc' }, block: { number: blockNumber } });
+  const graphqlContext = context.graphqlContexts[provider];
+
+  const rows: SubgraphRow[] = (await executeRequests(graphqlContext, [query(start ? { id_gte: String(start.id) } : undefined)]))[entityName] ?? [];
+  if (rows.length < sampleSize && start) {
+    const wrapped: SubgraphRow[] = (await executeRequests(graphqlContext, [query({ id_lt: String(start.id) }, sampleSize - rows.length)]))[entityName] ?? [];
+    rows.push(...wrapped);
+  }
+  return rows;
+};
+
+/**
+ * Compares sampled subgraph rows of `Builder`, `BackerToBuilder`, `Backer`
+ * and `Cycle` to the contracts, both at the block the subgraph has indexed,
+ * and records every mismatch in the Reconciliation table. Entities missing
+ * from the schema are left out.
+ */
+const reconcile = async (
+  context: AppContext,
+  client: PublicClient,
+  sampleSize = context.config.reconciliation?.sampleSize ?? DEFAULT_SAMPLE_SIZE
+): Promise<ReconciliationResult> => {
+  const { db } = context.dbContext;
+  const result: ReconciliationResult = { checked: {}, discrepancies: [] };
+  const blocks = new Map<string, bigint>();
+  const gaugeRows: { id: unknown; gauge: unknown }[] = context.schema.entities.has('Builder')
+    ? await db('Builder').select('id', 'gauge')
+    : [];
+  const lookup: ReconciliationLookup = {
+    gauges: new Map(gaugeRows.flatMap(({ id, gauge }) => gauge
+      ? [[String(fromStoredValue(id)).toLowerCase(), String(fromStoredValue(gauge))]]
+      : [])),
+    config: context.config
+  };
+
+  for (const entityName of RECONCILED_ENTITIES) {
+    const provider = context.schema.entities.get(entityName)?.subgraphProvider;
+    if (!provider || !context.graphqlContexts[provider]) {
+      log.warn(`[reconciliation:reconcile] Skipping ${entityName}: not synced from a configured subgraph`);
+      continue;
+    }
+
+    if (!blocks.has(provider)) {
+      blocks.set(provider, (await fetchSubgraphMeta(context.graphqlContexts[provider])).blockNumber);
+    }
+    const blockNumber = blocks.get(provider) as bigint;
+    const rows = await sampleRows(context, entityName, provider, blockNumber, sampleSize);
+    const checks = RECONCILIATION_CHECKS.filter(({ entity }) => entity === entityName);
+    const comparisons = rows.flatMap(row => checks.map(check => ({ row, check, read: check.read(row, lookup) })));
+    const readable = comparisons
+      .filter(({ read }) => read.address !== undefined)
+      .map(comparison => ({ ...comparison, abiFunction: getReadFunction(comparison.read) }));
+
+    const results = readable.length === 0 ? [] : await client.multicall({
+      contracts: readable.map(({ read, abiFunction }) => ({
+        address: read.address as Address,
+        abi: [abiFunction],
+        functionName: read.functionName,
+        args: read.args ?? []
+      })),
+      blockNumber,
+      allowFailure: true
+    });
+
+    const discrepancies: Discrepancy[] = [];
+    readable.forEach(({ row, check, read, abiFunction }, index) => {
+      const callResult = results[index];
+      if (callResult.status === 'failure') {
+        log.warn(`[reconciliation:reconcile] ${entityName} ${row.id}: ${read.functionName} failed: ${callResult.error.message}`);
+        return;
+      }
+      const subgraphValue = toComparable(row[check.column]);
+      const onchainValue = toComparable(getOutput(abiFunction, read.output, callResult.result));
+      if (subgraphValue !== onchainValue) {
+        discrepancies.push({ entityName, entityId: String(row.id), column: check.column, subgraphValue, onchainValue });
+      }
+    });
+
+    if (discrepancies.length > 0) {
+      await db(RECONCILIATION_TABLE).insert(discrepancies.map(discrepancy => ({ ...discrepancy, blockNumber: blockNumber.toString() })));
+      for (const { column } of discrepancies) {
+        getMetrics().reconciliationDiscrepancies.inc({ entity: entityName, column });
+      }
+      log.warn(`[reconciliation:reconcile] ${entityName}: ${discrepancies.length} discrepancies in ${rows.length} rows at block ${blockNumber}`);
+    } else {
+      log.info(`[reconciliation:reconcile] ${entityName}: ${rows.length} rows match at block ${blockNumber}`);
+    }
+    result.checked[entityName] = rows.length;
+    result.discrepancies.push(...discrepancies);
+  }
+
+  return result;
+};
+
+export { reconcile, RECONCILED_ENTITIES, RECONCILIATION_CHECKS };
+export type { Discrepancy, ReconciliationCheck, ReconciliationResult };
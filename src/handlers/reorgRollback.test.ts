@@ -0,0 +1,179 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import log from 'loglevel';
+import { Entity } from '../config/types';
+import { AppContext } from '../context/types';
+import { createMockConfig } from '../test-helpers/mockConfig';
+import { rollbackEntities } from './reorgRollback';
+
+const builder: Entity = {
+  name: 'Builder',
+  primaryKey: ['id'],
+  subgraphProvider: 'governance',
+  columns: [{ name: 'id', type: 'Bytes' }]
+};
+
+const voteCast: Entity = {
+  name: 'VoteCast',
+  primaryKey: ['id'],
+  subgraphProvider: 'governance',
+  blockColumn: 'blockNumber',
+  columns: [
+    { name: 'id', type: 'Bytes' },
+    { name: 'voter', type: 'Builder' },
+    { name: 'blockNumber', type: 'BigInt' }
+  ]
+};
+
+/**
+ * Knex stand-in holding the ids of `stored` rows past the fork point (as the
+ * Buffers pg returns for Bytes columns) and recording upserts and deletions,
+ * in order
+ */
+const createRecordingDb = (stored: Record<string, string[]> = {}) => {
+  const operations: string[] = [];
+  const lookups: { table: string; column: string; block: string; keptIds: unknown }[] = [];
+
+  const db = (table: string) => ({
+    insert: (rows: { id: string }[]) => ({
+      onConflict: () => ({
+        merge: async () => {
+          operations.push(`upsert ${table} ${rows.map(({ id }) => id).join(',')}`);
+        }
+      })
+    }),
+    where: (column: string, _operator: string, block: string) => {
+      let keptIds: string[] | undefined;
+      const query = {
+        whereNotIn: (_column: string, ids: string[]) => {
+          keptIds = ids;
+          return query;
+        },
+        select: async () => {
+          lookups.push({ table, column, block, keptIds });
+          return (stored[table] ?? []).filter(id => !keptIds?.includes(id)).map(id => ({ id: Buffer.from(id) }));
+        }
+      };
+      return query;
+    },
+    whereIn: (_column: string, ids: string[]) => ({
+      delete: async () => {
+        operations.push(`delete ${table} ${ids.join(',')}`);
+        return ids.length;
+      }
+    })
+  });
+
+  return { db, operations, lookups };
+};
+
+/**
+ * Stubs fetch with a subgraph at block 120 serving the `changed` rows per
+ * plural entity name, honouring `first` and `id_gt`, and looking up those and
+ * the `unchanged` ones by `id_in`. Returns the queries it received.
+ */
+const stubSubgraph = (changed: Record<string, string[]>, unchanged: Record<string, string[]> = {}) => {
+  const queries: string[] = [];
+  global.fetch = mock.fn(async (_url: string | URL, options?: RequestInit) => {
+    const { query } = JSON.parse(options?.body as string) as { query: string };
+    queries.push(query);
+
+    const data: Record<string, unknown> = {
+      _meta: { block: { number: '120', hash: '0x78', timestamp: '1700000000' }, deployment: 'Qm123', hasIndexingErrors: false }
+    };
+    for (const match of query.matchAll(/(\w+)_(\d+): \w+\(first: (\d+), where: \{ id_gt: "(\w+)"/g)) {
+      const [, plural, index, first, idGt] = match;
+      data[`${plural}_${index}`] = (changed[plural] ?? [])
+        .filter(id => id > idGt)
+        .slice(0, Number(first))
+        .map(id => ({ id }));
+    }
+    for (const [, plural, index, ids] of query.matchAll(/(\w+)_(\d+): \w+\(first: \d+, where: \{ id_in: \[([^\]]*)\]/g)) {
+      const known = [...(changed[plural] ?? []), ...(unchanged[plural] ?? [])];
+      data[`${plural}_${index}`] = [...ids.matchAll(/"(\w+)"/g)]
+        .map(([, id]) => id)
+        .filter(id => known.includes(id))
+        .map(id => ({ id }));
+    }
+    return new Response(JSON.stringify({ data }), { status: 200 });
+  }) as typeof fetch;
+  return queries;
+};
+
+describe('reorgRollback', () => {
+  let recordingDb: ReturnType<typeof createRecordingDb>;
+  let context: AppContext;
+
+  beforeEach(() => {
+    log.setLevel('silent');
+    recordingDb = createRecordingDb();
+    context = {
+      config: createMockConfig({ entities: [builder, voteCast] }),
+      schema: { entities: new Map([['Builder', builder], ['VoteCast', voteCast]]) },
+      graphqlContexts: {
+        governance: { name: 'governance', endpoint: 'http://localhost:8001', pagination: { maxRowsPerRequest: 2 }, retry: { maxRetries: 0 } }
+      },
+      dbContext: { db: recordingDb.db, schema: 'public', batchSize: 100, maxRetries: 0, initialRetryDelay: 1 }
+    } as unknown as AppContext;
+  });
+
+  it('should re-fetch rows changed after the fork point at the canonical block', async () => {
+    const queries = stubSubgraph({ builders: ['0x01'], voteCasts: ['0x0a', '0x0b', '0x0c'] });
+    recordingDb = createRecordingDb({ VoteCast: ['0x0a', '0x0d', '0x0e'] });
+    context.dbContext.db = recordingDb.db as unknown as AppContext['dbContext']['db'];
+
+    const rollbacks = await rollbackEntities(context, 110n, ['VoteCast', 'Builder']);
+
+    assert.deepEqual(rollbacks, [
+      { entityName: 'Builder', refetched: 1, deleted: 0, restored: 0 },
+      { entityName: 'VoteCast', refetched: 3, deleted: 2, restored: 0 }
+    ]);
+    assert.match(queries[1], /builders\(first: 2, where: \{ id_gt: "0x00", _change_block: \{ number_gte: 111 \} \}, block: \{ number: 120 \}/);
+    assert.match(queries[3], /id_gt: "0x0b"/);
+  });
+
+  it('should upsert referenced entities first and delete orphaned rows last, in reverse', async () => {
+    stubSubgraph({ builders: ['0x01'], voteCasts: ['0x0a'] });
+    recordingDb = createRecordingDb({ VoteCast: ['0x0a', '0x0b'] });
+    context.dbContext.db = recordingDb.db as unknown as AppContext['dbContext']['db'];
+
+    await rollbackEntities(context, 110n, ['VoteCast', 'Builder']);
+
+    assert.deepEqual(recordingDb.operations, ['upsert Builder 0x01', 'upsert VoteCast 0x0a', 'delete VoteCast 0x0b']);
+    assert.deepEqual(recordingDb.lookups, [
+      { table: 'VoteCast', column: 'blockNumber', block: '110', keptIds: ['0x0a'] }
+    ]);
+  });
+
+  it('should delete every row past the fork point when the canonical chain has none', async () => {
+    stubSubgraph({});
+    recordingDb = createRecordingDb({ VoteCast: ['0x0a', '0x0b'] });
+    context.dbContext.db = recordingDb.db as unknown as AppContext['dbContext']['db'];
+
+    const [rollback] = await rollbackEntities(context, 110n, ['VoteCast']);
+
+    assert.deepEqual(rollback, { entityName: 'VoteCast', refetched: 0, deleted: 2, restored: 0 });
+    assert.deepEqual(recordingDb.lookups, [
+      { table: 'VoteCast', column: 'blockNumber', block: '110', keptIds: undefined }
+    ]);
+  });
+
+  it('should restore rows only updated on the orphaned fork instead of deleting them', async () => {
+    const queries = stubSubgraph({ voteCasts: ['0x0a'] }, { voteCasts: ['0x0b'] });
+    recordingDb = createRecordingDb({ VoteCast: ['0x0a', '0x0b', '0x0c'] });
+    context.dbContext.db = recordingDb.db as unknown as AppContext['dbContext']['db'];
+
+    const [rollback] = await rollbackEntities(context, 110n, ['VoteCast']);
+
+    assert.deepEqual(rollback, { entityName: 'VoteCast', refetched: 1, deleted: 1, restored: 1 });
+    assert.match(queries[queries.length - 1], /voteCasts\(first: 2, where: \{ id_in: \["0x0b", "0x0c"\] \}, block: \{ number: 120 \}/);
+    assert.deepEqual(recordingDb.operations, ['upsert VoteCast 0x0a', 'upsert VoteCast 0x0b', 'delete VoteCast 0x0c']);
+  });
+
+  it('should ignore entities that are not configured', async () => {
+    const queries = stubSubgraph({});
+
+    assert.deepEqual(await rollbackEntities(context, 110n, ['Unknown']), []);
+    assert.equal(queries.length, 0);
+  });
+});
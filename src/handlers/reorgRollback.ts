@@ -0,0 +1,169 @@
+import log from 'loglevel';
+
+import { Entity } from '../config/types';
+import { capToConfirmedBlock } from '../context/indexingStatus';
+import { executeRequests, fetchSubgraphMeta, GraphQlContext } from '../context/subgraphProvider';
+import { AppContext } from '../context/types';
+import { executeUpsert } from './dbUpsert';
+import { createEntityQuery } from './subgraphQueryBuilder';
+import { EntityRecord } from './types';
+
+/**
+ * What a rollback did to one entity
+ */
+interface EntityRollback {
+  entityName: string;
+  /** Rows changed since the fork point, re-fetched from the canonical chain */
+  refetched: number;
+  /** Rows that only existed on the orphaned fork */
+  deleted: number;
+  /** Rows updated on the orphaned fork only, restored from the canonical chain */
+  restored: number;
+}
+
+/**
+ * Fetches every row of an entity changed after `forkBlock`, as of `pinnedBlock`.
+ */
+const fetchChangedRows = async (
+  context: AppContext,
+  graphqlContext: GraphQlContext,
+  entity: Entity,
+  forkBlock: bigint,
+  pinnedBlock: bigint
+): Promise<EntityRecord[]> => {
+  const { maxRowsPerRequest } = graphqlContext.pagination;
+  const rows: EntityRecord[] = [];
+  let lastId = '0x00';
+
+  for (;;) {
+    const query = createEntityQuery(context.schema, entity.name, {
+      first: maxRowsPerRequest,
+      filters: { id_gt: lastId, _change_block: { number_gte: forkBlock + 1n } },
+      block: { number: pinnedBlock }
+    });
+    const { [entity.name]: page = [] } = await executeRequests(graphqlContext, [query]);
+    rows.push(...page);
+
+    if (page.length < maxRowsPerRequest) {
+      return rows;
+    }
+    lastId = String(page[page.length - 1].id);
+  }
+};
+
+/**
+ * Fetches the rows of an entity with the given ids, as of `pinnedBlock`.
+ */
+const fetchRowsById = async (
+  context: AppContext,
+  graphqlContext: GraphQlContext,
+  entity: Entity,
+  ids: string[],
+  pinnedBlock: bigint
+): Promise<EntityRecord[]> => {
+  const { maxRowsPerRequest } = graphqlContext.pagination;
+  const rows: EntityRecord[] = [];
+
+  for (let offset = 0; offset < ids.length; offset += maxRowsPerRequest) {
+    const query = createEntityQuery(context.schema, entity.name, {
+      first: maxRowsPerRequest,
+      filters: { id_in: ids.slice(offset, offset + maxRowsPerRequest) },
+      block: { number: pinnedBlock }
+    });
+    const { [entity.name]: page = [] } = await executeRequests(graphqlContext, [query]);
+    rows.push(...page);
+  }
+  return rows;
+};
+
+/**
+ * Settles the stored rows of an entity written after `forkBlock` according to
+ * its `blockColumn` that weren't re-fetched as changed. A "last updated"
+ * `blockColumn` also covers rows that exist on the canonical chain and were
+ * only updated on the orphaned fork, so these are looked up by id at
+ * `pinnedBlock`: rows the subgraph returns are restored, the others deleted.
+ */
+const settleOrphanedRows = async (
+  context: AppContext,
+  graphqlContext: GraphQlContext,
+  entity: Entity,
+  forkBlock: bigint,
+  pinnedBlock: bigint,
+  canonicalRows: EntityRecord[]
+): Promise<{ restored: number; deleted: number }> => {
+  if (!entity.blockColumn) {
+    return { restored: 0, deleted: 0 };
+  }
+
+  const { db } = context.dbContext;
+  const query = db(entity.name).where(entity.blockColumn, '>', forkBlock.toString());
+  if (canonicalRows.length > 0) {
+    query.whereNotIn('id', canonicalRows.map(row => String(row.id)));
+  }
+  const candidates = (await query.select('id') as { id: unknown }[]).map(({ id }) => String(id));
+  if (candidates.length === 0) {
+    return { restored: 0, deleted: 0 };
+  }
+
+  const restored = await fetchRowsById(context, graphqlContext, entity, candidates, pinnedBlock);
+  await executeUpsert(context.dbContext, entity.name, restored, context.schema);
+
+  const kept = new Set(restored.map(row => String(row.id)));
+  const orphaned = candidates.filter(id => !kept.has(id));
+  const deleted = orphaned.length > 0 ? await db(entity.name).whereIn('id', orphaned).delete() : 0;
+  return { restored: restored.length, deleted };
+};
+
+/**
+ * Rolls the given entities back to the canonical chain after a reorg that
+ * forked after `forkBlock`: rows changed since then are re-fetched from their
+ * subgraph, pinned to its current block (at most the confirmed one), and
+ * where the entity has a `blockColumn`, rows last written on the orphaned
+ * fork are restored or, when the canonical chain lacks them, deleted. Entities are
+ * re-fetched in schema order and cleaned up in reverse, so references hold.
+ * Entities read from contracts are left to their next read.
+ */
+const rollbackEntities = async (
+  context: AppContext,
+  forkBlock: bigint,
+  entityNames: string[]
+): Promise<EntityRollback[]> => {
+  const entities = [...context.schema.entities.values()]
+    .filter(entity => entityNames.includes(entity.name) && entity.subgraphProvider && context.graphqlContexts[entity.subgraphProvider]);
+
+  const pinnedBlocks = new Map<string, bigint>();
+  const canonicalRows = new Map<string, EntityRecord[]>();
+  for (const entity of entities) {
+    const provider = entity.subgraphProvider as string;
+    const graphqlContext = context.graphqlContexts[provider];
+    if (!pinnedBlocks.has(provider)) {
+      const { blockNumber } = await fetchSubgraphMeta(graphqlContext);
+      pinnedBlocks.set(provider, capToConfirmedBlock(context.chainHead, blockNumber));
+    }
+
+    const rows = await fetchChangedRows(context, graphqlContext, entity, forkBlock, pinnedBlocks.get(provider) as bigint);
+    await executeUpsert(context.dbContext, entity.name, rows, context.schema);
+    canonicalRows.set(entity.name, rows);
+  }
+
+  const rollbacks: EntityRollback[] = [];
+  for (const entity of [...entities].reverse()) {
+    const provider = entity.subgraphProvider as string;
+    const rows = canonicalRows.get(entity.name) ?? [];
+    const { restored, deleted } = await settleOrphanedRows(
+      context,
+      context.graphqlContexts[provider],
+      entity,
+      forkBlock,
+      pinnedBlocks.get(provider) as bigint,
+      rows
+    );
+    log.info(`[reorgRollback:rollbackEntities] ${entity.name}: ${rows.length} rows re-fetched, ${restored} restored, ${deleted} deleted`);
+    rollbacks.unshift({ entityName: entity.name, refetched: rows.length, deleted, restored });
+  }
+
+  return rollbacks;
+};
+
+export { rollbackEntities };
+export type { EntityRollback };
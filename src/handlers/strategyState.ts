@@ -0,0 +1,81 @@
+import { Knex } from 'knex';
+import { StrategyOutcome } from '../metrics/metrics';
+import { STRATEGY_STATE_TABLE } from './internalTables';
+
+/**
+ * Checkpoint of a block watcher strategy, persisted after every run so that
+ * throttling and progress survive restarts
+ */
+interface StrategyState {
+  strategyName: string;
+  /** Block of the last run, whatever its outcome */
+  lastRunBlock: bigint | null;
+  /** Block of the last run that processed changes */
+  lastSuccessBlock: bigint | null;
+  /** Message of the last failed run; kept after later successes */
+  lastError: string | null;
+  runCount: number;
+}
+
+interface StrategyStateRow extends StrategyState {
+  updatedAt?: Date;
+}
+
+const toBigInt = (value: bigint | string | null): bigint | null => value === null ? null : BigInt(value);
+
+/**
+ * Loads the checkpoint of a strategy, if it ever ran
+ */
+const getStrategyState = async (db: Knex, strategyName: string): Promise<StrategyState | undefined> => {
+  const row = await db<StrategyStateRow>(STRATEGY_STATE_TABLE).where({ strategyName }).first();
+  if (!row) {
+    return undefined;
+  }
+
+  // bigint columns arrive as strings
+  return {
+    strategyName,
+    lastRunBlock: toBigInt(row.lastRunBlock),
+    lastSuccessBlock: toBigInt(row.lastSuccessBlock),
+    lastError: row.lastError,
+    runCount: Number(row.runCount)
+  };
+};
+
+/**
+ * Records a run of a strategy for a block: always its block and count, the
+ * block as last success when it processed changes, and the error when it failed
+ */
+const saveStrategyRun = async (
+  db: Knex,
+  strategyName: string,
+  blockNumber: bigint,
+  outcome: StrategyOutcome,
+  error?: unknown
+): Promise<void> => {
+  const lastError = outcome === 'failed'
+    ? (error instanceof Error ? error.message : String(error ?? 'unknown error'))
+    : undefined;
+  const lastSuccessBlock = outcome === 'processed' ? blockNumber : undefined;
+
+  await db<StrategyStateRow>(STRATEGY_STATE_TABLE)
+    .insert({
+      strategyName,
+      lastRunBlock: blockNumber,
+      lastSuccessBlock: lastSuccessBlock ?? null,
+      lastError: lastError ?? null,
+      runCount: 1,
+      updatedAt: new Date()
+    })
+    .onConflict('strategyName')
+    .merge({
+      lastRunBlock: blockNumber,
+      ...(lastSuccessBlock !== undefined && { lastSuccessBlock }),
+      ...(lastError !== undefined && { lastError }),
+      runCount: db.raw('??.?? + 1', [STRATEGY_STATE_TABLE, 'runCount']),
+      updatedAt: new Date()
+    });
+};
+
+export { getStrategyState, saveStrategyRun };
+export type { StrategyState };
@@ -100,6 +100,18 @@ describe('Subgraph Query Builder', () => {
       assert.ok(result.query.includes('recentLogs: blockChangeLogs'));
     });
 
+    it('should pin a query to a block number or hash', () => {
+      const byNumber = createEntityQuery(mockSchema, 'Proposal', {
+        first: 10,
+        filters: { id_gt: '0x00' },
+        block: { number: 1234n }
+      });
+      const byHash = createEntityQuery(mockSchema, 'Proposal', { block: { hash: '0xabc' } });
+
+      assert.ok(byNumber.query.includes('(first: 10, where: { id_gt: "0x00" }, block: { number: 1234 })'));
+      assert.ok(byHash.query.includes('(block: { hash: "0xabc" })'));
+    });
+
     it('should create a query with metadata flag', () => {
       const result = createEntityQuery(mockSchema, 'BlockChangeLog', {
         withMetadata: true
@@ -457,6 +469,12 @@ describe('Subgraph Query Builder', () => {
         );
       });
 
+      it('should allow querying only _meta', () => {
+        const batchQuery = buildBatchQuery([], true);
+
+        assert.ok(batchQuery.includes('_meta'));
+      });
+
       it('should throw error for null requests', () => {
         assert.throws(
           () => buildBatchQuery(null as any),
@@ -12,8 +12,8 @@ interface BatchQueryRequest {
 /**
  * Combines multiple GraphQL queries into a single batch query
  */
-const buildBatchQuery = (requests: BatchQueryRequest[]): string => {
-  if (requests.length === 0) {
+const buildBatchQuery = (requests: BatchQueryRequest[], includeMetadata = false): string => {
+  if (requests.length === 0 && !includeMetadata) {
     throw new Error('Cannot build batch query with empty requests array');
   }
 
@@ -23,7 +23,7 @@ const buildBatchQuery = (requests: BatchQueryRequest[]): string => {
     return `${queryName}_${index}: ${query}`;
   });
 
-  const requiresMetadataQuery = requests.some(({ request: { withMetadata } }) => withMetadata);
+  const requiresMetadataQuery = includeMetadata || requests.some(({ request: { withMetadata } }) => withMetadata);
 
   const metadataQuery = requiresMetadataQuery ? `
   _meta {
@@ -43,7 +43,13 @@ const buildBatchQuery = (requests: BatchQueryRequest[]): string => {
   }`;
 };
 
-type FilterValue = string | bigint | number | { [key: string]: FilterValue };
+type FilterValue = string | bigint | number | FilterValue[] | { [key: string]: FilterValue };
+
+/**
+ * Time-travel argument: answers the query as of the given block
+ */
+type BlockConstraint = { number: bigint } | { hash: string };
+
 interface QueryOptions {
   first?: number;
   order?: {
@@ -51,6 +57,7 @@ interface QueryOptions {
     direction: 'asc' | 'desc';
   }
   filters?: FilterValue;
+  block?: BlockConstraint;
   alias?: string;
   withMetadata?: boolean;
 }
@@ -194,6 +201,10 @@ const buildQueryArguments = (options: QueryOptions): string[] => {
     }
   }
 
+  if (options.block) {
+    queryArgs.push(`block: ${formatQueryValue(options.block)}`);
+  }
+
   return queryArgs;
 };
 
@@ -205,3 +216,4 @@ const formatFilterValues = (value: FilterValue, formatter: (v: FilterValue) => s
 
 
 export { buildBatchQuery, createEntityQueries, createEntityQuery };
+export type { BlockConstraint, FilterValue, QueryOptions };
@@ -6,6 +6,65 @@ import { AppContext } from '../context/types';
 import { createMockConfig } from '../test-helpers/mockConfig';
 import { syncEntities } from './subgraphSyncer';
 
+/**
+ * Minimal knex stand-in recording entity upserts and SyncState writes
+ */
+const createRecordingDb = (storedStates: Record<string, unknown>[] = []) => {
+  const upserts: { table: string; ids: string[] }[] = [];
+  const savedStates: Record<string, any>[] = [];
+
+  const db = (table: string) => ({
+    where: () => ({
+      whereIn: async () => (table === 'SyncState' ? storedStates : [])
+    }),
+    insert: (rows: any) => ({
+      onConflict: () => ({
+        merge: async () => {
+          if (table === 'SyncState') {
+            savedStates.push(rows);
+          } else {
+            upserts.push({ table, ids: rows.map((row: { id: string }) => row.id) });
+          }
+        }
+      })
+    })
+  });
+
+  return { db, upserts, savedStates };
+};
+
+const subgraphMeta = {
+  block: { number: '100', hash: '0x64', timestamp: '1700000000' },
+  deployment: 'Qm123',
+  hasIndexingErrors: false
+};
+
+/**
+ * Stubs fetch with a subgraph at block 100 serving `records` per plural
+ * entity name, honouring `first` and `id_gt`. Returns the batch queries it received.
+ */
+const stubSubgraph = (records: Record<string, string[]>) => {
+  const queries: string[] = [];
+
+  global.fetch = mock.fn(async (_url: string | URL, options?: RequestInit) => {
+    const { query } = JSON.parse(options?.body as string) as { query: string };
+    queries.push(query);
+
+    const data: Record<string, unknown> = { _meta: subgraphMeta };
+    for (const match of query.matchAll(/(\w+)_(\d+): \w+\(first: (\d+), where: \{ id_gt: "(\w+)"/g)) {
+      const [, plural, index, first, idGt] = match;
+      data[`${plural}_${index}`] = (records[plural] ?? [])
+        .filter(id => id > idGt)
+        .slice(0, Number(first))
+        .map(id => ({ id }));
+    }
+
+    return new Response(JSON.stringify({ data }), { status: 200 });
+  }) as typeof fetch;
+
+  return queries;
+};
+
 describe('SubgraphSyncer', () => {
   let mockContext: AppContext;
 
@@ -265,6 +324,228 @@ describe('SubgraphSyncer', () => {
   });
 });
 
+describe('SubgraphSyncer paging and resume', () => {
+  const originalFetch = global.fetch;
+
+  const createContext = (db: unknown, entities: Entity[]): AppContext => ({
+    schema: { entities: new Map(entities.map(entity => [entity.name, entity])) },
+    graphqlContexts: {
+      provider1: {
+        endpoint: 'http://test1.com',
+        pagination: { maxRowsPerRequest: 2 },
+        retry: { maxRetries: 0, initialDelay: 1, maxDelay: 1 }
+      }
+    },
+    dbContext: { db, schema: 'public', batchSize: 1000, maxRetries: 0, initialRetryDelay: 1 },
+    config: createMockConfig()
+  } as any);
+
+  const parent: Entity = {
+    name: 'Parent',
+    primaryKey: ['id'],
+    subgraphProvider: 'provider1',
+    columns: [{ name: 'id', type: 'Bytes' }]
+  };
+
+  const child: Entity = {
+    name: 'Child',
+    primaryKey: ['id'],
+    subgraphProvider: 'provider1',
+    columns: [{ name: 'id', type: 'Bytes' }, { name: 'parent', type: 'Parent' as any }]
+  };
+
+  beforeEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should write every page and persist the cursor as it goes', async () => {
+    stubSubgraph({ parents: ['0x01', '0x02', '0x03', '0x04', '0x05'] });
+    const { db, upserts, savedStates } = createRecordingDb();
+
+    await syncEntities(createContext(db, [parent]), ['Parent']);
+
+    assert.deepEqual(upserts.map(({ ids }) => ids), [['0x01', '0x02'], ['0x03', '0x04'], ['0x05']]);
+    assert.deepEqual(savedStates.map(({ lastProcessedId, isComplete, totalProcessed }) =>
+      [lastProcessedId, isComplete, totalProcessed]), [
+      ['0x02', false, 2],
+      ['0x04', false, 4],
+      ['0x05', true, 5]
+    ]);
+    assert.equal(savedStates[0].provider, 'provider1');
+  });
+
+  it('should pin every page to the block the subgraph was at when the sync started', async () => {
+    const queries = stubSubgraph({ parents: ['0x01', '0x02', '0x03'], childs: ['0x0a'] });
+    const { db } = createRecordingDb();
+
+    await syncEntities(createContext(db, [parent, child]), ['Child', 'Parent'], 90n);
+
+    const [metaQuery, ...pageQueries] = queries;
+    assert.doesNotMatch(metaQuery, /parents|childs/);
+    assert.equal(pageQueries.length, 3);
+    for (const query of pageQueries) {
+      assert.match(query, /block: \{ number: 100 \}/);
+      assert.match(query, /_change_block: \{ number_gte: 90 \}/);
+    }
+  });
+
+  it('should resume an interrupted sync from the stored cursor', async () => {
+    const queries = stubSubgraph({ parents: ['0x01', '0x02', '0x03', '0x04', '0x05'] });
+    const { db, upserts, savedStates } = createRecordingDb([
+      { entityName: 'Parent', provider: 'provider1', lastProcessedId: '0x02', isComplete: false, totalProcessed: '2' }
+    ]);
+
+    await syncEntities(createContext(db, [parent]), ['Parent']);
+
+    assert.match(queries[1], /id_gt: "0x02"/);
+    assert.deepEqual(upserts.map(({ ids }) => ids), [['0x03', '0x04'], ['0x05']]);
+    assert.equal(savedStates.at(-1)?.totalProcessed, 5);
+  });
+
+  it('should start over when the stored sync had completed', async () => {
+    const queries = stubSubgraph({ parents: ['0x01'] });
+    const { db } = createRecordingDb([
+      { entityName: 'Parent', provider: 'provider1', lastProcessedId: '0x05', isComplete: true, totalProcessed: '5' }
+    ]);
+
+    await syncEntities(createContext(db, [parent]), ['Parent']);
+
+    assert.match(queries[1], /id_gt: "0x00"/);
+  });
+
+  it('should sync referenced entities before the entities pointing at them', async () => {
+    const queries = stubSubgraph({ parents: ['0x01', '0x02', '0x03'], childs: ['0x0a'] });
+    const { db, upserts } = createRecordingDb();
+
+    await syncEntities(createContext(db, [parent, child]), ['Child', 'Parent']);
+
+    assert.ok(queries.slice(0, 3).every(query => !query.includes('childs')), 'Child waits for Parent');
+    assert.deepEqual(upserts.map(({ table }) => table), ['Parent', 'Parent', 'Child']);
+  });
+
+  it('should not persist cursors of incremental syncs', async () => {
+    stubSubgraph({ parents: ['0x01'] });
+    const { db, upserts, savedStates } = createRecordingDb();
+
+    await syncEntities(createContext(db, [parent]), ['Parent'], 100n);
+
+    assert.equal(upserts.length, 1);
+    assert.equal(savedStates.length, 0);
+  });
+
+  it('should fail instead of completing when a request fails', async () => {
+    global.fetch = mock.fn(async () => new Response('Error', { status: 500 })) as typeof fetch;
+    const { db, savedStates } = createRecordingDb();
+
+    await assert.rejects(syncEntities(createContext(db, [parent]), ['Parent']), /HTTP error! status: 500/);
+    assert.equal(savedStates.length, 0);
+  });
+
+  it('should fail when the response lacks an entity', async () => {
+    global.fetch = mock.fn(async () => new Response(JSON.stringify({ data: { _meta: subgraphMeta } }), { status: 200 })) as typeof fetch;
+    const { db } = createRecordingDb();
+
+    await assert.rejects(syncEntities(createContext(db, [parent]), ['Parent']), /No results returned/);
+  });
+});
+
+describe('SubgraphSyncer memory usage', () => {
+  const originalFetch = global.fetch;
+  const totalRecords = 100_000;
+  const pageSize = 1000;
+  const payload = 'x'.repeat(256);
+
+  const record: Entity = {
+    name: 'Record',
+    primaryKey: ['id'],
+    subgraphProvider: 'provider1',
+    columns: [{ name: 'id', type: 'Bytes' }, { name: 'payload', type: 'String' }]
+  };
+
+  /**
+   * Serves `totalRecords` generated records page by page and counts
+   * how many have been fetched, without keeping any of them around
+   */
+  const stubLargeSubgraph = () => {
+    const stats = { fetched: 0 };
+
+    global.fetch = mock.fn(async (_url: string | URL, options?: RequestInit) => {
+      const { query } = JSON.parse(options?.body as string) as { query: string };
+      const [, alias, first, idGt] = query.match(/(\w+): \w+\(first: (\d+), where: \{ id_gt: "(\w+)"/) ?? [];
+      const start = parseInt(idGt, 16) + 1;
+      const end = Math.min(start + Number(first), totalRecords + 1);
+
+      const records = [];
+      for (let i = start; i < end; i++) {
+        records.push({ id: `0x${i.toString(16).padStart(8, '0')}`, payload });
+      }
+      stats.fetched += records.length;
+
+      const data = alias ? { [alias]: records, _meta: subgraphMeta } : { _meta: subgraphMeta };
+      return new Response(JSON.stringify({ data }), { status: 200 });
+    }) as typeof fetch;
+
+    return stats;
+  };
+
+  const createCountingDb = (stats: { fetched: number }) => {
+    const counts = { written: 0, maxOutstanding: 0, peakHeapUsed: 0 };
+
+    const db = (table: string) => ({
+      where: () => ({ whereIn: async () => [] }),
+      insert: (rows: unknown[]) => ({
+        onConflict: () => ({
+          merge: async () => {
+            if (table === 'SyncState') {
+              return;
+            }
+            // A slow writer, so the fetcher has every opportunity to run ahead
+            for (let i = 0; i < 5; i++) {
+              await new Promise(resolve => setImmediate(resolve));
+            }
+            counts.maxOutstanding = Math.max(counts.maxOutstanding, stats.fetched - counts.written);
+            counts.peakHeapUsed = Math.max(counts.peakHeapUsed, process.memoryUsage().heapUsed);
+            counts.written += rows.length;
+          }
+        })
+      })
+    });
+
+    return { db, counts };
+  };
+
+  const createContext = (db: unknown, prefetchPages: number): AppContext => ({
+    schema: { entities: new Map([['Record', record]]) },
+    graphqlContexts: {
+      provider1: { endpoint: 'http://test1.com', pagination: { maxRowsPerRequest: pageSize, prefetchPages } }
+    },
+    dbContext: { db, schema: 'public', batchSize: pageSize, maxRetries: 0, initialRetryDelay: 1 },
+    config: createMockConfig()
+  } as any);
+
+  beforeEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  for (const prefetchPages of [0, 1, 3]) {
+    it(`should keep at most ${prefetchPages + 1} unwritten pages with prefetchPages ${prefetchPages}`, async (t) => {
+      const stats = stubLargeSubgraph();
+      const { db, counts } = createCountingDb(stats);
+      const heapBefore = process.memoryUsage().heapUsed;
+
+      await syncEntities(createContext(db, prefetchPages), ['Record']);
+
+      assert.equal(counts.written, totalRecords);
+      assert.ok(
+        counts.maxOutstanding <= (prefetchPages + 1) * pageSize,
+        `${counts.maxOutstanding} records were fetched but not yet written`
+      );
+      t.diagnostic(`peak heap growth ${((counts.peakHeapUsed - heapBefore) / 1024 / 1024).toFixed(1)} MiB ` +
+        `for ${totalRecords} records of ~${payload.length} bytes`);
+    });
+  }
+});
+
 describe('SubgraphSyncer Internal Functions', () => {
   describe('collectEntityData', () => {
     it('should group entities by subgraph correctly', () => {
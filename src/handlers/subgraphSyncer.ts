@@ -1,18 +1,16 @@
 import log from 'loglevel';
 
-import { executeRequests } from '../context/subgraphProvider';
+import { getReferencedEntities } from '../context/schema';
+import { capToConfirmedBlock } from '../context/indexingStatus';
+import { executeRequests, fetchSubgraphMeta, GraphQLRequest } from '../context/subgraphProvider';
 import { AppContext } from '../context/types';
+import { readAhead } from '../utils/readAhead';
 import { executeUpsert } from './dbUpsert';
-import { createEntityQueries } from './subgraphQueryBuilder';
-import { EntityDataCollection } from './types';
-
-interface EntitySyncStatus {
-    entityName: string;
-    lastProcessedId: string | null;
-    isComplete: boolean;
-    totalProcessed: number;
-}
+import { createEntityQuery } from './subgraphQueryBuilder';
+import { EntitySyncStatus, getSyncStates, saveSyncState } from './syncState';
+import { EntityDataCollection, EntityRecord } from './types';
 
+const DEFAULT_PREFETCH_PAGES = 1;
 
 const createInitialStatus = (entityName: string): EntitySyncStatus => ({
   entityName,
@@ -30,7 +28,7 @@ const updateStatus = (
   const isComplete = processedCount < maxRowsPerRequest;
   return {
     ...currentStatus,
-    lastProcessedId: lastId,
+    lastProcessedId: lastId ?? currentStatus.lastProcessedId,
     isComplete,
     totalProcessed: currentStatus.totalProcessed + processedCount
   };
@@ -41,99 +39,185 @@ const buildFilters = (lastProcessedId: string | undefined, blockNumber?: bigint)
   ...(blockNumber ? { _change_block: { number_gte: blockNumber } } : {}),
 });
 
-const collectEntityData = async (
+/**
+ * Groups entities by the subgraph provider they are synced from,
+ * skipping (with a warning) those that can't be synced.
+ */
+const groupEntitiesBySubgraph = (
   context: AppContext,
-  entities: string[],
-  blockNumber?: bigint,
-): Promise<EntityDataCollection> => {
+  entities: string[]
+): Record<string, string[]> => {
   const { schema, graphqlContexts } = context;
-    
-  // Group entities by their subgraph
   const entitiesBySubgraph: Record<string, string[]> = {};
+
   for (const entityName of entities) {
     const entity = schema.entities.get(entityName);
     if (!entity) {
       log.warn(`Entity ${entityName} not found in schema`);
       continue;
     }
-        
-    const subgraphName = entity.subgraphProvider;
+
+    if ((entity.source ?? 'subgraph') !== 'subgraph') {
+      log.debug(`Entity ${entityName} is read from ${entity.source}, not synced from a subgraph`);
+      continue;
+    }
+
+    const subgraphName = entity.subgraphProvider ?? '';
     if (!graphqlContexts[subgraphName]) {
       log.warn(`Subgraph context for ${subgraphName} not found`);
       continue;
     }
-        
+
     if (!entitiesBySubgraph[subgraphName]) {
       entitiesBySubgraph[subgraphName] = [];
     }
-    entitiesBySubgraph[subgraphName].push(entityName);
+    if (!entitiesBySubgraph[subgraphName].includes(entityName)) {
+      entitiesBySubgraph[subgraphName].push(entityName);
+    }
   }
 
-  const entityStatus: Record<string, EntitySyncStatus> = entities.reduce((acc, entityName) => {
-    acc[entityName] = createInitialStatus(entityName);
+  return entitiesBySubgraph;
+};
+
+/**
+ * Loads the starting status of each entity. Full syncs resume from the
+ * persisted cursor of an interrupted run; completed or incremental syncs start over.
+ */
+const loadInitialStatuses = async (
+  context: AppContext,
+  subgraphName: string,
+  entities: string[],
+  resumable: boolean
+): Promise<Record<string, EntitySyncStatus>> => {
+  const stored = resumable
+    ? await getSyncStates(context.dbContext.db, subgraphName, entities)
+    : new Map<string, EntitySyncStatus>();
+
+  return entities.reduce((acc, entityName) => {
+    const status = stored.get(entityName);
+    if (status && !status.isComplete) {
+      log.info(`Resuming sync of ${entityName} after id ${status.lastProcessedId} (${status.totalProcessed} records already processed)`);
+      acc[entityName] = status;
+    } else {
+      acc[entityName] = createInitialStatus(entityName);
+    }
     return acc;
   }, {} as Record<string, EntitySyncStatus>);
+};
 
-  const entityData: EntityDataCollection = {};
+/**
+ * Entities whose referenced entities (within the same sync) are complete.
+ * Pages are written as they arrive, so a referencing entity has to wait
+ * for the rows it points to in order to satisfy foreign keys.
+ */
+const getReadyEntities = (
+  context: AppContext,
+  pending: string[],
+): string[] => {
+  const ready = pending.filter(entityName =>
+    getReferencedEntities(context.schema, entityName).every(referenced => !pending.includes(referenced))
+  );
 
-  // Process each subgraph separately
-  for (const [subgraphName, subgraphEntities] of Object.entries(entitiesBySubgraph)) {
-    const graphqlContext = graphqlContexts[subgraphName];
-        
-    let requests = createEntityQueries(schema, subgraphEntities, {
-      first: graphqlContext.pagination.maxRowsPerRequest,
-      filters: buildFilters(undefined, blockNumber)
-    });
+  if (ready.length === 0 && pending.length > 0) {
+    log.warn(`Circular references between ${pending.join(', ')}, syncing them together`);
+    return pending;
+  }
+
+  return ready;
+};
+
+interface EntityPage {
+  entityName: string;
+  records: EntityRecord[];
+  status: EntitySyncStatus;
+}
 
-    while (requests.length > 0) {
-      const results = await executeRequests(graphqlContext, requests);
-
-      requests = [];
-      for (const [entityName, data] of Object.entries(results)) {
-        const currentStatus = entityStatus[entityName];
-        if (!currentStatus) {
-          throw new Error(`No status found for entity "${entityName}"`);
-        }
-
-        const lastId = data.length > 0 ? data[data.length - 1].id : null;
-        log.info(`Entity ${entityName}: Last ID from batch: ${lastId}, Records in batch: ${data.length}`);
-
-        const newStatus = updateStatus(
-          currentStatus,
-                    lastId as string | null,
-                    data.length,
-                    graphqlContext.pagination.maxRowsPerRequest
-        );
-        entityStatus[entityName] = newStatus;
-        log.info(`Entity ${entityName} status:`, {
-          lastProcessedId: newStatus.lastProcessedId,
-          isComplete: newStatus.isComplete,
-          totalProcessed: newStatus.totalProcessed
-        });
-
-        if (!newStatus.isComplete && newStatus.lastProcessedId) {
-          const nextQueries = createEntityQueries(schema, [entityName], {
-            first: graphqlContext.pagination.maxRowsPerRequest,
-            filters: buildFilters(newStatus.lastProcessedId, blockNumber)
-          });
-          requests.push(...nextQueries);
-        } else {
-          log.info(`No more queries needed for ${entityName}. Complete: ${newStatus.isComplete}, Last ID: ${newStatus.lastProcessedId}`);
-        }
-
-        if (data.length > 0) {
-          const existingData = entityData[entityName] || [];
-          entityData[entityName] = [...existingData, ...data];
-        }
-
-        log.info(`Processed ${newStatus.totalProcessed} records for ${entityName}`);
+/**
+ * Yields the pages of the given entities one query round at a time. Nothing is
+ * kept once a page is yielded, so memory is bounded by how far the consumer
+ * lets this generator run ahead. Pages come out in dependency order: an entity
+ * is only requested once every entity it references has yielded its last page.
+ */
+async function* fetchEntityPages(
+  context: AppContext,
+  subgraphName: string,
+  entityStatus: Record<string, EntitySyncStatus>,
+  pinnedBlock: bigint,
+  blockNumber?: bigint,
+): AsyncGenerator<EntityPage> {
+  const graphqlContext = context.graphqlContexts[subgraphName];
+  const { maxRowsPerRequest } = graphqlContext.pagination;
+  let pending = Object.keys(entityStatus);
+
+  while (pending.length > 0) {
+    const ready = getReadyEntities(context, pending);
+    const requests: GraphQLRequest[] = ready.map(entityName => createEntityQuery(context.schema, entityName, {
+      first: maxRowsPerRequest,
+      filters: buildFilters(entityStatus[entityName].lastProcessedId ?? undefined, blockNumber),
+      block: { number: pinnedBlock }
+    }));
+
+    const results = await executeRequests(graphqlContext, requests);
+
+    for (const entityName of ready) {
+      const records = results[entityName];
+      if (!records) {
+        throw new Error(`No results returned for entity "${entityName}" from subgraph ${subgraphName}`);
       }
 
-      log.info(`Created ${requests.length} queries for next batch`);
+      const lastId = records.length > 0 ? records[records.length - 1].id : null;
+      entityStatus[entityName] = updateStatus(entityStatus[entityName], lastId, records.length, maxRowsPerRequest);
+
+      yield { entityName, records, status: entityStatus[entityName] };
     }
+
+    pending = pending.filter(entityName => !entityStatus[entityName].isComplete);
+    log.info(`${pending.length} entities left to sync from ${subgraphName}`);
   }
+}
+
+/**
+ * Streams the entities of one subgraph into the database. The next query round
+ * is fetched while the current page is written, but never more than
+ * `prefetchPages` pages ahead, and each cursor is only persisted (for full
+ * syncs) once its page has been written.
+ */
+const syncSubgraphEntities = async (
+  context: AppContext,
+  subgraphName: string,
+  entities: string[],
+  blockNumber?: bigint,
+): Promise<void> => {
+  const { schema, dbContext } = context;
+  const prefetchPages = context.graphqlContexts[subgraphName].pagination.prefetchPages ?? DEFAULT_PREFETCH_PAGES;
+  const resumable = blockNumber === undefined;
 
-  return entityData;
+  const entityStatus = await loadInitialStatuses(context, subgraphName, entities, resumable);
+
+  // Every page of every entity is read at the same block, so the data set is consistent
+  // even though the subgraph keeps indexing while we page through it
+  const { blockNumber: indexedBlock } = await fetchSubgraphMeta(context.graphqlContexts[subgraphName]);
+  const pinnedBlock = capToConfirmedBlock(context.chainHead, indexedBlock);
+  log.info(`Syncing ${entities.join(', ')} from ${subgraphName} as of block ${pinnedBlock}`);
+
+  const pages = fetchEntityPages(context, subgraphName, entityStatus, pinnedBlock, blockNumber);
+
+  for await (const { entityName, records, status } of readAhead(pages, prefetchPages)) {
+    if (records.length > 0) {
+      log.info(`Upserting ${records.length} records for ${entityName}`);
+      await executeUpsert(dbContext, entityName, records, schema);
+    }
+
+    if (resumable) {
+      await saveSyncState(dbContext.db, subgraphName, status);
+    }
+
+    log.info(`Entity ${entityName} status:`, {
+      lastProcessedId: status.lastProcessedId,
+      isComplete: status.isComplete,
+      totalProcessed: status.totalProcessed
+    });
+  }
 };
 
 const processEntityData = async (
@@ -151,13 +235,21 @@ const processEntityData = async (
   log.info('Completed processing all data');
 };
 
+/**
+ * Syncs the given entities from their subgraphs. Without a block number this
+ * is a full sync whose per-entity cursor is persisted after every page, so an
+ * interrupted run resumes where it stopped.
+ */
 const syncEntities = async (
   context: AppContext,
   entities: string[],
   blockNumber?: bigint,
 ): Promise<void> => {
-  const entityData = await collectEntityData(context, entities, blockNumber);
-  await processEntityData(context, entityData);
+  const entitiesBySubgraph = groupEntitiesBySubgraph(context, entities);
+
+  for (const [subgraphName, subgraphEntities] of Object.entries(entitiesBySubgraph)) {
+    await syncSubgraphEntities(context, subgraphName, subgraphEntities, blockNumber);
+  }
 };
 
 export { syncEntities, processEntityData };
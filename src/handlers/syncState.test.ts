@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Knex } from 'knex';
+import { clearEventCursors } from './syncState';
+
+/**
+ * Knex stand-in recording the deletions it runs, with their `whereIn` filter
+ */
+const createRecordingDb = () => {
+  const deletions: { table: string; entityNames?: string[] }[] = [];
+  const db = (table: string) => {
+    let entityNames: string[] | undefined;
+    const query = {
+      whereIn: (_column: string, names: string[]) => {
+        entityNames = names;
+        return query;
+      },
+      delete: async () => {
+        deletions.push({ table, entityNames });
+        return 1;
+      }
+    };
+    return query;
+  };
+  return { db: db as unknown as Knex, deletions };
+};
+
+describe('syncState', () => {
+  describe('clearEventCursors', () => {
+    it('should forget every event cursor when no entity is given', async () => {
+      const { db, deletions } = createRecordingDb();
+
+      await clearEventCursors(db);
+
+      assert.deepEqual(deletions, [{ table: 'EventCursor', entityNames: undefined }]);
+    });
+
+    it('should forget the cursors of emptied entities and of gauge discovery', async () => {
+      const { db, deletions } = createRecordingDb();
+
+      await clearEventCursors(db, ['Builder', 'GaugeAllocated']);
+
+      assert.deepEqual(deletions, [{ table: 'EventCursor', entityNames: ['Builder', 'GaugeAllocated', 'Gauge'] }]);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { Knex } from 'knex';
+import { EVENT_CURSOR_TABLE, GAUGE_TABLE, SYNC_STATE_TABLE } from './internalTables';
+
+/**
+ * Progress of a full (non-incremental) sync of one entity from one subgraph provider.
+ * Persisted after every page so an interrupted sync can resume from `lastProcessedId`.
+ */
+interface EntitySyncStatus {
+  entityName: string;
+  lastProcessedId: string | null;
+  isComplete: boolean;
+  totalProcessed: number;
+}
+
+interface SyncStateRow extends EntitySyncStatus {
+  provider: string;
+  updatedAt?: Date;
+}
+
+/**
+ * Loads the persisted sync status of the given entities for a provider
+ */
+const getSyncStates = async (
+  db: Knex,
+  provider: string,
+  entityNames: string[]
+): Promise<Map<string, EntitySyncStatus>> => {
+  const rows = await db<SyncStateRow>(SYNC_STATE_TABLE)
+    .where({ provider })
+    .whereIn('entityName', entityNames);
+
+  return new Map(rows.map(({ entityName, lastProcessedId, isComplete, totalProcessed }) => [
+    entityName,
+    { entityName, lastProcessedId, isComplete, totalProcessed: Number(totalProcessed) }
+  ]));
+};
+
+/**
+ * Stores the sync status of an entity after a page has been written
+ */
+const saveSyncState = async (
+  db: Knex,
+  provider: string,
+  status: EntitySyncStatus
+): Promise<void> => {
+  await db<SyncStateRow>(SYNC_STATE_TABLE)
+    .insert({ ...status, provider, updatedAt: new Date() })
+    .onConflict(['entityName', 'provider'])
+    .merge();
+};
+
+/**
+ * Lists entities whose last full sync was interrupted before completing
+ */
+const getIncompleteSyncs = async (db: Knex): Promise<string[]> =>
+  db<SyncStateRow>(SYNC_STATE_TABLE)
+    .where({ isComplete: false })
+    .distinct()
+    .pluck('entityName');
+
+/**
+ * Forgets every stored cursor, e.g. after the entity tables were dropped
+ */
+const clearSyncStates = async (db: Knex): Promise<void> => {
+  await db(SYNC_STATE_TABLE).delete();
+};
+
+/**
+ * Forgets the event cursors of the given entities, or every one, after their
+ * rows were dropped or emptied, so their logs are indexed again. Gauge
+ * discovery's cursor goes as well: the registry is cross-checked against the
+ * emptied rows on its next refresh.
+ */
+const clearEventCursors = async (db: Knex, entityNames?: string[]): Promise<void> => {
+  const query = db(EVENT_CURSOR_TABLE);
+  if (entityNames) {
+    query.whereIn('entityName', [...entityNames, GAUGE_TABLE]);
+  }
+  await query.delete();
+};
+
+export { clearEventCursors, clearSyncStates, getIncompleteSyncs, getSyncStates, saveSyncState };
+export type { EntitySyncStatus };
@@ -44,9 +44,16 @@ const isArrayColumnType = (type: string | string[]): type is ArrayColumnType =>
 
 type EntityRecord = unknown & { id: string };
 
+/**
+ * Decodes a stored value: pg returns Bytes columns as Buffers holding the
+ * text of the hex string that was written
+ */
+const fromStoredValue = (value: unknown): unknown =>
+  (Buffer.isBuffer(value) ? value.toString() : value);
+
 type WithMetadata = true;
 type EntityDataCollection<WMeta extends boolean = false> = WMeta extends WithMetadata ?
     Record<string, EntityRecord[]> & { _meta: GraphQLMetadata } : Record<string, EntityRecord[]>;
 
-export { columnTypeConfigs, isArrayColumnType, isColumnType };
+export { columnTypeConfigs, fromStoredValue, isArrayColumnType, isColumnType };
 export type { ArrayColumnType, ColumnType, ColumnTypeConfig, EntityDataCollection, EntityRecord, WithMetadata };
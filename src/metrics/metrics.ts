@@ -0,0 +1,158 @@
+import { Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { SubgraphErrorKind } from '../context/subgraphErrors';
+
+/**
+ * Outcome of a GraphQL request: `success`, or the kind of error it failed with
+ */
+type RequestOutcome = 'success' | SubgraphErrorKind;
+
+/**
+ * Outcome of a strategy run for a block: it `processed` changes, had nothing
+ * to do (`skipped`) or `failed`
+ */
+type StrategyOutcome = 'processed' | 'skipped' | 'failed';
+
+const createMetrics = (registry: Registry) => {
+  const registers = [registry];
+
+  return {
+    registry,
+    graphqlRequests: new Counter({
+      name: 'graphql_requests_total',
+      help: 'GraphQL requests (one per batch, retries included) by provider and outcome',
+      labelNames: ['provider', 'outcome'] as const,
+      registers
+    }),
+    graphqlHttpRequests: new Counter({
+      name: 'graphql_http_requests_total',
+      help: 'HTTP requests sent to subgraph endpoints, one per attempt',
+      labelNames: ['provider'] as const,
+      registers
+    }),
+    graphqlRequestDuration: new Histogram({
+      name: 'graphql_request_duration_seconds',
+      help: 'Time to complete a GraphQL request, retries included',
+      labelNames: ['provider'] as const,
+      buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+      registers
+    }),
+    graphqlBatchSize: new Histogram({
+      name: 'graphql_batch_size',
+      help: 'Queries combined into one GraphQL request',
+      labelNames: ['provider'] as const,
+      buckets: [1, 2, 3, 5, 10, 20, 50],
+      registers
+    }),
+    rowsUpserted: new Counter({
+      name: 'rows_upserted_total',
+      help: 'Rows written to entity tables',
+      labelNames: ['entity'] as const,
+      registers
+    }),
+    strategyRuns: new Counter({
+      name: 'strategy_runs_total',
+      help: 'Strategy runs by outcome',
+      labelNames: ['strategy', 'outcome'] as const,
+      registers
+    }),
+    strategyRunDuration: new Histogram({
+      name: 'strategy_run_duration_seconds',
+      help: 'Time spent running a strategy for a block (for batched strategies, the whole batch)',
+      labelNames: ['strategy'] as const,
+      buckets: [0.01, 0.05, 0.1, 0.5, 1, 5, 10, 30, 60, 300],
+      registers
+    }),
+    lastProcessedBlock: new Gauge({
+      name: 'last_processed_block',
+      help: 'Number of the last block handled by the block watcher',
+      registers
+    }),
+    blockQueueDepth: new Gauge({
+      name: 'block_queue_depth',
+      help: 'Blocks waiting for the block watcher to handle them',
+      registers
+    }),
+    blockProcessingLatency: new Histogram({
+      name: 'block_processing_latency_seconds',
+      help: 'Time from a block\'s arrival until it is handled (for coalesced blocks, the oldest one)',
+      buckets: [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 300],
+      registers
+    }),
+    reorgsDetected: new Counter({
+      name: 'reorgs_detected_total',
+      help: 'Chain reorganisations detected',
+      registers
+    }),
+    reorgDepth: new Histogram({
+      name: 'reorg_depth_blocks',
+      help: 'Stored blocks reorged out per reorg (a lower bound when deeper than the block history)',
+      buckets: [1, 2, 3, 5, 10, 25, 50, 100],
+      registers
+    }),
+    reorgRollbacks: new Counter({
+      name: 'reorg_rollbacks_total',
+      help: 'Reorg rollbacks by mode: partial (touched entities only) or full (schema rebuild)',
+      labelNames: ['mode'] as const,
+      registers
+    }),
+    chainHeadLag: new Gauge({
+      name: 'subgraph_chain_head_lag_blocks',
+      help: 'Blocks a provider\'s subgraph is behind the chain head',
+      labelNames: ['provider'] as const,
+      registers
+    }),
+    reconciliationDiscrepancies: new Counter({
+      name: 'reconciliation_discrepancies_total',
+      help: 'Subgraph values found to differ from the contracts, by entity and column',
+      labelNames: ['entity', 'column'] as const,
+      registers
+    }),
+    gaugeRegistryMismatches: new Gauge({
+      name: 'gauge_registry_mismatches',
+      help: 'Gauges on which the BuilderRegistry and the subgraph\'s GaugeToBuilder disagree, as of the last refresh',
+      registers
+    })
+  };
+};
+
+type Metrics = ReturnType<typeof createMetrics>;
+
+let metrics: Metrics = createMetrics(new Registry());
+
+/**
+ * The metrics every module records to
+ */
+const getMetrics = (): Metrics => metrics;
+
+/**
+ * Re-registers all metrics in the given registry, e.g. a fresh one per test,
+ * and returns them
+ */
+const useMetricsRegistry = (registry: Registry): Metrics => {
+  metrics = createMetrics(registry);
+  return metrics;
+};
+
+/**
+ * Sum of a counter over all its label values
+ */
+const getCounterTotal = async (counter: Counter<string>): Promise<number> =>
+  (await counter.get()).values.reduce((total, { value }) => total + value, 0);
+
+/**
+ * One-line summary of the main counters, e.g. for logging on shutdown
+ */
+const summarizeMetrics = async (): Promise<string> => {
+  const { graphqlRequests, rowsUpserted, strategyRuns, reorgsDetected, lastProcessedBlock } = getMetrics();
+  const { values: [lastBlock] } = await lastProcessedBlock.get();
+  return [
+    `${await getCounterTotal(graphqlRequests)} GraphQL requests`,
+    `${await getCounterTotal(rowsUpserted)} rows upserted`,
+    `${await getCounterTotal(strategyRuns)} strategy runs`,
+    `${await getCounterTotal(reorgsDetected)} reorgs`,
+    `last processed block ${lastBlock?.value ?? 'none'}`
+  ].join(', ');
+};
+
+export { getCounterTotal, getMetrics, summarizeMetrics, useMetricsRegistry };
+export type { Metrics, RequestOutcome, StrategyOutcome };
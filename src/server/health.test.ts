@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DatabaseContext } from '../context/db';
+import {
+  checkLiveness,
+  checkReadiness,
+  createServiceHealth,
+  healthRoute,
+  markReady,
+  recordBlockOutcomes
+} from './health';
+
+const NOW = 1_700_000_000_000;
+
+/**
+ * Database stub answering `select 1` and the LastProcessedBlock lookup
+ */
+const createDb = (lastProcessedBlock?: bigint, reachable = true): DatabaseContext['db'] => {
+  const unreachable = () => Promise.reject(new Error('connection refused'));
+  const db = () => ({
+    first: () => reachable
+      ? Promise.resolve(lastProcessedBlock === undefined ? undefined : { number: lastProcessedBlock })
+      : unreachable()
+  });
+  db.raw = () => reachable ? Promise.resolve() : unreachable();
+  return db as unknown as DatabaseContext['db'];
+};
+
+describe('health', () => {
+  describe('checkReadiness', () => {
+    it('should not be ready before the initial sync completes', async () => {
+      const health = createServiceHealth();
+
+      assert.deepEqual(await checkReadiness(health, createDb()), {
+        ok: false,
+        problems: ['initial sync has not completed']
+      });
+    });
+
+    it('should be ready once synced with a reachable database', async () => {
+      const health = createServiceHealth();
+      markReady(health);
+
+      assert.equal((await checkReadiness(health, createDb())).ok, true);
+    });
+
+    it('should not be ready while the database is unreachable', async () => {
+      const health = createServiceHealth();
+      markReady(health);
+
+      const report = await checkReadiness(health, createDb(undefined, false));
+
+      assert.equal(report.ok, false);
+      assert.match(report.problems[0], /database unreachable: connection refused/);
+    });
+  });
+
+  describe('checkLiveness', () => {
+    it('should pass during the initial sync', async () => {
+      const health = createServiceHealth();
+
+      assert.equal((await checkLiveness(health, { blockNumber: 1000n }, createDb(), {}, NOW)).ok, true);
+    });
+
+    it('should fail when no block was processed recently', async () => {
+      const health = createServiceHealth();
+      markReady(health, NOW - 200_000);
+      recordBlockOutcomes(health, ['processed'], NOW - 120_000);
+
+      const report = await checkLiveness(health, {}, createDb(), { maxBlockAge: 60 }, NOW);
+
+      assert.deepEqual(report.problems, ['no block processed for 120s (max 60s)']);
+    });
+
+    it('should count the time since the watcher started before the first block', async () => {
+      const health = createServiceHealth();
+      markReady(health, NOW - 30_000);
+
+      assert.equal((await checkLiveness(health, {}, createDb(), { maxBlockAge: 60 }, NOW)).ok, true);
+    });
+
+    it('should fail when LastProcessedBlock lags the chain head too far', async () => {
+      const health = createServiceHealth();
+      markReady(health, NOW);
+
+      const report = await checkLiveness(health, { blockNumber: 1200n }, createDb(1000n), { maxBlockLag: 100 }, NOW);
+
+      assert.deepEqual(report.problems, ['LastProcessedBlock is 200 blocks behind the chain head (max 100)']);
+      assert.equal((await checkLiveness(health, { blockNumber: 1050n }, createDb(1000n), { maxBlockLag: 100 }, NOW)).ok, true);
+    });
+
+    it('should not count blocks waiting for confirmations as lag', async () => {
+      const health = createServiceHealth();
+      markReady(health, NOW);
+      const chainHead = { blockNumber: 1200n, confirmedBlockNumber: 1080n };
+
+      assert.equal((await checkLiveness(health, chainHead, createDb(1000n), { maxBlockLag: 100 }, NOW)).ok, true);
+    });
+
+    it('should fail when every strategy failed for too many blocks in a row', async () => {
+      const health = createServiceHealth();
+      markReady(health, NOW);
+      recordBlockOutcomes(health, ['failed', 'failed'], NOW);
+      recordBlockOutcomes(health, ['failed', 'failed'], NOW);
+
+      const report = await checkLiveness(health, {}, createDb(), { maxFailedBlocks: 2 }, NOW);
+
+      assert.deepEqual(report.problems, ['every strategy failed on the last 2 blocks (max 2)']);
+    });
+
+    it('should reset the failure streak when any strategy succeeds', () => {
+      const health = createServiceHealth();
+      recordBlockOutcomes(health, ['failed'], NOW);
+      recordBlockOutcomes(health, ['failed', 'skipped'], NOW);
+
+      assert.equal(health.failedBlocks, 0);
+    });
+  });
+
+  describe('healthRoute', () => {
+    it('should answer 503 with the problems when the check fails', async () => {
+      const route = healthRoute(async () => ({ ok: false, problems: ['initial sync has not completed'] }));
+
+      const { status, body } = await route();
+
+      assert.equal(status, 503);
+      assert.deepEqual(JSON.parse(body), { status: 'failing', problems: ['initial sync has not completed'] });
+    });
+
+    it('should answer 200 when the check passes', async () => {
+      const route = healthRoute(async () => ({ ok: true, problems: [] }));
+
+      assert.equal((await route()).status, 200);
+    });
+  });
+});
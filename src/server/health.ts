@@ -0,0 +1,128 @@
+import { HealthThresholds } from '../config/types';
+import { DatabaseContext } from '../context/db';
+import { ChainHead } from '../context/indexingStatus';
+import { StrategyOutcome } from '../metrics/metrics';
+import { LastProcessedBlock } from '../watchers/strategies/types';
+import { RouteHandler } from './httpServer';
+
+const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  maxBlockAge: 300,
+  maxBlockLag: 100,
+  maxFailedBlocks: 10
+};
+
+/**
+ * Progress of the service, updated by `main` and the block watcher and read
+ * by the health endpoints
+ */
+interface ServiceHealth {
+  /** Set once the initial sync has completed; liveness checks start from here */
+  readyAt?: number;
+  lastBlockAt?: number;
+  /** Blocks in a row on which every strategy failed */
+  failedBlocks: number;
+}
+
+interface HealthReport {
+  ok: boolean;
+  problems: string[];
+}
+
+const createServiceHealth = (): ServiceHealth => ({ failedBlocks: 0 });
+
+const markReady = (health: ServiceHealth, now = Date.now()): void => {
+  health.readyAt = now;
+};
+
+/**
+ * Records that a block was handled, with the outcome of every strategy run on it
+ */
+const recordBlockOutcomes = (health: ServiceHealth, outcomes: StrategyOutcome[], now = Date.now()): void => {
+  health.lastBlockAt = now;
+  const allFailed = outcomes.length > 0 && outcomes.every(outcome => outcome === 'failed');
+  health.failedBlocks = allFailed ? health.failedBlocks + 1 : 0;
+};
+
+const toReport = (problems: string[]): HealthReport => ({ ok: problems.length === 0, problems });
+
+/**
+ * Ready once the initial sync has completed and the database answers
+ */
+const checkReadiness = async (health: ServiceHealth, db: DatabaseContext['db']): Promise<HealthReport> => {
+  const problems: string[] = [];
+  if (health.readyAt === undefined) {
+    problems.push('initial sync has not completed');
+  }
+  try {
+    await db.raw('select 1');
+  } catch (error) {
+    problems.push(`database unreachable: ${(error as Error).message}`);
+  }
+  return toReport(problems);
+};
+
+/**
+ * Healthy unless the block watcher has stalled, fallen too far behind the
+ * chain head or seen every strategy fail for too many blocks. Nothing is
+ * checked during the initial sync, which may legitimately take long.
+ */
+const checkLiveness = async (
+  health: ServiceHealth,
+  chainHead: ChainHead,
+  db: DatabaseContext['db'],
+  thresholds: Partial<HealthThresholds> = {},
+  now = Date.now()
+): Promise<HealthReport> => {
+  const { maxBlockAge, maxBlockLag, maxFailedBlocks } = { ...DEFAULT_HEALTH_THRESHOLDS, ...thresholds };
+  const problems: string[] = [];
+  if (health.readyAt === undefined) {
+    return toReport(problems);
+  }
+
+  const blockAge = (now - (health.lastBlockAt ?? health.readyAt)) / 1000;
+  if (blockAge > maxBlockAge) {
+    problems.push(`no block processed for ${Math.round(blockAge)}s (max ${maxBlockAge}s)`);
+  }
+
+  if (health.failedBlocks >= maxFailedBlocks) {
+    problems.push(`every strategy failed on the last ${health.failedBlocks} blocks (max ${maxFailedBlocks})`);
+  }
+
+  // Blocks waiting for confirmations are not processed yet, so they don't count as lag
+  const head = chainHead.confirmedBlockNumber ?? chainHead.blockNumber;
+  if (head !== undefined) {
+    try {
+      const lastProcessed = await db<LastProcessedBlock>('LastProcessedBlock').first('number');
+      const lag = lastProcessed ? head - BigInt(lastProcessed.number) : undefined;
+      if (lag !== undefined && lag > BigInt(maxBlockLag)) {
+        problems.push(`LastProcessedBlock is ${lag} blocks behind the chain head (max ${maxBlockLag})`);
+      }
+    } catch (error) {
+      problems.push(`could not read LastProcessedBlock: ${(error as Error).message}`);
+    }
+  }
+
+  return toReport(problems);
+};
+
+/**
+ * Answers 200 while the check passes and 503 otherwise, listing the problems
+ */
+const healthRoute = (check: () => Promise<HealthReport>): RouteHandler => async () => {
+  const { ok, problems } = await check();
+  return {
+    status: ok ? 200 : 503,
+    contentType: 'application/json',
+    body: JSON.stringify({ status: ok ? 'ok' : 'failing', problems })
+  };
+};
+
+export {
+  checkLiveness,
+  checkReadiness,
+  createServiceHealth,
+  healthRoute,
+  markReady,
+  recordBlockOutcomes
+};
+export type { HealthReport, ServiceHealth };
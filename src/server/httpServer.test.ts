@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { after, before, describe, it } from 'node:test';
+import log from 'loglevel';
+import { Counter, Registry } from 'prom-client';
+import { createHttpServer, metricsRoute, startHttpServer } from './httpServer';
+
+describe('httpServer', () => {
+  const registry = new Registry();
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    log.setLevel('silent');
+    new Counter({ name: 'test_events_total', help: 'Events seen by the test', registers: [registry] }).inc(3);
+    server = createHttpServer({
+      '/metrics': metricsRoute(registry),
+      '/broken': async () => {
+        throw new Error('boom');
+      }
+    });
+    await startHttpServer(server, 0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should serve metrics in the Prometheus text format', async () => {
+    const response = await fetch(`${baseUrl}/metrics`);
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('content-type'), registry.contentType);
+    assert.match(await response.text(), /^test_events_total 3$/m);
+  });
+
+  it('should answer unknown paths with 404', async () => {
+    const response = await fetch(`${baseUrl}/unknown`);
+
+    assert.equal(response.status, 404);
+  });
+
+  it('should only accept GET requests', async () => {
+    const response = await fetch(`${baseUrl}/metrics`, { method: 'POST' });
+
+    assert.equal(response.status, 405);
+    assert.equal(response.headers.get('allow'), 'GET');
+  });
+
+  it('should answer failing routes with 500', async () => {
+    const response = await fetch(`${baseUrl}/broken`);
+
+    assert.equal(response.status, 500);
+  });
+});
@@ -0,0 +1,82 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import log from 'loglevel';
+import { Registry } from 'prom-client';
+
+interface RouteResponse {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * Answers a GET request on one path
+ */
+type RouteHandler = () => Promise<RouteResponse>;
+
+/**
+ * Serves the registry in the Prometheus text format
+ */
+const metricsRoute = (registry: Registry): RouteHandler => async () => ({
+  status: 200,
+  contentType: registry.contentType,
+  body: await registry.metrics()
+});
+
+const handleRequest = async (
+  routes: Record<string, RouteHandler>,
+  request: IncomingMessage,
+  response: ServerResponse
+): Promise<void> => {
+  const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+  const route = routes[path];
+
+  if (!route) {
+    response.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found\n');
+    return;
+  }
+  if (request.method !== 'GET') {
+    response.writeHead(405, { 'Content-Type': 'text/plain', Allow: 'GET' }).end('Method not allowed\n');
+    return;
+  }
+
+  try {
+    const { status, contentType, body } = await route();
+    response.writeHead(status, { 'Content-Type': contentType }).end(body);
+  } catch (error) {
+    log.error(`[httpServer:handleRequest] ${path} failed:`, error);
+    response.writeHead(500, { 'Content-Type': 'text/plain' }).end('Internal server error\n');
+  }
+};
+
+/**
+ * Creates the HTTP server exposing operational endpoints such as `/metrics`
+ */
+const createHttpServer = (routes: Record<string, RouteHandler>): Server =>
+  createServer((request, response) => {
+    void handleRequest(routes, request, response);
+  });
+
+/**
+ * Starts listening, resolving once the server accepts connections
+ */
+const startHttpServer = (server: Server, port: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => {
+      server.off('error', reject);
+      log.info(`[httpServer:startHttpServer] Listening on port ${port}`);
+      resolve();
+    });
+  });
+
+/**
+ * Stops accepting connections, resolving once open ones are closed
+ */
+const stopHttpServer = (server: Server): Promise<void> =>
+  new Promise((resolve, reject) => {
+    server.close(error => error ? reject(error) : resolve());
+    server.closeIdleConnections();
+  });
+
+export { createHttpServer, metricsRoute, startHttpServer, stopHttpServer };
+export type { RouteHandler, RouteResponse };
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import log from 'loglevel';
+import { Registry } from 'prom-client';
+import { createChainHead } from '../context/indexingStatus';
+import { AppContext } from '../context/types';
+import { useMetricsRegistry } from '../metrics/metrics';
+import { createMockConfig } from '../test-helpers/mockConfig';
+import { createServiceHealth, markReady } from './health';
+import { stopHttpServer } from './httpServer';
+import { startOperationalServer } from './operationalServer';
+
+describe('operationalServer', () => {
+  let context: AppContext;
+  let server: Server | undefined;
+
+  beforeEach(() => {
+    log.setLevel('silent');
+    useMetricsRegistry(new Registry());
+    context = {
+      config: { ...createMockConfig(), server: { port: 0 } },
+      health: createServiceHealth(),
+      chainHead: createChainHead(),
+      dbContext: { db: { raw: async () => undefined } }
+    } as unknown as AppContext;
+  });
+
+  afterEach(async () => {
+    if (server) {
+      await stopHttpServer(server);
+      server = undefined;
+    }
+  });
+
+  const get = (path: string) => fetch(`http://127.0.0.1:${((server as Server).address() as AddressInfo).port}${path}`);
+
+  it('should serve metrics on the configured port', async () => {
+    server = await startOperationalServer(context);
+
+    const response = await get('/metrics');
+
+    assert.equal(response.status, 200);
+    assert.match(await response.text(), /^process_cpu_user_seconds_total /m);
+  });
+
+  it('should serve liveness and readiness, ready once the initial sync completed', async () => {
+    server = await startOperationalServer(context);
+
+    assert.equal((await get('/healthz')).status, 200);
+    assert.equal((await get('/readyz')).status, 503);
+
+    markReady(context.health);
+
+    assert.equal((await get('/readyz')).status, 200);
+  });
+
+  it('should start nothing without a server section', async () => {
+    context.config.server = undefined;
+
+    assert.equal(await startOperationalServer(context), undefined);
+  });
+});
@@ -0,0 +1,33 @@
+import { Server } from 'node:http';
+import log from 'loglevel';
+import { collectDefaultMetrics } from 'prom-client';
+
+import { AppContext } from '../context/types';
+import { getMetrics } from '../metrics/metrics';
+import { checkLiveness, checkReadiness, healthRoute } from './health';
+import { createHttpServer, metricsRoute, startHttpServer } from './httpServer';
+
+/**
+ * Starts the HTTP server serving `/metrics`, `/healthz` and `/readyz` on the
+ * configured `server.port`. Returns undefined, starting nothing, when no
+ * `server` section is configured.
+ */
+const startOperationalServer = async (context: AppContext): Promise<Server | undefined> => {
+  const { config: { server }, health, chainHead, dbContext: { db } } = context;
+  if (!server) {
+    log.info('[operationalServer:startOperationalServer] No server configured, /metrics and health endpoints are not served');
+    return undefined;
+  }
+
+  const { registry } = getMetrics();
+  collectDefaultMetrics({ register: registry });
+  const httpServer = createHttpServer({
+    '/metrics': metricsRoute(registry),
+    '/healthz': healthRoute(() => checkLiveness(health, chainHead, db, server.health)),
+    '/readyz': healthRoute(() => checkReadiness(health, db))
+  });
+  await startHttpServer(httpServer, server.port);
+  return httpServer;
+};
+
+export { startOperationalServer };
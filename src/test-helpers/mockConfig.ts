@@ -68,6 +68,8 @@ export const createMockContext = () => {
       maxRetries: config.database.maxRetries,
       initialRetryDelay: config.database.initialRetryDelay
     },
-    graphqlContexts: {}
+    graphqlContexts: {},
+    chainHead: {},
+    health: { failedBlocks: 0 }
   };
 };
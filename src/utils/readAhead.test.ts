@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { readAhead } from './readAhead';
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+/** Source that records how many items were produced */
+const countingSource = (count: number) => {
+  const stats = { produced: 0 };
+  const source = (async function* () {
+    for (let i = 0; i < count; i++) {
+      await tick();
+      stats.produced++;
+      yield i;
+    }
+  })();
+  return { source, stats };
+};
+
+describe('readAhead', () => {
+  it('should yield every item in order', async () => {
+    const { source } = countingSource(5);
+    const items: number[] = [];
+
+    for await (const item of readAhead(source, 2)) {
+      items.push(item);
+    }
+
+    assert.deepEqual(items, [0, 1, 2, 3, 4]);
+  });
+
+  it('should never run more than size items ahead of the consumer', async () => {
+    const { source, stats } = countingSource(20);
+    let consumed = 0;
+    let maxAhead = 0;
+
+    for await (const item of readAhead(source, 2)) {
+      consumed = item + 1;
+      // Give the producer every chance to run ahead
+      for (let i = 0; i < 5; i++) {
+        await tick();
+      }
+      maxAhead = Math.max(maxAhead, stats.produced - consumed);
+    }
+
+    assert.equal(consumed, 20);
+    assert.ok(maxAhead <= 2, `producer ran ${maxAhead} items ahead`);
+    assert.ok(maxAhead > 0, 'producer should run ahead while the consumer is busy');
+  });
+
+  it('should consume in lockstep with size 0', async () => {
+    const { source, stats } = countingSource(5);
+    let consumed = 0;
+
+    for await (const item of readAhead(source, 0)) {
+      consumed = item + 1;
+      await tick();
+      await tick();
+      assert.equal(stats.produced, consumed);
+    }
+  });
+
+  it('should propagate source errors to the consumer', async () => {
+    const source = (async function* () {
+      yield 1;
+      throw new Error('boom');
+    })();
+
+    const items: number[] = [];
+
+    await assert.rejects(async () => {
+      for await (const item of readAhead(source, 1)) {
+        items.push(item);
+      }
+    }, /boom/);
+    assert.deepEqual(items, [1]);
+  });
+
+  it('should stop the source when the consumer stops early', async () => {
+    let finalized = false;
+    const source = (async function* () {
+      try {
+        for (let i = 0; ; i++) {
+          yield i;
+        }
+      } finally {
+        finalized = true;
+      }
+    })();
+
+    for await (const item of readAhead(source, 1)) {
+      if (item === 3) {
+        break;
+      }
+    }
+
+    assert.equal(finalized, true);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Lets a producer run up to `size` items ahead of its consumer.
+ *
+ * With `size = 1` the next page is being fetched while the current one is
+ * written, yet at most two items exist outside the source at any time: once
+ * the buffer is full the source is not pulled again until the consumer catches
+ * up (backpressure). `size = 0` consumes the source strictly in lockstep.
+ */
+async function* readAhead<T>(source: AsyncIterable<T>, size: number): AsyncGenerator<T> {
+  const iterator = source[Symbol.asyncIterator]();
+  const pending: Promise<IteratorResult<T>>[] = [];
+
+  try {
+    for (;;) {
+      while (pending.length <= size) {
+        pending.push(iterator.next());
+      }
+
+      const result = await (pending.shift() as Promise<IteratorResult<T>>);
+      if (result.done) {
+        return;
+      }
+
+      yield result.value;
+    }
+  } finally {
+    // Errors of items read ahead but never consumed are irrelevant once we stop
+    pending.forEach(item => item.catch(() => undefined));
+    await iterator.return?.();
+  }
+}
+
+export { readAhead };
@@ -8,12 +8,13 @@
  * @example
  * ```typescript
  * const results = await executeBatchedStrategies(strategies, params);
- * // Results map: strategyName -> success/failure
+ * // Results map: strategyName -> { outcome: 'processed' | 'skipped' | 'failed', error? }
  * ```
  */
 import log from 'loglevel';
 
-import { BatchableStrategy, ChangeStrategyParams } from './strategies/types';
+import { BatchableStrategy, ChangeStrategyParams, StrategyResult } from './strategies/types';
+import { SubgraphRequestError } from '../context/subgraphErrors';
 import { executeRequests, GraphQlContext, GraphQLRequest } from '../context/subgraphProvider';
 import { EntityDataCollection } from '../handlers/types';
 
@@ -38,13 +39,13 @@ interface QueryEntry {
  *
  * @param strategies - Array of batchable strategies to execute
  * @param params - Execution parameters (context, client, blockNumber)
- * @returns Map of strategy names to their success/failure status
+ * @returns Map of strategy names to the outcome of their run
  */
 export async function executeBatchedStrategies(
   strategies: BatchableStrategy[],
   params: ChangeStrategyParams
-): Promise<Map<string, boolean>> {
-  const results = new Map<string, boolean>();
+): Promise<Map<string, StrategyResult>> {
+  const results = new Map<string, StrategyResult>();
 
   if (strategies.length === 0) {
     return results;
@@ -55,14 +56,21 @@ export async function executeBatchedStrategies(
   const { groups: batchGroups, failed } = await groupQueriesByEndpoint(strategies, params);
 
   // Mark failed strategies
-  for (const name of failed) {
-    results.set(name, false);
+  for (const [name, error] of failed) {
+    results.set(name, { outcome: 'failed', error });
   }
 
   for (const [endpoint, group] of batchGroups) {
     await processBatchGroup(endpoint, group, params, results);
   }
 
+  // Strategies without queries had nothing to do
+  for (const { name } of strategies) {
+    if (!results.has(name)) {
+      results.set(name, { outcome: 'skipped' });
+    }
+  }
+
   return results;
 }
 
@@ -73,21 +81,21 @@ export async function executeBatchedStrategies(
  *   Input:  [ProposalStrategy, StakingStrategy] both → governance subgraph
  *   Output: Map { "https://api.thegraph.com/governance" → { queries: [...], strategies: [...] } }
  * 
- * @returns Map of endpoint URL → batch group, plus list of failed strategies
+ * @returns Map of endpoint URL → batch group, plus the failed strategies with their errors
  */
 async function groupQueriesByEndpoint(
   strategies: BatchableStrategy[],
   params: ChangeStrategyParams
-): Promise<{ groups: Map<string, BatchGroup>; failed: string[] }> {
+): Promise<{ groups: Map<string, BatchGroup>; failed: Map<string, unknown> }> {
   const groups = new Map<string, BatchGroup>();
-  const failed: string[] = [];
+  const failed = new Map<string, unknown>();
 
   for (const strategy of strategies) {
     try {
       const graphqlContext = strategy.getSubgraphContext(params.context);
       if (!graphqlContext) {
         log.warn(`[batchExecutor:groupQueriesByEndpoint] ${strategy.name} has no subgraph context`);
-        failed.push(strategy.name);
+        failed.set(strategy.name, new Error('No subgraph context'));
         continue;
       }
 
@@ -100,7 +108,7 @@ async function groupQueriesByEndpoint(
       addToEndpointGroup(groups, graphqlContext, strategy, queries);
     } catch (error) {
       log.error(`[batchExecutor:groupQueriesByEndpoint] ${strategy.name} failed:`, error);
-      failed.push(strategy.name);
+      failed.set(strategy.name, error);
     }
   }
 
@@ -137,7 +145,7 @@ async function processBatchGroup(
   endpoint: string,
   group: BatchGroup,
   params: ChangeStrategyParams,
-  results: Map<string, boolean>
+  results: Map<string, StrategyResult>
 ): Promise<void> {
   if (group.queries.length === 0) {
     return;
@@ -163,26 +171,29 @@ async function executeSingleQuery(
   entry: QueryEntry,
   graphqlContext: GraphQlContext,
   params: ChangeStrategyParams,
-  results: Map<string, boolean>
+  results: Map<string, StrategyResult>
 ): Promise<void> {
   try {
     const queryResults = await executeRequests(graphqlContext, [entry.request]);
-    const success = await entry.strategy.processBatchResults(queryResults, params);
-    results.set(entry.strategy.name, success);
+    const processed = await entry.strategy.processBatchResults(queryResults, params);
+    results.set(entry.strategy.name, { outcome: processed ? 'processed' : 'skipped' });
   } catch (error) {
     log.error(`[BatchExecutor] Query failed for ${entry.strategy.name}:`, error);
-    results.set(entry.strategy.name, false);
+    results.set(entry.strategy.name, { outcome: 'failed', error });
   }
 }
 
 /**
  * Executes multiple queries as a single batched request.
+ *
+ * @returns false when the batch should be retried query by query, i.e. when the
+ *   subgraph rejected it as invalid and one query may be spoiling it for the rest
  */
 async function executeBatchedQueries(
   endpoint: string,
   group: BatchGroup,
   params: ChangeStrategyParams,
-  results: Map<string, boolean>
+  results: Map<string, StrategyResult>
 ): Promise<boolean> {
   try {
     log.info(`[BatchExecutor] Batching ${group.queries.length} queries to ${endpoint}`);
@@ -194,6 +205,14 @@ async function executeBatchedQueries(
     return true;
   } catch (error) {
     log.error(`[BatchExecutor] Batch failed for ${endpoint}:`, error);
+
+    if (error instanceof SubgraphRequestError && error.retryable) {
+      // Retries are exhausted for the whole endpoint, querying it once per strategy won't help
+      for (const { strategy } of group.queries) {
+        results.set(strategy.name, { outcome: 'failed', error });
+      }
+      return true;
+    }
     return false;
   }
 }
@@ -205,7 +224,7 @@ async function routeResultsToStrategies(
   queries: QueryEntry[],
   batchResults: EntityDataCollection,
   params: ChangeStrategyParams,
-  results: Map<string, boolean>
+  results: Map<string, StrategyResult>
 ): Promise<void> {
   // Group queries by strategy to collect all entity names each strategy needs
   const strategyEntities = new Map<BatchableStrategy, Set<string>>();
@@ -223,11 +242,11 @@ async function routeResultsToStrategies(
   for (const [strategy, entityNames] of strategyEntities) {
     const strategyResults = extractResults(batchResults, entityNames);
     try {
-      const success = await strategy.processBatchResults(strategyResults, params);
-      results.set(strategy.name, success);
+      const processed = await strategy.processBatchResults(strategyResults, params);
+      results.set(strategy.name, { outcome: processed ? 'processed' : 'skipped' });
     } catch (error) {
       log.error(`[BatchExecutor] ${strategy.name} failed to process results:`, error);
-      results.set(strategy.name, false);
+      results.set(strategy.name, { outcome: 'failed', error });
     }
   }
 }
@@ -254,7 +273,7 @@ function extractResults(
 async function executeFallback(
   group: BatchGroup,
   params: ChangeStrategyParams,
-  results: Map<string, boolean>
+  results: Map<string, StrategyResult>
 ): Promise<void> {
   log.warn('[BatchExecutor] Falling back to individual query execution');
 
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import log from 'loglevel';
+import { Registry } from 'prom-client';
+import { Metrics, useMetricsRegistry } from '../metrics/metrics';
+import { BlockRange, createBlockQueue } from './blockQueue';
+
+/**
+ * Handler that records its runs and only finishes a run when released
+ */
+const createControlledHandler = () => {
+  const runs: BlockRange[] = [];
+  const releases: (() => void)[] = [];
+  let active = 0;
+  let maxActive = 0;
+
+  const handle = async (range: BlockRange): Promise<void> => {
+    runs.push(range);
+    active++;
+    maxActive = Math.max(maxActive, active);
+    await new Promise<void>(resolve => releases.push(resolve));
+    active--;
+  };
+
+  const releaseNext = async () => {
+    // Let the queue reach the pending run before releasing it
+    while (releases.length === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    releases.shift()?.();
+  };
+
+  return { handle, runs, releaseNext, getMaxActive: () => maxActive };
+};
+
+describe('blockQueue', () => {
+  let metrics: Metrics;
+
+  beforeEach(() => {
+    log.setLevel('silent');
+    metrics = useMetricsRegistry(new Registry());
+  });
+
+  it('should coalesce blocks arriving during a run into one range', async () => {
+    const handler = createControlledHandler();
+    const queue = createBlockQueue(handler.handle);
+
+    queue.push(100n);
+    queue.push(101n);
+    queue.push(102n);
+    queue.push(103n);
+    assert.equal(queue.depth, 3);
+
+    await handler.releaseNext();
+    await handler.releaseNext();
+    await queue.idle();
+
+    assert.deepEqual(handler.runs, [{ from: 100n, to: 100n }, { from: 101n, to: 103n }]);
+    assert.equal(handler.getMaxActive(), 1);
+    assert.equal(queue.depth, 0);
+  });
+
+  it('should ignore blocks at or below the highest one queued', async () => {
+    const handler = createControlledHandler();
+    const queue = createBlockQueue(handler.handle);
+
+    queue.push(100n);
+    queue.push(100n);
+    queue.push(99n);
+
+    await handler.releaseNext();
+    await queue.idle();
+
+    assert.deepEqual(handler.runs, [{ from: 100n, to: 100n }]);
+  });
+
+  it('should keep handling blocks after a failed run', async () => {
+    const runs: BlockRange[] = [];
+    const queue = createBlockQueue(async range => {
+      runs.push(range);
+      if (runs.length === 1) {
+        throw new Error('strategy exploded');
+      }
+    });
+
+    queue.push(1n);
+    await queue.idle();
+    queue.push(2n);
+    await queue.idle();
+
+    assert.deepEqual(runs, [{ from: 1n, to: 1n }, { from: 2n, to: 2n }]);
+  });
+
+  it('should expose queue depth and latency metrics', async () => {
+    const handler = createControlledHandler();
+    const queue = createBlockQueue(handler.handle);
+
+    queue.push(10n);
+    queue.push(11n);
+    queue.push(12n);
+    assert.equal((await metrics.blockQueueDepth.get()).values[0].value, 2);
+
+    await handler.releaseNext();
+    await handler.releaseNext();
+    await queue.idle();
+
+    assert.equal((await metrics.blockQueueDepth.get()).values[0].value, 0);
+    const latency = await metrics.blockProcessingLatency.get();
+    assert.equal(latency.values.find(({ metricName }) => metricName === 'block_processing_latency_seconds_count')?.value, 2);
+  });
+});
@@ -0,0 +1,87 @@
+import log from 'loglevel';
+import { getMetrics } from '../metrics/metrics';
+
+/**
+ * Consecutive blocks handled in one run, `from` and `to` included
+ */
+interface BlockRange {
+  from: bigint;
+  to: bigint;
+}
+
+interface BlockQueue {
+  /** Queues a new block; blocks at or below the highest one queued so far are ignored */
+  push: (blockNumber: bigint) => void;
+  /** Blocks waiting to be handled */
+  readonly depth: number;
+  /** Resolves once no block is being handled or waiting */
+  idle: () => Promise<void>;
+}
+
+interface PendingRange extends BlockRange {
+  /** When the oldest block of the range arrived */
+  receivedAt: number;
+}
+
+const getRangeSize = ({ from, to }: BlockRange): number => Number(to - from + 1n);
+
+/**
+ * Creates a queue handing blocks to `handle` one run at a time, in block
+ * order. Blocks arriving while a run is in progress are coalesced into a
+ * single range handled by the next run, so a slow run never overlaps the next
+ * one and a backlog of missed blocks costs one run instead of one per block.
+ */
+const createBlockQueue = (handle: (range: BlockRange) => Promise<void>): BlockQueue => {
+  let pending: PendingRange | undefined;
+  let highest: bigint | undefined;
+  let running: Promise<void> | undefined;
+
+  const updateDepth = () => {
+    getMetrics().blockQueueDepth.set(pending ? getRangeSize(pending) : 0);
+  };
+
+  const drain = async (): Promise<void> => {
+    while (pending) {
+      const range = pending;
+      pending = undefined;
+      updateDepth();
+
+      try {
+        await handle({ from: range.from, to: range.to });
+      } catch (error) {
+        log.error(`[blockQueue:drain] Handling blocks ${range.from}-${range.to} failed:`, error);
+      }
+      getMetrics().blockProcessingLatency.observe((Date.now() - range.receivedAt) / 1000);
+    }
+    // Cleared in the same tick the queue is found empty, so a block pushed
+    // afterwards always starts a new drain
+    running = undefined;
+  };
+
+  const push = (blockNumber: bigint): void => {
+    if (highest !== undefined && blockNumber <= highest) {
+      log.debug(`[blockQueue:push] Ignoring block ${blockNumber}, already queued up to ${highest}`);
+      return;
+    }
+    highest = blockNumber;
+    pending = pending
+      ? { ...pending, to: blockNumber }
+      : { from: blockNumber, to: blockNumber, receivedAt: Date.now() };
+    updateDepth();
+
+    running ??= drain();
+  };
+
+  return {
+    push,
+    get depth() {
+      return pending ? getRangeSize(pending) : 0;
+    },
+    idle: async () => {
+      await running;
+    }
+  };
+};
+
+export { createBlockQueue };
+export type { BlockQueue, BlockRange };
@@ -1,26 +1,31 @@
 /**
  * Block Watcher - Monitors new blocks and orchestrates strategy execution.
  *
- * This module watches for new blocks on the blockchain and runs various
- * strategies to sync data. Strategies that support batching are executed
- * together to reduce HTTP requests.
+ * This module watches for new blocks on the blockchain and runs the
+ * strategies resolved by the registry, in order, to sync data. Consecutive
+ * strategies that support batching are executed together to reduce HTTP
+ * requests.
  */
 import log from 'loglevel';
 import { PublicClient, type Block } from 'viem';
 
 import { createClient } from '../client/createClient';
 import { AppContext } from '../context/types';
-import { getRequestMetrics, getHttpMetrics } from '../context/subgraphProvider';
-import blockChangeLogStrategy from './strategies/blockChangeLogStrategy';
-import { createRevertReorgsStrategy } from './strategies/reorgCleanupStrategy';
-import { ChangeStrategy, BatchableStrategy } from './strategies/types';
+import { getIndexingStatuses, updateChainHead } from '../context/indexingStatus';
+import { getCounterTotal, getMetrics, StrategyOutcome } from '../metrics/metrics';
+import { recordBlockOutcomes } from '../server/health';
+import { saveStrategyRun } from '../handlers/strategyState';
+import { ChangeStrategy, BatchableStrategy, ChangeStrategyParams, StrategyResult } from './strategies/types';
 import {
-  createNewProposalStrategy,
-  createProposalStateStrategy,
-  createStakingHistoryStrategy,
-  createVaultHistoryStrategy,
+  CODE_STRATEGIES,
+  getConfiguredRegistrations,
+  getContractReadRegistrations,
+  getEventIndexRegistrations,
+  logStrategyReport,
+  resolveStrategies
 } from './strategies';
 import { executeBatchedStrategies } from './batchExecutor';
+import { BlockRange, createBlockQueue } from './blockQueue';
 
 /**
  * Type guard to check if a strategy supports batching.
@@ -33,113 +38,181 @@ function isBatchable(strategy: ChangeStrategy): strategy is BatchableStrategy {
 }
 
 /**
- * Creates the block handler with all registered strategies.
+ * Strategies run in one step: consecutive batchable strategies share their
+ * requests, the others run on their own.
  */
-async function createBlockHandlerWithStrategies(
-  context: AppContext,
-  client: PublicClient
-): Promise<(blockNumber: bigint | null) => Promise<void>> {
-  const strategies: ChangeStrategy[] = [
-    createRevertReorgsStrategy(),
-    blockChangeLogStrategy,
-    createNewProposalStrategy(),
-    createProposalStateStrategy(),
-    createStakingHistoryStrategy(),
-    createVaultHistoryStrategy(),
-  ];
-
-  // Separate strategies by batching capability
-  const batchableStrategies: BatchableStrategy[] = [];
-  const individualStrategies: ChangeStrategy[] = [];
+type StrategyStage = { batch: BatchableStrategy[] } | { strategy: ChangeStrategy };
 
+/**
+ * Splits ordered strategies into stages, batching consecutive batchable ones.
+ */
+function groupIntoStages(strategies: ChangeStrategy[]): StrategyStage[] {
+  const stages: StrategyStage[] = [];
   for (const strategy of strategies) {
-    if (isBatchable(strategy)) {
-      batchableStrategies.push(strategy);
+    const last = stages[stages.length - 1];
+    if (!isBatchable(strategy)) {
+      stages.push({ strategy });
+    } else if (last && 'batch' in last) {
+      last.batch.push(strategy);
     } else {
-      individualStrategies.push(strategy);
+      stages.push({ batch: [strategy] });
     }
   }
+  return stages;
+}
+
+/**
+ * Creates the block handler with the registered strategies: the code
+ * strategies and those defined in the `strategies` config section, in the
+ * order resolved by the registry.
+ */
+async function createBlockHandlerWithStrategies(
+  context: AppContext,
+  client: PublicClient
+): Promise<(range: BlockRange) => Promise<void>> {
+  const resolved = resolveStrategies(
+    [
+      ...CODE_STRATEGIES,
+      ...getConfiguredRegistrations(context.config.strategies),
+      ...getContractReadRegistrations(context.config.entities),
+      ...getEventIndexRegistrations(context.config.entities)
+    ],
+    context
+  );
+  logStrategyReport(resolved);
+  const stages = groupIntoStages(resolved.strategies);
 
-  return async (blockNumber: bigint | null): Promise<void> => {
-    if (!blockNumber) {
-      log.warn('[blockWatcher:handleBlock] No block number provided');
-      return;
+  return async (range: BlockRange): Promise<void> => {
+    const { to: blockNumber } = range;
+    if (range.from < range.to) {
+      log.info(`[blockWatcher:handleBlock] Handling blocks ${range.from}-${range.to} in one run`);
     }
 
     // Capture metrics before execution
-    const metricsBefore = captureMetrics();
+    const metricsBefore = await captureMetrics();
 
-    // Execute batchable strategies together
-    await executeBatchableStrategies(batchableStrategies, context, client, blockNumber);
+    const outcomes: StrategyOutcome[] = [];
+    for (const stage of stages) {
+      outcomes.push(...('batch' in stage
+        ? await executeBatchableStrategies(stage.batch, context, client, range)
+        : await runStrategiesOneByOne([stage.strategy], context, client, range, 'non-batchable')));
+    }
 
-    // Execute individual strategies
-    await runStrategiesOneByOne(individualStrategies, context, client, blockNumber, 'non-batchable');
+    getMetrics().lastProcessedBlock.set(Number(blockNumber));
+    recordBlockOutcomes(context.health, outcomes);
 
     // Log metrics summary
-    logMetricsSummary(blockNumber, metricsBefore);
+    await logMetricsSummary(blockNumber, metricsBefore);
+    logIndexingLag(context);
   };
 }
 
 /**
- * Captures current metrics state.
+ * Captures current request counts.
  */
-function captureMetrics(): { requests: number; httpRequests: number } {
+async function captureMetrics(): Promise<{ requests: number; httpRequests: number }> {
+  const { graphqlRequests, graphqlHttpRequests } = getMetrics();
   return {
-    requests: getRequestMetrics().totalRequests,
-    httpRequests: getHttpMetrics().totalHttpRequests
+    requests: await getCounterTotal(graphqlRequests),
+    httpRequests: await getCounterTotal(graphqlHttpRequests)
   };
 }
 
+/**
+ * Strategies run for the last block of the range, told where it started.
+ */
+function toStrategyParams(context: AppContext, client: PublicClient, range: BlockRange): ChangeStrategyParams {
+  return { context, client, blockNumber: range.to, fromBlock: range.from };
+}
+
+/**
+ * Records the outcome and duration of a strategy run, and persists the
+ * strategy's checkpoint.
+ */
+async function recordStrategyRun(
+  context: AppContext,
+  name: string,
+  blockNumber: bigint,
+  { outcome, error }: StrategyResult,
+  durationSeconds: number
+): Promise<void> {
+  const { strategyRuns, strategyRunDuration } = getMetrics();
+  strategyRuns.inc({ strategy: name, outcome });
+  strategyRunDuration.observe({ strategy: name }, durationSeconds);
+
+  try {
+    await saveStrategyRun(context.dbContext.db, name, blockNumber, outcome, error);
+  } catch (saveError) {
+    log.error(`[blockWatcher:recordStrategyRun] Failed to save state of ${name}:`, saveError);
+  }
+}
+
 /**
  * Executes batchable strategies with fallback.
+ * Returns the outcome of every strategy.
  */
 async function executeBatchableStrategies(
   strategies: BatchableStrategy[],
   context: AppContext,
   client: PublicClient,
-  blockNumber: bigint
-): Promise<void> {
+  range: BlockRange
+): Promise<StrategyOutcome[]> {
   if (strategies.length === 0) {
-    return;
+    return [];
   }
 
+  const startTime = performance.now();
   try {
-    await executeBatchedStrategies(strategies, { context, client, blockNumber });
+    const results = await executeBatchedStrategies(strategies, toStrategyParams(context, client, range));
+    const durationSeconds = (performance.now() - startTime) / 1000;
+    for (const [name, result] of results) {
+      await recordStrategyRun(context, name, range.to, result, durationSeconds);
+    }
+    return [...results.values()].map(({ outcome }) => outcome);
   } catch (error) {
     log.error('[blockWatcher:executeBatchableStrategies] Batch failed, using fallback:', error);
-    await runStrategiesOneByOne(strategies, context, client, blockNumber, 'fallback');
+    return runStrategiesOneByOne(strategies, context, client, range, 'fallback');
   }
 }
 
 /**
  * Executes strategies one at a time (non-batched).
  * Used for strategies that don't support batching, or as fallback when batch fails.
+ * Returns the outcome of every strategy.
  */
 async function runStrategiesOneByOne(
   strategies: ChangeStrategy[],
   context: AppContext,
   client: PublicClient,
-  blockNumber: bigint,
+  range: BlockRange,
   reason: 'non-batchable' | 'fallback'
-): Promise<void> {
+): Promise<StrategyOutcome[]> {
+  const outcomes: StrategyOutcome[] = [];
   for (const strategy of strategies) {
+    const startTime = performance.now();
+    let result: StrategyResult;
     try {
-      await strategy.detectAndProcess({ context, client, blockNumber });
+      const processed = await strategy.detectAndProcess(toStrategyParams(context, client, range));
+      result = { outcome: processed ? 'processed' : 'skipped' };
     } catch (error) {
       const label = reason === 'fallback' ? 'fallback' : 'individual';
       log.error(`[blockWatcher:runStrategiesOneByOne] ${label} ${strategy.name} failed:`, error);
+      result = { outcome: 'failed', error };
     }
+    await recordStrategyRun(context, strategy.name, range.to, result, (performance.now() - startTime) / 1000);
+    outcomes.push(result.outcome);
   }
+  return outcomes;
 }
 
 /**
  * Logs metrics summary for the block.
  */
-function logMetricsSummary(
+async function logMetricsSummary(
   blockNumber: bigint,
   before: { requests: number; httpRequests: number }
-): void {
-  const after = captureMetrics();
+): Promise<void> {
+  const after = await captureMetrics();
   const requests = after.requests - before.requests;
   const httpRequests = after.httpRequests - before.httpRequests;
 
@@ -157,20 +230,79 @@ function logMetricsSummary(
 }
 
 /**
- * Starts watching blocks and processing them with strategies.
+ * Logs how far each provider's subgraph is behind the chain head.
  */
-async function watchBlocks(context: AppContext): Promise<() => void> {
+function logIndexingLag(context: AppContext): void {
+  const lags = Object.entries(getIndexingStatuses(context.graphqlContexts))
+    .filter(([, status]) => status?.lag !== undefined)
+    .map(([name, status]) => `${name}=${status?.lag}`);
+
+  if (lags.length > 0) {
+    log.info(`[blockWatcher:logIndexingLag] Blocks behind chain head: ${lags.join(', ')}`);
+  }
+}
+
+/**
+ * Handle on a running block watcher.
+ */
+interface BlockWatcher {
+  /**
+   * Stops watching for new blocks. Resolves once the blocks already queued
+   * are handled, so their upserts and schema switches are not cut short.
+   */
+  stop: () => Promise<void>;
+}
+
+/**
+ * Starts watching blocks and processing them with strategies. Blocks go
+ * through a queue, so they are handled one run at a time and in order. Each
+ * new head queues the block `blockchain.confirmations` below it. Heads are
+ * polled every `blockchain.pollingInterval` ms (derived from the chain's
+ * block time when unset), or pushed over a WebSocket subscription when
+ * `blockchain.watchMode` is `subscribe`.
+ */
+async function watchBlocks(context: AppContext): Promise<BlockWatcher> {
   const client = createClient(context.config);
-  const handleBlock = await createBlockHandlerWithStrategies(context, client);
+  const handleBlocks = await createBlockHandlerWithStrategies(context, client);
+  const queue = createBlockQueue(handleBlocks);
+  const { confirmations = 0, watchMode = 'poll' } = context.config.blockchain;
+  let stopped = false;
 
-  return client.watchBlocks({
-    onBlock: async (block: Block) => {
-      log.info(`[blockWatcher:watchBlocks] Processing block ${block.number}`);
-      await handleBlock(block.number);
+  const unwatch = client.watchBlocks({
+    onBlock: (block: Block) => {
+      if (stopped) {
+        return;
+      }
+      if (block.number === null) {
+        log.warn('[blockWatcher:watchBlocks] No block number provided');
+        return;
+      }
+      log.info(`[blockWatcher:watchBlocks] Received block ${block.number}, ${queue.depth} block(s) waiting`);
+      updateChainHead(context.chainHead, block.number, confirmations);
+      if (block.number < BigInt(confirmations)) {
+        return;
+      }
+      queue.push(block.number - BigInt(confirmations));
+    },
+    onError: (error: Error) => {
+      log.error(`[blockWatcher:watchBlocks] Error watching blocks: ${error.message}`);
     },
     emitMissed: true,
-    pollingInterval: 1000,
+    // Left unset, viem subscribes when the first transport is a WebSocket,
+    // which createClient ensures in subscribe mode
+    poll: watchMode === 'subscribe' ? undefined : true,
+    pollingInterval: client.pollingInterval,
   });
+
+  return {
+    stop: async () => {
+      stopped = true;
+      unwatch();
+      log.info(`[blockWatcher:stop] Stopped watching, waiting for ${queue.depth} queued block(s)`);
+      await queue.idle();
+    }
+  };
 }
 
 export { watchBlocks, createBlockHandlerWithStrategies };
+export type { BlockWatcher };
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import log from 'loglevel';
+import { PublicClient } from 'viem';
+import { AppContext } from '../../context/types';
+import { createMockConfig } from '../../test-helpers/mockConfig';
+import { createBackerRewardsStrategy } from './backerRewardsStrategy';
+import { ChangeStrategyParams } from './types';
+
+/**
+ * Knex stand-in without stored rewards nor active backers, counting the
+ * refreshes through their stale-row cleanup
+ */
+const createDb = () => {
+  const refreshes: string[] = [];
+  const db = () => ({
+    max: () => ({ first: async () => ({ cycleStart: null }) }),
+    joinRaw: () => ({ where: () => ({ distinct: () => ({ orderBy: async () => [] }) }) }),
+    whereNot: (_column: string, blockNumber: string) => ({
+      delete: async () => {
+        refreshes.push(blockNumber);
+        return 0;
+      }
+    })
+  });
+  return { db, refreshes };
+};
+
+describe('backerRewardsStrategy', () => {
+  let context: AppContext;
+  let refreshes: string[];
+  let cycleStart: bigint;
+  let client: PublicClient;
+
+  beforeEach(() => {
+    log.setLevel('silent');
+    const recordingDb = createDb();
+    refreshes = recordingDb.refreshes;
+    cycleStart = 1700000000n;
+    client = {
+      readContract: mock.fn(async ({ functionName }: { functionName: string }) =>
+        (functionName === 'rewardToken' ? '0x00000000000000000000000000000000000000f1' : [cycleStart, 604800n]))
+    } as unknown as PublicClient;
+    context = {
+      config: createMockConfig({ contracts: [{ name: 'BackersManager', address: '0x0000000000000000000000000000000000000005' }] }),
+      schema: { entities: new Map() },
+      dbContext: { db: recordingDb.db, schema: 'public', batchSize: 100, maxRetries: 0, initialRetryDelay: 1 }
+    } as unknown as AppContext;
+  });
+
+  it('should refresh once per cycle even when no rewards were stored', async () => {
+    const strategy = createBackerRewardsStrategy();
+    const run = (blockNumber: bigint) => strategy.detectAndProcess({ context, client, blockNumber } as ChangeStrategyParams);
+
+    assert.equal(await run(120n), true);
+    assert.equal(await run(121n), false);
+    assert.equal(await run(122n), false);
+
+    cycleStart += 604800n;
+    assert.equal(await run(123n), true);
+    assert.deepEqual(refreshes, ['120', '123']);
+  });
+});
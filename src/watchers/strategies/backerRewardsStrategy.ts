@@ -0,0 +1,45 @@
+/**
+ * Backer Rewards Strategy - Keeps the estimated and earned rewards of every
+ * backer in the BackerReward table, so clients read them from the database
+ * instead of calling each gauge, see backerRewards.ts.
+ *
+ * Refreshes every `backerRewards.interval` blocks, or once per cycle when no
+ * interval is configured. The cycle of the last refresh is remembered even
+ * when it stored no rows, so an empty table doesn't refresh on every block.
+ */
+import { getCycleStart, getStoredCycleStart, syncBackerRewards } from '../../handlers/backerRewards';
+import { ChangeStrategy, ChangeStrategyParams } from './types';
+import { isStrategyDue } from './utils';
+
+const BACKER_REWARDS_STRATEGY = 'BackerRewards';
+
+/**
+ * Creates the strategy refreshing backer rewards.
+ */
+export function createBackerRewardsStrategy(): ChangeStrategy {
+  let refreshedCycleStart: bigint | undefined;
+
+  async function detectAndProcess({ context, client, blockNumber }: ChangeStrategyParams): Promise<boolean> {
+    if (!blockNumber) {
+      return false;
+    }
+
+    const interval = context.config.backerRewards?.interval;
+    let cycleStart: bigint | undefined;
+    if (interval === undefined) {
+      refreshedCycleStart ??= await getStoredCycleStart(context);
+      cycleStart = await getCycleStart(context, client, blockNumber);
+      if (cycleStart === refreshedCycleStart) {
+        return false;
+      }
+    } else if (!(await isStrategyDue(context, BACKER_REWARDS_STRATEGY, blockNumber, interval))) {
+      return false;
+    }
+
+    await syncBackerRewards(context, client, blockNumber);
+    refreshedCycleStart = cycleStart ?? refreshedCycleStart;
+    return true;
+  }
+
+  return { name: BACKER_REWARDS_STRATEGY, detectAndProcess };
+}
@@ -6,14 +6,15 @@
  */
 import assert from 'node:assert/strict';
 import { describe, it, beforeEach, mock } from 'node:test';
+import { Registry } from 'prom-client';
 import {
-  getRequestMetrics,
-  getHttpMetrics,
   executeRequests,
   createTheGraphContext,
   GraphQlContext,
   GraphQLRequest
 } from '../../context/subgraphProvider';
+import { SubgraphRequestError } from '../../context/subgraphErrors';
+import { getCounterTotal, getMetrics, useMetricsRegistry } from '../../metrics/metrics';
 
 // ============================================================================
 // Test Fixtures & Helpers
@@ -24,7 +25,8 @@ const TEST_CONTEXT_CONFIG = {
   url: 'https://gateway.thegraph.com/api',
   id: 'test-subgraph',
   maxRowsPerRequest: 1000,
-  apiKey: 'test-key'
+  apiKey: 'test-key',
+  retry: { maxRetries: 2, initialDelay: 1, maxDelay: 5 }
 } as const;
 
 /** Tracks actual fetch() calls during tests */
@@ -91,8 +93,7 @@ function mockFetchHttpError(status: number): void {
 
 describe('Query Batching Tests', () => {
   beforeEach(() => {
-    getRequestMetrics().reset();
-    getHttpMetrics().reset();
+    useMetricsRegistry(new Registry());
     fetchCalls = [];
 
     // Default mock - returns standard response
@@ -117,15 +118,17 @@ describe('Query Batching Tests', () => {
       assert.ok(body.query.includes('stakingHistories_1:'), 'Should have stakingHistories alias');
     });
 
-    it('should return empty result on GraphQL errors', async () => {
-      mockFetchGraphQLError('Query failed');
+    it('should throw without retrying on invalid queries', async () => {
+      mockFetchGraphQLError('Type `Query` has no field `proposalz`');
       const context = createTestContext();
       const requests = [createRequest('Proposal')];
 
-      const result = await executeRequests(context, requests);
-
-      assert.deepEqual(result, {});
-      assert.equal(fetchCalls.length, 1, 'Request was still attempted');
+      await assert.rejects(executeRequests(context, requests), (error: unknown) => {
+        assert.ok(error instanceof SubgraphRequestError);
+        assert.equal(error.kind, 'query-invalid');
+        return true;
+      });
+      assert.equal(fetchCalls.length, 1, 'Invalid queries are not retried');
     });
 
     it('should include _meta block when withMetadata is true', async () => {
@@ -146,15 +149,115 @@ describe('Query Batching Tests', () => {
       assert.ok((results as Record<string, unknown>)._meta, 'Should include _meta');
     });
 
-    it('should return empty result on HTTP error', async () => {
+    it('should throw after retrying transient HTTP errors', async () => {
       mockFetchHttpError(500);
       const context = createTestContext();
       const requests = [createRequest('Proposal')];
 
-      const results = await executeRequests(context, requests);
+      await assert.rejects(executeRequests(context, requests), (error: unknown) => {
+        assert.ok(error instanceof SubgraphRequestError);
+        assert.equal(error.kind, 'transient');
+        assert.equal(error.status, 500);
+        return true;
+      });
+      assert.equal(fetchCalls.length, 3, 'Initial attempt plus 2 retries');
+
+      const { graphqlRequests, graphqlHttpRequests } = getMetrics();
+      assert.deepEqual((await graphqlRequests.get()).values.map(({ labels, value }) => [labels, value]), [
+        [{ provider: 'test-subgraph', outcome: 'transient' }, 1]
+      ]);
+      assert.equal(await getCounterTotal(graphqlHttpRequests), 3);
+    });
+
+    it('should fail permanently, without retrying, when the response cannot be processed', async () => {
+      mockFetchSuccess({ proposals_0: [{ id: '1' }], _meta: { deployment: 'test' } });
+      const context = createTestContext();
+
+      await assert.rejects(executeRequests(context, [createRequest('Proposal')]), (error: unknown) => {
+        assert.ok(error instanceof SubgraphRequestError);
+        assert.equal(error.kind, 'permanent');
+        assert.ok(error.cause instanceof TypeError);
+        return true;
+      });
+      assert.equal(fetchCalls.length, 1, 'Permanent failures are not retried');
+
+      const { graphqlRequests } = getMetrics();
+      assert.deepEqual((await graphqlRequests.get()).values.map(({ labels, value }) => [labels, value]), [
+        [{ provider: 'test-subgraph', outcome: 'permanent' }, 1]
+      ]);
+    });
+
+    it('should recover when a retry succeeds', async () => {
+      let attempts = 0;
+      global.fetch = mock.fn(async (url: string | URL, options?: RequestInit) => {
+        fetchCalls.push({ url: String(url), options: options || {} });
+        attempts++;
+        return attempts === 1
+          ? new Response('Slow down', { status: 429, headers: { 'Retry-After': '0' } })
+          : new Response(JSON.stringify({ data: { proposals_0: [{ id: '1' }] } }), { status: 200 });
+      }) as typeof fetch;
+
+      const results = await executeRequests(createTestContext(), [createRequest('Proposal')]);
+
+      assert.deepEqual(results, { Proposal: [{ id: '1' }] });
+      assert.equal(fetchCalls.length, 2);
+    });
+
+    it('should fail over to a fallback endpoint', async () => {
+      global.fetch = mock.fn(async (url: string | URL, options?: RequestInit) => {
+        fetchCalls.push({ url: String(url), options: options || {} });
+        return String(url).startsWith('https://gateway.thegraph.com')
+          ? new Response('Bad gateway', { status: 502 })
+          : new Response(JSON.stringify({ data: { proposals_0: [{ id: '1' }] } }), { status: 200 });
+      }) as typeof fetch;
+      const context = createTheGraphContext({
+        ...TEST_CONTEXT_CONFIG,
+        fallbacks: [{ url: 'http://graph-node:8000', id: 'test-subgraph' }]
+      });
+
+      const first = await executeRequests(context, [createRequest('Proposal')]);
+      const second = await executeRequests(context, [createRequest('Proposal')]);
 
-      assert.deepEqual(results, {});
-      assert.equal(fetchCalls.length, 1, 'Request was still attempted');
+      assert.deepEqual(first, { Proposal: [{ id: '1' }] });
+      assert.deepEqual(second, { Proposal: [{ id: '1' }] });
+      assert.deepEqual(fetchCalls.map(({ url }) => url), [
+        'https://gateway.thegraph.com/api/test-key/test-subgraph',
+        'http://graph-node:8000/subgraphs/name/test-subgraph',
+        'http://graph-node:8000/subgraphs/name/test-subgraph'
+      ]);
+      assert.equal(context.endpoint, 'https://gateway.thegraph.com/api/test-key/test-subgraph', 'Provider identity is unchanged');
+    });
+
+    it('should always request _meta but only return it when asked for', async () => {
+      const results = await executeRequests(createTestContext(), [createRequest('Proposal')]);
+
+      const body = JSON.parse(fetchCalls[0].options.body as string);
+      assert.ok(body.query.includes('_meta'), 'Should query _meta');
+      assert.equal((results as Record<string, unknown>)._meta, undefined);
+    });
+
+    it('should refuse data from a subgraph lagging the chain head', async () => {
+      mockFetchSuccess({
+        proposals_0: [{ id: '1' }],
+        _meta: {
+          block: { number: '900', hash: '0x123', timestamp: '1234567890' },
+          deployment: 'test',
+          hasIndexingErrors: false
+        }
+      });
+      const context = createTheGraphContext({ ...TEST_CONTEXT_CONFIG, maxBlockLag: 50 }, 'test', { blockNumber: 1000n });
+
+      await assert.rejects(executeRequests(context, [createRequest('Proposal')]), /100 blocks behind/);
+      assert.equal(fetchCalls.length, 3, 'Lagging subgraphs are retried');
+      assert.equal(context.indexingStatus?.lag, 100n);
+    });
+
+    it('should return empty arrays when there is no data', async () => {
+      mockFetchSuccess({ proposals_0: [] });
+
+      const results = await executeRequests(createTestContext(), [createRequest('Proposal')]);
+
+      assert.deepEqual(results, { Proposal: [] });
     });
   });
 
@@ -179,6 +282,12 @@ describe('Query Batching Tests', () => {
 
       assert.equal(fetchCalls.length, 1, '5 queries should make 1 HTTP request');
 
+      const { graphqlRequests, graphqlHttpRequests, graphqlBatchSize } = getMetrics();
+      assert.equal(await getCounterTotal(graphqlRequests), 1);
+      assert.equal(await getCounterTotal(graphqlHttpRequests), 1);
+      const batchSizeSum = (await graphqlBatchSize.get()).values.find(({ metricName }) => metricName === 'graphql_batch_size_sum');
+      assert.equal(batchSizeSum?.value, 5);
+
       // 5 queries, 1 request = 80% reduction
       const reduction = ((5 - 1) / 5 * 100);
       assert.equal(reduction, 80, 'Should achieve 80% reduction');
@@ -0,0 +1,57 @@
+/**
+ * Contract Read Strategy - Keeps the entities with `source: contract` up to
+ * date.
+ *
+ * Each such entity gets a strategy that reads it from its contract at the
+ * current block every `contractRead.interval` blocks, see contractReader.ts.
+ * Strategies are registered with the entity, its `forEach` entity and its
+ * contract, see registry.ts.
+ */
+import { Entity } from '../../config/types';
+import { syncContractEntities } from '../../handlers/contractReader';
+import { StrategyRegistration } from './registry';
+import { ChangeStrategy, ChangeStrategyParams } from './types';
+import { isStrategyDue } from './utils';
+
+/** After configured strategies at the default priority, which sync the `forEach` entities */
+const CONTRACT_READ_PRIORITY = 150;
+
+/**
+ * Creates the strategy reading a `contract` entity.
+ */
+export function createContractReadStrategy(name: string, entityName: string, interval?: number): ChangeStrategy {
+  async function detectAndProcess({ context, client, blockNumber }: ChangeStrategyParams): Promise<boolean> {
+    if (!blockNumber || !(await isStrategyDue(context, name, blockNumber, interval))) {
+      return false;
+    }
+
+    await syncContractEntities(context, client, [entityName], blockNumber);
+    return true;
+  }
+
+  return { name, detectAndProcess };
+}
+
+/**
+ * Registers a strategy per `contract` entity, named after it, requiring the
+ * entity, its `forEach` entity and its contract.
+ */
+export function getContractReadRegistrations(entities: Entity[] = []): StrategyRegistration[] {
+  return entities.flatMap(entity => {
+    const read = entity.contractRead;
+    if (entity.source !== 'contract' || !read) {
+      return [];
+    }
+
+    const name = `${entity.name}ContractRead`;
+    return [{
+      name,
+      requires: {
+        entities: read.forEach ? [entity.name, read.forEach] : [entity.name],
+        contracts: read.contract && read.address === undefined ? [read.contract] : []
+      },
+      priority: CONTRACT_READ_PRIORITY,
+      create: () => createContractReadStrategy(name, entity.name, read.interval)
+    }];
+  });
+}
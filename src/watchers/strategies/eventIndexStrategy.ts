@@ -0,0 +1,55 @@
+/**
+ * Event Index Strategy - Indexes the logs of the entities with `source: events`.
+ *
+ * Each such entity gets a strategy that requests the logs of its event from
+ * the last indexed block of each emitter up to the current block, see
+ * eventIndexer.ts. Strategies are registered with the entity, the entity
+ * providing its emitters and its contract, see registry.ts.
+ */
+import { Entity } from '../../config/types';
+import { indexEventEntities } from '../../handlers/eventIndexer';
+import { StrategyRegistration } from './registry';
+import { ChangeStrategy, ChangeStrategyParams } from './types';
+
+/** After configured strategies at the default priority, which sync the entities providing emitters */
+const EVENT_INDEX_PRIORITY = 150;
+
+/**
+ * Creates the strategy indexing an `events` entity.
+ */
+export function createEventIndexStrategy(name: string, entityName: string): ChangeStrategy {
+  async function detectAndProcess({ context, client, blockNumber }: ChangeStrategyParams): Promise<boolean> {
+    if (!blockNumber) {
+      return false;
+    }
+
+    const { [entityName]: indexed = 0 } = await indexEventEntities(context, client, [entityName], blockNumber);
+    return indexed > 0;
+  }
+
+  return { name, detectAndProcess };
+}
+
+/**
+ * Registers a strategy per `events` entity, named after it, requiring the
+ * entity, the entity providing its emitters and its contract.
+ */
+export function getEventIndexRegistrations(entities: Entity[] = []): StrategyRegistration[] {
+  return entities.flatMap(entity => {
+    const index = entity.eventIndex;
+    if (entity.source !== 'events' || !index) {
+      return [];
+    }
+
+    const name = `${entity.name}Events`;
+    return [{
+      name,
+      requires: {
+        entities: index.addressesFrom ? [entity.name, index.addressesFrom.entity] : [entity.name],
+        contracts: index.contract && !index.addressesFrom ? [index.contract] : []
+      },
+      priority: EVENT_INDEX_PRIORITY,
+      create: () => createEventIndexStrategy(name, entity.name)
+    }];
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Gauge Discovery Strategy - Keeps the Gauge registry table in line with the
+ * BuilderRegistry.
+ *
+ * Every block, it looks for `GaugeCreated` logs since its last check and
+ * re-enumerates the registry's gauges when there are any, see
+ * gaugeDiscovery.ts.
+ */
+import { syncGaugeRegistry } from '../../handlers/gaugeDiscovery';
+import { ChangeStrategy, ChangeStrategyParams } from './types';
+
+const GAUGE_DISCOVERY_STRATEGY = 'GaugeDiscovery';
+
+/**
+ * Creates the strategy refreshing the Gauge registry on new gauges.
+ */
+export function createGaugeDiscoveryStrategy(): ChangeStrategy {
+  async function detectAndProcess({ context, client, blockNumber }: ChangeStrategyParams): Promise<boolean> {
+    if (!blockNumber) {
+      return false;
+    }
+
+    return syncGaugeRegistry(context, client, blockNumber);
+  }
+
+  return { name: GAUGE_DISCOVERY_STRATEGY, detectAndProcess };
+}
@@ -1,4 +1,9 @@
+export { createBackerRewardsStrategy } from './backerRewardsStrategy';
 export { createProposalStateStrategy } from './blockProposalStateStrategy';
-export { createNewProposalStrategy } from './blockProposalStrategy';
-export { createStakingHistoryStrategy } from './blockStakingHistoryStrategy';
-export { createVaultHistoryStrategy } from './blockVaultHistoryStrategy';
+export { createContractReadStrategy, getContractReadRegistrations } from './contractReadStrategy';
+export { createEventIndexStrategy, getEventIndexRegistrations } from './eventIndexStrategy';
+export { createGaugeDiscoveryStrategy } from './gaugeDiscoveryStrategy';
+export { createReconciliationStrategy } from './reconciliationStrategy';
+export { createSubgraphSyncStrategy, getConfiguredRegistrations } from './subgraphSyncStrategy';
+export { CODE_STRATEGIES, logStrategyReport, resolveStrategies } from './registry';
+export type { StrategyRegistration } from './registry';
@@ -0,0 +1,28 @@
+/**
+ * Reconciliation Strategy - Periodically compares sampled subgraph rows to
+ * the contracts and records discrepancies, see reconciliation.ts.
+ *
+ * Runs every `reconciliation.interval` blocks; reads happen at the block the
+ * subgraph has indexed, not at the block being processed.
+ */
+import { reconcile } from '../../handlers/reconciliation';
+import { ChangeStrategy, ChangeStrategyParams } from './types';
+import { isStrategyDue } from './utils';
+
+const RECONCILIATION_STRATEGY = 'Reconciliation';
+
+/**
+ * Creates the strategy running the reconciliation job.
+ */
+export function createReconciliationStrategy(): ChangeStrategy {
+  async function detectAndProcess({ context, client, blockNumber }: ChangeStrategyParams): Promise<boolean> {
+    if (!(await isStrategyDue(context, RECONCILIATION_STRATEGY, blockNumber, context.config.reconciliation?.interval))) {
+      return false;
+    }
+
+    await reconcile(context, client);
+    return true;
+  }
+
+  return { name: RECONCILIATION_STRATEGY, detectAndProcess };
+}
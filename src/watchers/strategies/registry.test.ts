@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import log from 'loglevel';
+import { Entity } from '../../config/types';
+import { AppContext } from '../../context/types';
+import { createMockConfig } from '../../test-helpers/mockConfig';
+import { CODE_STRATEGIES, resolveStrategies, StrategyRegistration } from './registry';
+import { getContractReadRegistrations } from './contractReadStrategy';
+import { getConfiguredRegistrations } from './subgraphSyncStrategy';
+
+const entity = (name: string, subgraphProvider: string): Entity => ({
+  name,
+  columns: [{ name: 'id', type: 'Bytes' }],
+  primaryKey: ['id'],
+  subgraphProvider
+});
+
+const register = (name: string, registration: Partial<StrategyRegistration> = {}): StrategyRegistration => ({
+  name,
+  create: () => ({ name, detectAndProcess: async () => true }),
+  ...registration
+});
+
+/**
+ * Context with the given entities and only the given subgraph providers reachable
+ */
+const createContext = (
+  entities: Entity[],
+  providers: string[],
+  enabledStrategies?: Record<string, boolean>
+): AppContext => ({
+  config: { ...createMockConfig({ entities }), enabledStrategies },
+  schema: { entities: new Map(entities.map(entity => [entity.name, entity])) },
+  graphqlContexts: Object.fromEntries(providers.map(provider => [provider, {}]))
+}) as unknown as AppContext;
+
+const names = ({ strategies }: { strategies: { name: string }[] }) => strategies.map(({ name }) => name);
+
+describe('Strategy registry', () => {
+  beforeEach(() => {
+    log.setLevel('silent');
+  });
+
+  it('should order by dependencies, then priority, then registration order', () => {
+    const resolved = resolveStrategies([
+      register('Late', { priority: 200 }),
+      register('Dependent', { dependsOn: ['Later'], priority: 0 }),
+      register('Later', { priority: 150 }),
+      register('First', { priority: 0 }),
+      register('Default')
+    ], createContext([], []));
+
+    assert.deepEqual(names(resolved), ['First', 'Default', 'Later', 'Dependent', 'Late']);
+    assert.deepEqual(resolved.skipped, []);
+  });
+
+  it('should skip strategies missing entities, providers or contracts', () => {
+    const context = createContext([entity('Proposal', 'governance'), entity('VaultHistory', 'usd-vault')], ['governance']);
+
+    const resolved = resolveStrategies([
+      register('Vault', { requires: { entities: ['VaultHistory'] } }),
+      register('Missing', { requires: { entities: ['Backer'], contracts: ['Treasury'] } }),
+      register('Proposals', { requires: { entities: ['Proposal'], contracts: ['Governor'] } })
+    ], context);
+
+    assert.deepEqual(names(resolved), ['Proposals']);
+    assert.deepEqual(resolved.skipped, [
+      { name: 'Vault', reason: 'missing subgraph provider \'usd-vault\'' },
+      { name: 'Missing', reason: 'missing entity \'Backer\', contract \'Treasury\'' }
+    ]);
+  });
+
+  it('should skip disabled strategies and those depending on skipped ones', () => {
+    const resolved = resolveStrategies([
+      register('Base'),
+      register('Child', { dependsOn: ['Base'] }),
+      register('Orphan', { dependsOn: ['Nowhere'] }),
+      register('Independent')
+    ], createContext([], [], { Base: false, Independent: true }));
+
+    assert.deepEqual(names(resolved), ['Independent']);
+    assert.deepEqual(resolved.skipped, [
+      { name: 'Base', reason: 'disabled in enabledStrategies' },
+      { name: 'Child', reason: 'depends on \'Base\', which is skipped' },
+      { name: 'Orphan', reason: 'depends on unknown strategy \'Nowhere\'' }
+    ]);
+  });
+
+  it('should reject duplicate names and circular dependencies', () => {
+    const context = createContext([], []);
+
+    assert.throws(() => resolveStrategies([register('A'), register('A')], context), /Duplicate strategy name 'A'/);
+    assert.throws(
+      () => resolveStrategies([register('A', { dependsOn: ['B'] }), register('B', { dependsOn: ['A'] })], context),
+      /Circular strategy dependencies between A, B/
+    );
+  });
+
+  it('should run code strategies around configured ones', () => {
+    const entities = [
+      entity('BlockChangeLog', 'collective-rewards'),
+      entity('LastProcessedBlock', 'collective-rewards'),
+      entity('Proposal', 'governance')
+    ];
+    const configured = getConfiguredRegistrations({
+      NewProposal: { entities: ['Proposal'], cursor: { lookback: 100 } }
+    });
+
+    const resolved = resolveStrategies(
+      [...CODE_STRATEGIES, ...configured],
+      createContext(entities, ['collective-rewards', 'governance'])
+    );
+
+    assert.deepEqual(names(resolved), ['reorgCleanupStrategy', 'BlockChangeLog', 'GaugeDiscovery', 'NewProposal', 'ProposalState']);
+  });
+
+  it('should register contract entities without a subgraph provider, after configured strategies', () => {
+    const gaugeAllocation: Entity = {
+      name: 'GaugeAllocation',
+      columns: [{ name: 'builder', type: 'Bytes' }],
+      primaryKey: ['builder'],
+      source: 'contract',
+      contractRead: { abi: 'Gauge', address: '{gauge}', function: 'totalAllocation', forEach: 'Builder', outputs: { 0: 'totalAllocation' } }
+    };
+    const entities = [entity('Builder', 'collective-rewards'), gaugeAllocation];
+
+    const resolved = resolveStrategies([
+      ...getContractReadRegistrations(entities),
+      ...getConfiguredRegistrations({ Builders: { entities: ['Builder'], cursor: { lookback: 10 } } })
+    ], createContext(entities, ['collective-rewards']));
+
+    assert.deepEqual(names(resolved), ['Builders', 'GaugeAllocationContractRead']);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Strategy Registry - Decides which strategies the block watcher runs, and in
+ * which order.
+ *
+ * Strategies are registered with the entities, subgraph providers and
+ * contracts they need. At startup, those disabled in `enabledStrategies`,
+ * those missing a prerequisite and those depending on a strategy that is not
+ * running are skipped and reported, instead of failing on every block.
+ */
+import log from 'loglevel';
+
+import { AppContext } from '../../context/types';
+import { CONTRACT_NAMES } from '../../handlers/contracts';
+import { createBackerRewardsStrategy } from './backerRewardsStrategy';
+import { createProposalStateStrategy } from './blockProposalStateStrategy';
+import blockChangeLogStrategy from './blockChangeLogStrategy';
+import { createGaugeDiscoveryStrategy } from './gaugeDiscoveryStrategy';
+import { createReconciliationStrategy } from './reconciliationStrategy';
+import { createRevertReorgsStrategy } from './reorgCleanupStrategy';
+import { ChangeStrategy } from './types';
+
+/** Priority of registrations that don't set one */
+const DEFAULT_PRIORITY = 100;
+
+/**
+ * What a strategy needs from the configuration to run. The subgraph
+ * provider of every required entity synced from a subgraph is required as well.
+ */
+interface StrategyRequirements {
+  entities?: string[];
+  providers?: string[];
+  contracts?: string[];
+}
+
+interface StrategyRegistration {
+  /** Keys metrics, checkpoints and `enabledStrategies` */
+  name: string;
+  requires?: StrategyRequirements;
+  /** Strategies that must run before this one; it is skipped when any of them is not running */
+  dependsOn?: string[];
+  /** Order among strategies without dependencies between them, lowest first */
+  priority?: number;
+  create: () => ChangeStrategy;
+}
+
+interface SkippedStrategy {
+  name: string;
+  reason: string;
+}
+
+interface ResolvedStrategies {
+  /** Strategies to run, dependencies first */
+  strategies: ChangeStrategy[];
+  skipped: SkippedStrategy[];
+}
+
+/**
+ * Strategies implemented in code. Reorgs are reverted before anything else
+ * is synced, gauges are discovered before the strategies reading them,
+ * proposal states are refreshed once new proposals are stored, backer rewards
+ * are read from the discovered gauges, and reconciliation runs last.
+ */
+const CODE_STRATEGIES: StrategyRegistration[] = [
+  {
+    name: 'reorgCleanupStrategy',
+    requires: { entities: ['BlockChangeLog'] },
+    priority: 0,
+    create: createRevertReorgsStrategy
+  },
+  {
+    name: 'BlockChangeLog',
+    requires: { entities: ['BlockChangeLog', 'LastProcessedBlock'] },
+    dependsOn: ['reorgCleanupStrategy'],
+    priority: 10,
+    create: () => blockChangeLogStrategy
+  },
+  {
+    name: 'GaugeDiscovery',
+    requires: { contracts: [CONTRACT_NAMES.BUILDER_REGISTRY] },
+    dependsOn: ['reorgCleanupStrategy'],
+    priority: 20,
+    create: createGaugeDiscoveryStrategy
+  },
+  {
+    name: 'ProposalState',
+    requires: { entities: ['Proposal'], contracts: [CONTRACT_NAMES.GOVERNOR] },
+    priority: 200,
+    create: createProposalStateStrategy
+  },
+  {
+    name: 'BackerRewards',
+    requires: { entities: ['BackerToBuilder'], contracts: [CONTRACT_NAMES.BACKERS_MANAGER] },
+    dependsOn: ['GaugeDiscovery'],
+    priority: 250,
+    create: createBackerRewardsStrategy
+  },
+  {
+    name: 'Reconciliation',
+    requires: { entities: ['Builder', 'BackerToBuilder', 'Backer', 'Cycle'], contracts: [CONTRACT_NAMES.BACKERS_MANAGER] },
+    priority: 300,
+    create: createReconciliationStrategy
+  }
+];
+
+/**
+ * Lists the prerequisites of a registration missing from the context.
+ */
+const findMissingRequirements = (
+  { requires = {} }: StrategyRegistration,
+  context: AppContext
+): string[] => {
+  const missing: string[] = [];
+  const providers = new Set(requires.providers ?? []);
+
+  for (const entityName of requires.entities ?? []) {
+    const entity = context.schema.entities.get(entityName);
+    if (!entity) {
+      missing.push(`entity '${entityName}'`);
+    } else if (entity.subgraphProvider) {
+      providers.add(entity.subgraphProvider);
+    }
+  }
+  for (const provider of providers) {
+    if (!context.graphqlContexts[provider]) {
+      missing.push(`subgraph provider '${provider}'`);
+    }
+  }
+  for (const contract of requires.contracts ?? []) {
+    if (!context.config.contracts?.some(({ name }) => name === contract)) {
+      missing.push(`contract '${contract}'`);
+    }
+  }
+
+  return missing;
+};
+
+/**
+ * Orders registrations so that dependencies come first, then by priority,
+ * then in registration order. Throws on circular dependencies.
+ */
+const orderRegistrations = (registrations: StrategyRegistration[]): StrategyRegistration[] => {
+  const byName = new Map(registrations.map(registration => [registration.name, registration]));
+  const pending = [...registrations].sort((a, b) => (a.priority ?? DEFAULT_PRIORITY) - (b.priority ?? DEFAULT_PRIORITY));
+  const ordered: StrategyRegistration[] = [];
+  const placed = new Set<string>();
+
+  while (pending.length > 0) {
+    const index = pending.findIndex(({ dependsOn = [] }) =>
+      dependsOn.every(dependency => placed.has(dependency) || !byName.has(dependency)));
+    if (index === -1) {
+      throw new Error(`Circular strategy dependencies between ${pending.map(({ name }) => name).join(', ')}`);
+    }
+    const [next] = pending.splice(index, 1);
+    ordered.push(next);
+    placed.add(next.name);
+  }
+
+  return ordered;
+};
+
+/**
+ * Creates the strategies to run from their registrations, skipping those that
+ * are disabled, miss a prerequisite or depend on a strategy that is skipped.
+ * Throws on duplicate names and circular dependencies.
+ */
+const resolveStrategies = (
+  registrations: StrategyRegistration[],
+  context: AppContext
+): ResolvedStrategies => {
+  const names = new Set<string>();
+  for (const { name } of registrations) {
+    if (names.has(name)) {
+      throw new Error(`Duplicate strategy name '${name}': configured strategies must not reuse the name of another strategy`);
+    }
+    names.add(name);
+  }
+
+  const enabled = context.config.enabledStrategies ?? {};
+  const skipped: SkippedStrategy[] = [];
+  const running = new Set<string>();
+  const strategies: ChangeStrategy[] = [];
+
+  for (const registration of orderRegistrations(registrations)) {
+    const { name, dependsOn = [] } = registration;
+    const missing = findMissingRequirements(registration, context);
+    const unknownDependency = dependsOn.find(dependency => !names.has(dependency));
+    const stoppedDependency = dependsOn.find(dependency => !running.has(dependency));
+
+    if (enabled[name] === false) {
+      skipped.push({ name, reason: 'disabled in enabledStrategies' });
+    } else if (missing.length > 0) {
+      skipped.push({ name, reason: `missing ${missing.join(', ')}` });
+    } else if (unknownDependency) {
+      skipped.push({ name, reason: `depends on unknown strategy '${unknownDependency}'` });
+    } else if (stoppedDependency) {
+      skipped.push({ name, reason: `depends on '${stoppedDependency}', which is skipped` });
+    } else {
+      strategies.push(registration.create());
+      running.add(name);
+    }
+  }
+
+  for (const name of Object.keys(enabled)) {
+    if (!names.has(name)) {
+      log.warn(`[registry:resolveStrategies] enabledStrategies.${name} does not match any strategy`);
+    }
+  }
+
+  return { strategies, skipped };
+};
+
+/**
+ * Logs which strategies run, in order, and why the others were skipped.
+ */
+const logStrategyReport = ({ strategies, skipped }: ResolvedStrategies): void => {
+  log.info(`[registry:logStrategyReport] Running ${strategies.length} strategies: ${strategies.map(({ name }) => name).join(', ')}`);
+  for (const { name, reason } of skipped) {
+    log.warn(`[registry:logStrategyReport] Skipping ${name}: ${reason}`);
+  }
+};
+
+export { CODE_STRATEGIES, DEFAULT_PRIORITY, logStrategyReport, resolveStrategies };
+export type { ResolvedStrategies, SkippedStrategy, StrategyRegistration, StrategyRequirements };
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import log from 'loglevel';
+import { PublicClient } from 'viem';
+import { AppContext } from '../../context/types';
+import { createMockConfig } from '../../test-helpers/mockConfig';
+import { createRevertReorgsStrategy } from './reorgCleanupStrategy';
+import { ChangeStrategyParams } from './types';
+
+/**
+ * Knex stand-in serving a stored block history, recording the blocks stored
+ */
+const createDb = (history: { number: string; hash: string; parentHash: string }[]) => {
+  const recorded: unknown[] = [];
+  const db = () => ({
+    select: () => ({ orderBy: async () => history }),
+    insert: (row: unknown) => ({
+      onConflict: () => ({
+        merge: async () => {
+          recorded.push(row);
+        }
+      })
+    }),
+    where: () => ({ delete: async () => 0 })
+  });
+  return { db, recorded };
+};
+
+describe('reorgCleanupStrategy', () => {
+  let recorded: unknown[];
+  let getBlock: ReturnType<typeof mock.fn>;
+
+  const createParams = (blockNumber: bigint): ChangeStrategyParams => {
+    const recordingDb = createDb([{ number: '103', hash: '0x67', parentHash: '0x66' }]);
+    recorded = recordingDb.recorded;
+    getBlock = mock.fn(async ({ blockNumber: number }: { blockNumber: bigint }) => ({
+      number,
+      hash: `0x${number.toString(16)}`,
+      parentHash: `0x${(number - 1n).toString(16)}`
+    }));
+
+    const context = {
+      config: createMockConfig({}),
+      dbContext: { db: recordingDb.db, schema: 'public', batchSize: 100, maxRetries: 0, initialRetryDelay: 1 }
+    } as unknown as AppContext;
+    return { context, client: { getBlock } as unknown as PublicClient, blockNumber };
+  };
+
+  beforeEach(() => {
+    log.setLevel('silent');
+  });
+
+  it('should not look up stored blocks when the new block links to the newest one', async () => {
+    const strategy = createRevertReorgsStrategy();
+
+    assert.equal(await strategy.detectAndProcess(createParams(104n)), false);
+    assert.equal(getBlock.mock.callCount(), 1);
+    assert.deepEqual(recorded, [{ number: '104', hash: '0x68', parentHash: '0x67' }]);
+  });
+
+  it('should check the stored blocks against the chain after a gap', async () => {
+    const strategy = createRevertReorgsStrategy();
+
+    assert.equal(await strategy.detectAndProcess(createParams(106n)), false);
+    assert.deepEqual(getBlock.mock.calls.map(({ arguments: [{ blockNumber }] }) => blockNumber), [106n, 103n]);
+  });
+});
@@ -1,58 +1,157 @@
-import { info } from 'loglevel';
-import { Hex, PublicClient } from 'viem';
+import log, { info } from 'loglevel';
+import { PublicClient } from 'viem';
 import { PUBLIC_SCHEMA } from '../../context/db';
 import { AppContext } from '../../context/types';
 import { createContextWithSchema } from '../../context/create';
-import { ChangeStrategy } from './types';
-import { getLastProcessedBlock } from './utils';
+import { BlockChangeLog, ChangeStrategy, ChangeStrategyParams } from './types';
+import {
+  BlockHistoryEntry,
+  discardBlocksAfter,
+  extendsHistory,
+  findCommonAncestor,
+  getBlockHistory,
+  recordBlock,
+  recordReorgEvent,
+  ReorgEvent
+} from '../../handlers/blockHistory';
+import { copyInternalTables } from '../../handlers/internalTables';
 import { createSchema, switchSchema } from '../../handlers/schema';
 import { createDb } from '../../handlers/dbCreator';
+import { rollbackEntities } from '../../handlers/reorgRollback';
 import { syncEntities } from '../../handlers/subgraphSyncer';
-
-const convertDbIdToHash = (id: string): Hex => {
-  return Buffer.from(id, 'hex').toString('utf-8') as Hex;
-};
+import { syncContractEntities } from '../../handlers/contractReader';
+import { indexEventEntities, rewindEventEntities } from '../../handlers/eventIndexer';
+import { getMetrics } from '../../metrics/metrics';
 
 const NEW_SCHEMA = 'tmp_public';
 const SHOULD_INITIALIZE_DB = false;
 const IS_PRODUCTION_MODE = true;
-export const createRevertReorgsStrategy = (): ChangeStrategy => {
+const DEFAULT_MAX_REORG_DEPTH = 100;
 
-  const detectAndProcess = async ({
-    client,
-    context
-  }: {
-    context: AppContext;
-    client: PublicClient;
-  }): Promise<boolean> => {
-    const { dbContext } = context;
+/**
+ * Re-fetches the entities listed by the change logs stored after the common
+ * ancestor, then removes those change logs. These go last, so an interrupted
+ * rollback finds the entities to re-fetch again.
+ */
+const rollbackAfter = async (context: AppContext, commonAncestor: bigint): Promise<void> => {
+  const { db } = context.dbContext;
+  const orphaned = await db<BlockChangeLog>('BlockChangeLog').where('blockNumber', '>', commonAncestor.toString());
 
-    const { id, blockNumber } = await getLastProcessedBlock(dbContext.db);
+  const touched = new Set(orphaned.flatMap(({ updatedEntities }) => updatedEntities ?? []));
+  touched.add('BlockChangeLog');
+  touched.delete('LastProcessedBlock');
+  info(`Rolling back ${orphaned.length} change logs after block ${commonAncestor}: ${[...touched].join(', ')}`);
+
+  await rollbackEntities(context, commonAncestor, [...touched]);
+  await db('BlockChangeLog').whereIn('id', orphaned.map(({ id }) => id)).delete();
+};
 
-    const {
-      hash: onchainBlockHash,
-    } = await client.getBlock({
-      blockNumber
-    });
+/**
+ * Rebuilds every entity in a new schema and swaps it in, carrying over the
+ * internal tables but the orphaned block history. Entities read from contracts and event logs are read
+ * up to `blockNumber`.
+ */
+const rebuildSchema = async (context: AppContext, client: PublicClient, blockNumber: bigint | null): Promise<void> => {
+  const { dbContext } = context;
+  await createSchema(dbContext, NEW_SCHEMA);
+  const newContext = createContextWithSchema(context, NEW_SCHEMA);
+  const entities = await createDb(newContext, IS_PRODUCTION_MODE, SHOULD_INITIALIZE_DB);
 
-    const blockHash = convertDbIdToHash(id);
+  // Initial sync of entities
+  await syncEntities(newContext, entities.filter(entity => entity !== 'LastProcessedBlock'));
+  if (blockNumber !== null) {
+    await syncContractEntities(newContext, client, entities, blockNumber);
+    await indexEventEntities(newContext, client, entities, blockNumber);
+  }
 
-    if (onchainBlockHash !== blockHash) {
-      info('Reorg detected');
+  await copyInternalTables(dbContext.db, PUBLIC_SCHEMA, NEW_SCHEMA);
 
-      await createSchema(dbContext, NEW_SCHEMA);
-      const newContext = createContextWithSchema(context, NEW_SCHEMA);
-      const entities = await createDb(newContext, IS_PRODUCTION_MODE, SHOULD_INITIALIZE_DB);
+  await switchSchema(dbContext, NEW_SCHEMA, PUBLIC_SCHEMA);
+};
+
+/**
+ * Recovers from a reorg of the stored blocks after `commonAncestor`: a
+ * rollback of the entities they touched and of the indexed event logs, or a
+ * full rebuild when the reorg is deeper than the stored history. Records the
+ * reorg either way.
+ */
+const recoverFromReorg = async (
+  { context, client, blockNumber }: ChangeStrategyParams,
+  history: BlockHistoryEntry[],
+  commonAncestor: BlockHistoryEntry | undefined
+): Promise<void> => {
+  const { db } = context.dbContext;
+  const [latest] = history;
+  const { reorgsDetected, reorgRollbacks, reorgDepth } = getMetrics();
+
+  const event: ReorgEvent = commonAncestor
+    ? {
+      commonAncestor: commonAncestor.number,
+      fromBlock: commonAncestor.number + 1n,
+      toBlock: latest.number,
+      depth: Number(latest.number - commonAncestor.number),
+      orphanedHash: latest.hash,
+      mode: 'partial'
+    }
+    : {
+      commonAncestor: null,
+      fromBlock: history[history.length - 1].number,
+      toBlock: latest.number,
+      depth: Number(latest.number - history[history.length - 1].number) + 1,
+      orphanedHash: latest.hash,
+      mode: 'full'
+    };
+  log.warn(`[reorgCleanupStrategy:recoverFromReorg] Reorg of blocks ${event.fromBlock}-${event.toBlock} (depth ${event.depth}${commonAncestor ? '' : ' or more'})`);
+  reorgsDetected.inc();
+  reorgDepth.observe(event.depth);
 
-      // Initial sync of entities
-      await syncEntities(newContext, entities.filter(entity => entity !== 'LastProcessedBlock'));
+  if (commonAncestor) {
+    await rollbackAfter(context, commonAncestor.number);
+    await rewindEventEntities(context, commonAncestor.number);
+    await discardBlocksAfter(db, commonAncestor.number);
+  } else {
+    log.warn('[reorgCleanupStrategy:recoverFromReorg] Reorg deeper than the stored block history, rebuilding the schema');
+    await rebuildSchema(context, client, blockNumber);
+  }
 
-      await switchSchema(dbContext, NEW_SCHEMA, PUBLIC_SCHEMA);
+  await recordReorgEvent(db, event);
+  reorgRollbacks.inc({ mode: event.mode });
+};
+
+/**
+ * Detects reorgs by checking the stored history of processed blocks against
+ * the chain, newest first, down to the common ancestor, unless the parent
+ * hash of the handled block links it to the newest stored one. Each handled
+ * block is then added to the history, which keeps the last
+ * `blockchain.maxReorgDepth` blocks.
+ */
+export const createRevertReorgsStrategy = (): ChangeStrategy => {
+
+  const detectAndProcess = async (params: ChangeStrategyParams): Promise<boolean> => {
+    const { client, context, blockNumber } = params;
+    const { db } = context.dbContext;
+    const windowSize = context.config.blockchain.maxReorgDepth ?? DEFAULT_MAX_REORG_DEPTH;
+
+    const history = await getBlockHistory(db);
+    let block: BlockHistoryEntry | undefined;
+    if (blockNumber !== null) {
+      const { number, hash, parentHash } = await client.getBlock({ blockNumber });
+      block = { number, hash, parentHash };
+    }
+
+    const commonAncestor = block && extendsHistory(history, block)
+      ? history[0]
+      : await findCommonAncestor(history, async number => (await client.getBlock({ blockNumber: number })).hash);
+    const reorged = history.length > 0 && commonAncestor !== history[0];
+    if (reorged) {
+      await recoverFromReorg(params, history, commonAncestor);
+    }
 
-      return true;
+    if (block) {
+      await recordBlock(db, block, windowSize);
     }
 
-    return false;
+    return reorged;
   };
 
   return {
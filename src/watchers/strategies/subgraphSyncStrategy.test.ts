@@ -0,0 +1,229 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import log from 'loglevel';
+import { PublicClient } from 'viem';
+import { Entity, SubgraphStrategy } from '../../config/types';
+import { createTheGraphContext } from '../../context/subgraphProvider';
+import { AppContext } from '../../context/types';
+import { createMockConfig } from '../../test-helpers/mockConfig';
+import { createSubgraphSyncStrategy } from './subgraphSyncStrategy';
+import { BatchableStrategy, ChangeStrategyParams } from './types';
+
+const account: Entity = {
+  name: 'Account',
+  primaryKey: ['id'],
+  subgraphProvider: 'governance',
+  columns: [{ name: 'id', type: 'Bytes' }]
+};
+
+const stakingHistory: Entity = {
+  name: 'StakingHistory',
+  primaryKey: ['id'],
+  subgraphProvider: 'governance',
+  columns: [
+    { name: 'id', type: 'Bytes' },
+    { name: 'user', type: 'Account' },
+    { name: 'blockNumber', type: 'BigInt' }
+  ]
+};
+
+const subgraphMeta = {
+  block: { number: '1000', hash: '0x3e8', timestamp: '1700000000' },
+  deployment: 'Qm123',
+  hasIndexingErrors: false
+};
+
+/**
+ * Knex stand-in with a stored cursor value and an optional strategy checkpoint,
+ * recording the ids upserted into each table
+ */
+const createDb = (lastStakingBlock: string | null, strategyState?: Record<string, unknown>) => {
+  const upserts: { table: string; ids: string[] }[] = [];
+  const db = (table: string) => ({
+    where: () => ({ first: async () => strategyState }),
+    max: () => ({ first: async () => ({ last: table === 'StakingHistory' ? lastStakingBlock : null }) }),
+    insert: (rows: { id: string }[]) => ({
+      onConflict: () => ({
+        merge: async () => {
+          upserts.push({ table, ids: rows.map(({ id }) => id) });
+        }
+      })
+    })
+  });
+  return { db, upserts };
+};
+
+/**
+ * Stubs fetch with a subgraph serving `records` per plural entity name,
+ * honouring `first` and `id_gt`. Returns the batch queries it received.
+ */
+const stubSubgraph = (records: Record<string, string[]>) => {
+  const queries: string[] = [];
+  global.fetch = mock.fn(async (_url: string | URL, options?: RequestInit) => {
+    const { query } = JSON.parse(options?.body as string) as { query: string };
+    queries.push(query);
+
+    const data: Record<string, unknown> = { _meta: subgraphMeta };
+    for (const match of query.matchAll(/(\w+)_(\d+): (\w+)\(first: (\d+)(.*)\)/g)) {
+      const [, alias, index, plural, first, rest] = match;
+      const idGt = /id_gt: "(\w+)"/.exec(rest)?.[1] ?? '';
+      data[`${alias}_${index}`] = (records[plural] ?? [])
+        .filter(id => id > idGt)
+        .slice(0, Number(first))
+        .map(id => ({ id }));
+    }
+    return new Response(JSON.stringify({ data }), { status: 200 });
+  }) as typeof fetch;
+  return queries;
+};
+
+const stakingDefinition: SubgraphStrategy = {
+  entities: ['Account', 'StakingHistory'],
+  cursor: { entity: 'StakingHistory', column: 'blockNumber' }
+};
+
+describe('subgraphSyncStrategy', () => {
+  let upserts: { table: string; ids: string[] }[];
+
+  const createParams = (
+    definition: SubgraphStrategy,
+    { lastStakingBlock = '500' as string | null, strategyState = undefined as Record<string, unknown> | undefined } = {}
+  ): ChangeStrategyParams => {
+    const config = createMockConfig({ entities: [account, stakingHistory] });
+    config.blockchain.blockIntervalThreshold = 10;
+    const recordingDb = createDb(lastStakingBlock, strategyState);
+    upserts = recordingDb.upserts;
+
+    const context = {
+      config,
+      schema: { entities: new Map([['Account', account], ['StakingHistory', stakingHistory]]) },
+      graphqlContexts: {
+        governance: createTheGraphContext({
+          url: 'http://localhost:8001',
+          id: 'test-governance',
+          maxRowsPerRequest: 2,
+          apiKey: 'test-api-key',
+          retry: { maxRetries: 0 }
+        }, 'governance')
+      },
+      dbContext: { db: recordingDb.db, schema: 'public', batchSize: 100, maxRetries: 1, initialRetryDelay: 1 }
+    } as unknown as AppContext;
+
+    return { context, client: {} as PublicClient, blockNumber: 1000n };
+  };
+
+  beforeEach(() => {
+    log.setLevel('silent');
+  });
+
+  it('should be batchable unless configured otherwise', () => {
+    const batchable = createSubgraphSyncStrategy('StakingHistory', stakingDefinition) as BatchableStrategy;
+    const individual = createSubgraphSyncStrategy('StakingHistory', { ...stakingDefinition, batchable: false });
+
+    assert.equal(batchable.canBatch, true);
+    assert.equal(batchable.name, 'StakingHistory');
+    assert.equal('canBatch' in individual, false);
+  });
+
+  it('should query changes since one past the stored cursor', async () => {
+    stubSubgraph({});
+    const strategy = createSubgraphSyncStrategy('StakingHistory', stakingDefinition) as BatchableStrategy;
+
+    const queries = await strategy.getQueries(createParams(stakingDefinition));
+
+    assert.deepEqual(queries.map(({ entityName }) => entityName), ['Account', 'StakingHistory']);
+    assert.match(queries[0].query, /where: \{ _change_block: \{ number_gte: 501 \} \}/);
+  });
+
+  it('should render filter templates with a lookback cursor', async () => {
+    const definition: SubgraphStrategy = {
+      entities: ['StakingHistory'],
+      cursor: { lookback: 300 },
+      filter: { blockNumber_gt: '{fromBlock}', blockNumber_lte: '{blockNumber}' }
+    };
+    stubSubgraph({});
+    const strategy = createSubgraphSyncStrategy('RecentStaking', definition) as BatchableStrategy;
+
+    const [query] = await strategy.getQueries(createParams(definition));
+
+    assert.match(query.query, /where: \{ blockNumber_gt: 700, blockNumber_lte: 1000 \}/);
+  });
+
+  it('should filter each entity by its own filter on every page', async () => {
+    const definition: SubgraphStrategy = {
+      entities: ['Account', 'StakingHistory'],
+      cursor: { lookback: 300 },
+      entityFilters: { Account: {}, StakingHistory: { blockNumber_gt: '{fromBlock}' } }
+    };
+    const queries = stubSubgraph({ accounts: ['0x01', '0x02', '0x03'], stakingHistories: ['0x04', '0x05', '0x06'] });
+    const strategy = createSubgraphSyncStrategy('RecentStaking', definition);
+
+    await strategy.detectAndProcess(createParams(definition));
+
+    for (const query of queries.slice(1)) {
+      assert.doesNotMatch(query, /accounts\(first: 2, where: \{ [^}]*_change_block/);
+      assert.match(query, /stakingHistories\(first: 2, where: \{ blockNumber_gt: 700/);
+    }
+    assert.match(queries[1], /accounts\(first: 2, block:/);
+    assert.match(queries[2], /accounts\(first: 2, where: \{ id_gt: "0x02" \}/);
+  });
+
+  it('should not run before its interval has passed since the last success', async () => {
+    const definition = { ...stakingDefinition, interval: 50 };
+    const strategy = createSubgraphSyncStrategy('StakingHistory', definition) as BatchableStrategy;
+    const strategyState = { lastRunBlock: '990', lastSuccessBlock: '990', lastError: null, runCount: '4' };
+
+    assert.deepEqual(await strategy.getQueries(createParams(definition, { strategyState })), []);
+  });
+
+  it('should upsert every page, referenced entities first', async () => {
+    const queries = stubSubgraph({
+      accounts: ['0x01', '0x02', '0x03'],
+      stakingHistories: ['0x0a']
+    });
+    const strategy = createSubgraphSyncStrategy('StakingHistory', stakingDefinition);
+
+    const processed = await strategy.detectAndProcess(createParams(stakingDefinition));
+
+    assert.equal(processed, true);
+    // The subgraph's _meta, then two pages
+    assert.equal(queries.length, 3);
+    assert.deepEqual(upserts, [
+      { table: 'Account', ids: ['0x01', '0x02'] },
+      { table: 'StakingHistory', ids: ['0x0a'] },
+      { table: 'Account', ids: ['0x03'] }
+    ]);
+    assert.match(queries[2], /id_gt: "0x02"/);
+    assert.match(queries[2], /_change_block: \{ number_gte: 501 \}/);
+  });
+
+  it('should pin every page to the subgraph block without confirmations', async () => {
+    const queries = stubSubgraph({ accounts: ['0x01', '0x02', '0x03'] });
+    const strategy = createSubgraphSyncStrategy('StakingHistory', stakingDefinition);
+
+    await strategy.detectAndProcess(createParams(stakingDefinition));
+
+    assert.ok(queries.slice(1).every(query => /accounts\(first: 2, .*block: \{ number: 1000 \}/.test(query)));
+  });
+
+  it('should read as of the confirmed block when the subgraph is ahead of it', async () => {
+    stubSubgraph({});
+    const strategy = createSubgraphSyncStrategy('StakingHistory', stakingDefinition) as BatchableStrategy;
+    const params = createParams(stakingDefinition);
+    params.context.config.blockchain.confirmations = 12;
+    params.context.chainHead = { blockNumber: 1002n, confirmedBlockNumber: 990n };
+
+    const [query] = await strategy.getQueries(params);
+
+    assert.match(query.query, /block: \{ number: 990 \}/);
+  });
+
+  it('should start from block 0 when nothing is stored yet', async () => {
+    stubSubgraph({});
+    const strategy = createSubgraphSyncStrategy('StakingHistory', stakingDefinition) as BatchableStrategy;
+
+    const [query] = await strategy.getQueries(createParams(stakingDefinition, { lastStakingBlock: null }));
+
+    assert.match(query.query, /number_gte: 0 /);
+  });
+});
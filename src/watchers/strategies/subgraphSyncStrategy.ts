@@ -0,0 +1,213 @@
+/**
+ * Subgraph Sync Strategy - Builds strategies from the `strategies` config section.
+ *
+ * Each configured strategy syncs a list of entities from their subgraph,
+ * filtered from a block given by its cursor, every `interval` blocks. Pages
+ * beyond the first are fetched by id until every entity is exhausted.
+ * Entities may have filters of their own (`entityFilters`).
+ *
+ * Batchable definitions become BatchableStrategy instances. Strategies are
+ * registered with the entities they sync, see registry.ts.
+ */
+import log from 'loglevel';
+
+import { FilterTemplate, SubgraphStrategy } from '../../config/types';
+import { capToConfirmedBlock } from '../../context/indexingStatus';
+import { executeRequests, fetchSubgraphMeta, GraphQLRequest, GraphQlContext } from '../../context/subgraphProvider';
+import { AppContext } from '../../context/types';
+import { BlockConstraint, createEntityQuery, FilterValue } from '../../handlers/subgraphQueryBuilder';
+import { processEntityData } from '../../handlers/subgraphSyncer';
+import { EntityDataCollection } from '../../handlers/types';
+import { StrategyRegistration } from './registry';
+import { BatchableStrategy, ChangeStrategy, ChangeStrategyParams } from './types';
+import { isStrategyDue } from './utils';
+
+/** Entities changed since the cursor's block */
+const DEFAULT_FILTER: FilterTemplate = { _change_block: { number_gte: '{fromBlock}' } };
+
+/**
+ * Replaces the "{fromBlock}" and "{blockNumber}" placeholders of a filter template
+ */
+const renderFilter = (template: FilterTemplate, blocks: { fromBlock: bigint; blockNumber: bigint }): FilterValue =>
+  Object.fromEntries(Object.entries(template).map(([key, value]) => {
+    if (value === '{fromBlock}') {
+      return [key, blocks.fromBlock];
+    }
+    if (value === '{blockNumber}') {
+      return [key, blocks.blockNumber];
+    }
+    return [key, typeof value === 'object' ? renderFilter(value, blocks) : value];
+  }));
+
+/**
+ * Block the strategy syncs from: one past the highest stored cursor value, or
+ * `lookback` blocks before the current block.
+ */
+const getFromBlock = async (
+  context: AppContext,
+  definition: SubgraphStrategy,
+  blockNumber: bigint
+): Promise<bigint> => {
+  const { entity = definition.entities[0], column, lookback } = definition.cursor;
+
+  if (lookback !== undefined) {
+    const fromBlock = blockNumber - BigInt(lookback);
+    return fromBlock > 0n ? fromBlock : 0n;
+  }
+
+  const result = await context.dbContext.db(entity).max({ last: column }).first();
+  // bigint aggregates arrive as strings
+  return result?.last ? BigInt(result.last) + 1n : 0n;
+};
+
+/**
+ * Queries for the entities whose previous page was full, continuing after its last id
+ */
+const buildNextPageQueries = (
+  context: AppContext,
+  graphqlContext: GraphQlContext,
+  results: EntityDataCollection,
+  filters: Map<string, FilterValue>,
+  block?: BlockConstraint
+): GraphQLRequest[] => {
+  const maxRows = graphqlContext.pagination.maxRowsPerRequest;
+
+  return Object.entries(results).flatMap(([entityName, records]) => {
+    const lastId = records[records.length - 1]?.id;
+    if (records.length < maxRows || !lastId) {
+      return [];
+    }
+    return [createEntityQuery(context.schema, entityName, {
+      first: maxRows,
+      filters: { ...(filters.get(entityName) as Record<string, FilterValue>), id_gt: String(lastId) },
+      block
+    })];
+  });
+};
+
+/**
+ * Creates a strategy from its definition in the `strategies` config section.
+ */
+export function createSubgraphSyncStrategy(
+  name: string,
+  definition: SubgraphStrategy
+): BatchableStrategy | ChangeStrategy {
+  const filterTemplate = definition.filter ?? DEFAULT_FILTER;
+  // Filters per entity and block of the run in progress, reused for the pages after the first
+  let currentFilters: Map<string, FilterValue> | undefined;
+  let currentBlock: BlockConstraint | undefined;
+
+  function getSubgraphContext(context: AppContext): GraphQlContext | null {
+    const entity = context.schema.entities.get(definition.entities[0]);
+    if (!entity) {
+      log.error(`[subgraphSyncStrategy:getSubgraphContext] ${name}: entity ${definition.entities[0]} not found`);
+      return null;
+    }
+    return (entity.subgraphProvider && context.graphqlContexts[entity.subgraphProvider]) || null;
+  }
+
+  async function getQueries(params: ChangeStrategyParams): Promise<GraphQLRequest[]> {
+    const { context, blockNumber } = params;
+
+    if (!blockNumber || !(await isStrategyDue(context, name, blockNumber, definition.interval))) {
+      return [];
+    }
+
+    const graphqlContext = getSubgraphContext(context);
+    if (!graphqlContext) {
+      return [];
+    }
+
+    const fromBlock = await getFromBlock(context, definition, blockNumber);
+    log.debug(`[subgraphSyncStrategy:getQueries] ${name}: syncing from block ${fromBlock}`);
+    const filters = new Map(definition.entities.map(entityName => [
+      entityName,
+      renderFilter(definition.entityFilters?.[entityName] ?? filterTemplate, { fromBlock, blockNumber })
+    ]));
+    currentFilters = filters;
+    // Every page of the run reads as of the subgraph's current block, capped to the confirmed one
+    const { blockNumber: indexedBlock } = await fetchSubgraphMeta(graphqlContext);
+    currentBlock = { number: capToConfirmedBlock(context.chainHead, indexedBlock) };
+
+    return definition.entities.map(entityName => createEntityQuery(context.schema, entityName, {
+      first: graphqlContext.pagination.maxRowsPerRequest,
+      filters: filters.get(entityName),
+      block: currentBlock
+    }));
+  }
+
+  async function processBatchResults(results: EntityDataCollection, params: ChangeStrategyParams): Promise<boolean> {
+    const { context } = params;
+    const graphqlContext = getSubgraphContext(context);
+    if (!graphqlContext || !currentFilters) {
+      return false;
+    }
+
+    // Write in the configured order, so referenced entities come first
+    const ordered = (data: EntityDataCollection): EntityDataCollection => Object.fromEntries(
+      definition.entities.filter(entityName => data[entityName]?.length > 0)
+        .map(entityName => [entityName, data[entityName]])
+    );
+
+    let page = ordered(results);
+    let total = 0;
+    while (Object.keys(page).length > 0) {
+      total += Object.values(page).reduce((sum, records) => sum + records.length, 0);
+      await processEntityData(context, page);
+
+      const nextQueries = buildNextPageQueries(context, graphqlContext, page, currentFilters, currentBlock);
+      page = nextQueries.length > 0 ? ordered(await executeRequests(graphqlContext, nextQueries)) : {};
+    }
+
+    log.info(`[subgraphSyncStrategy:processBatchResults] ${name}: ${total} records`);
+    // A run counts as processed even without changes, so `interval` spaces out runs
+    return true;
+  }
+
+  /**
+   * Standalone execution - used when not batching or as fallback.
+   */
+  async function detectAndProcess(params: ChangeStrategyParams): Promise<boolean> {
+    const graphqlContext = getSubgraphContext(params.context);
+    if (!graphqlContext) {
+      return false;
+    }
+
+    const queries = await getQueries(params);
+    if (queries.length === 0) {
+      return false;
+    }
+
+    const results = await executeRequests(graphqlContext, queries);
+    return processBatchResults(results, params);
+  }
+
+  if (definition.batchable === false) {
+    return { name, detectAndProcess };
+  }
+
+  return {
+    name,
+    canBatch: true,
+    getSubgraphContext,
+    getQueries,
+    processBatchResults,
+    detectAndProcess
+  };
+}
+
+/**
+ * Registers every strategy of the `strategies` config section, requiring the
+ * entities it syncs.
+ */
+export function getConfiguredRegistrations(
+  strategies: Record<string, SubgraphStrategy> = {}
+): StrategyRegistration[] {
+  return Object.entries(strategies).map(([name, definition]) => ({
+    name,
+    requires: { entities: [...new Set([...definition.entities, definition.cursor.entity ?? definition.entities[0]])] },
+    dependsOn: definition.dependsOn,
+    priority: definition.priority,
+    create: () => createSubgraphSyncStrategy(name, definition)
+  }));
+}
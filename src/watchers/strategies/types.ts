@@ -2,6 +2,7 @@ import { PublicClient } from 'viem';
 import { AppContext } from '../../context/types';
 import { GraphQLRequest, GraphQlContext } from '../../context/subgraphProvider';
 import { EntityDataCollection } from '../../handlers/types';
+import { StrategyOutcome } from '../../metrics/metrics';
 
 /**
  * Parameters passed to strategy methods during block processing.
@@ -13,6 +14,19 @@ interface ChangeStrategyParams {
   client: PublicClient;
   /** Current block number being processed (null if unknown) */
   blockNumber: bigint | null;
+  /**
+   * First block of the range handled by this run; earlier than `blockNumber`
+   * when blocks that arrived during the previous run were coalesced
+   */
+  fromBlock?: bigint;
+}
+
+/**
+ * Result of running a strategy for a block, with the error it failed with.
+ */
+interface StrategyResult {
+  outcome: StrategyOutcome;
+  error?: unknown;
 }
 
 /**
@@ -101,4 +115,4 @@ interface Proposal {
   createdAtBlock: bigint;
 }
 
-export type { ChangeStrategyParams, ChangeStrategy, BatchableStrategy, BlockChangeLog, Proposal, LastProcessedBlock };
+export type { ChangeStrategyParams, ChangeStrategy, StrategyResult, BatchableStrategy, BlockChangeLog, Proposal, LastProcessedBlock };
@@ -1,7 +1,9 @@
 import assert from 'node:assert/strict';
 import { describe, it, beforeEach, mock } from 'node:test';
-import { getLastProcessedBlock } from './utils';
+import { getLastProcessedBlock, isStrategyDue } from './utils';
 import { BlockChangeLog } from './types';
+import { AppContext } from '../../context/types';
+import { createMockContext } from '../../test-helpers/mockConfig';
 
 describe('Watchers Strategies Utils', () => {
   let mockDb: any;
@@ -317,4 +319,45 @@ describe('Watchers Strategies Utils', () => {
       });
     });
   });
+
+  describe('isStrategyDue', () => {
+    /**
+     * Context whose database holds the given StrategyState row
+     */
+    const createContext = (row?: Record<string, unknown>, blockIntervalThreshold = 10): AppContext => {
+      const context = createMockContext();
+      context.config.blockchain.blockIntervalThreshold = blockIntervalThreshold;
+      context.dbContext.db = mock.fn(() => ({
+        where: () => ({ first: async () => row })
+      }));
+      return context as unknown as AppContext;
+    };
+
+    it('should run strategies that never succeeded', async () => {
+      assert.equal(await isStrategyDue(createContext(), 'VaultHistory', 100n), true);
+      assert.equal(await isStrategyDue(createContext({
+        lastRunBlock: '95', lastSuccessBlock: null, lastError: 'boom', runCount: '3'
+      }), 'VaultHistory', 100n), true);
+    });
+
+    it('should skip blocks within the interval of the last success', async () => {
+      const context = createContext({ lastRunBlock: '95', lastSuccessBlock: '95', lastError: null, runCount: '1' });
+
+      assert.equal(await isStrategyDue(context, 'VaultHistory', 104n), false);
+      assert.equal(await isStrategyDue(context, 'VaultHistory', 105n), true);
+    });
+
+    it('should read the checkpoint of the named strategy', async () => {
+      const context = createContext();
+
+      await isStrategyDue(context, 'StakingHistory', 100n);
+
+      const db = context.dbContext.db as unknown as ReturnType<typeof mock.fn>;
+      assert.equal(db.mock.calls[0].arguments[0], 'StrategyState');
+    });
+
+    it('should not run without a block number', async () => {
+      assert.equal(await isStrategyDue(createContext(), 'VaultHistory', null), false);
+    });
+  });
 });
@@ -1,4 +1,7 @@
+import log from 'loglevel';
 import { DatabaseContext } from '../../context/db';
+import { AppContext } from '../../context/types';
+import { getStrategyState } from '../../handlers/strategyState';
 import { BlockChangeLog } from './types';
 
 export const getLastProcessedBlock = async (
@@ -13,3 +16,33 @@ export const getLastProcessedBlock = async (
     updatedEntities: []
   };
 };
+
+/**
+ * Throttles a strategy to one successful run every `interval` blocks
+ * (`blockIntervalThreshold` by default), counted from the last success stored
+ * in its checkpoint.
+ */
+export const isStrategyDue = async (
+  context: AppContext,
+  strategyName: string,
+  blockNumber: bigint | null,
+  interval = context.config.blockchain.blockIntervalThreshold
+): Promise<boolean> => {
+  if (!blockNumber) {
+    return false;
+  }
+
+  const state = await getStrategyState(context.dbContext.db, strategyName);
+  const lastSuccessBlock = state?.lastSuccessBlock;
+  const threshold = BigInt(interval);
+
+  if (lastSuccessBlock && blockNumber < lastSuccessBlock + threshold) {
+    log.debug(
+      `[strategies:isStrategyDue] Skipping ${strategyName} at block ${blockNumber}, ` +
+      `next at ${lastSuccessBlock + threshold}`
+    );
+    return false;
+  }
+
+  return true;
+};